@@ -0,0 +1,1606 @@
+/**
+ * @file WaterSystemEngine.ts
+ * @description Ce fichier contient le moteur de simulation du système d'eau, indépendant de Vue.
+ * Il possède les sources de données, les pipelines RxJS de tous les sous-systèmes et l'état global,
+ * et peut être instancié dans un script Node, un worker ou un test sans composant hôte.
+ *
+ * @module WaterSystem
+ */
+
+import { isEqual, memoize } from 'lodash-es';
+import {
+  BehaviorSubject,
+  EMPTY,
+  type Observable,
+  Subject,
+  type Subscription,
+  combineLatest,
+  defer,
+  of,
+  throwError,
+  timer,
+} from 'rxjs';
+import {
+  catchError,
+  distinctUntilChanged,
+  map,
+  mergeMap,
+  retryWhen,
+  shareReplay,
+  switchMap,
+  take,
+  takeUntil,
+  tap,
+} from 'rxjs/operators';
+import type { ComputedRef, Ref } from 'vue';
+
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import { defaultWaterSystemTopology } from '@/config/waterSystemTopology';
+import type {
+  Alert,
+  DamGate,
+  DataSources,
+  DispatchReport,
+  DistributionNetworkState,
+  DrinkingWaterSegment,
+  DroughtState,
+  EnsembleReport,
+  FloodForecast,
+  GateSetting,
+  GlacierState,
+  IrrigationState,
+  OperatingPolicy,
+  PurificationPlantState,
+  ReservoirState,
+  Scenario,
+  ScenarioDailyResult,
+  ScenarioModifiers,
+  ScenarioReport,
+  SimulationTick,
+  StageStoragePoint,
+  SystemForecast,
+  TimeSeries,
+  WastewaterPlantState,
+  WaterAllocationState,
+  WaterBalanceReport,
+  WaterDemandState,
+  WaterQualityReport,
+  WaterSourceLogEntry,
+  WaterSystemDependencies,
+  WaterSystemObservables,
+  WaterSystemState,
+  WaterSystemTopology,
+  WeatherCondition,
+  WeatherState,
+} from '@/types/waterSystem';
+import { aggregateEnsemble, ensembleSeeds } from '@/utils/ensemble';
+import { handleError, retryStrategy } from '@/utils/errorHandler';
+import { withFacilityOutages } from '@/utils/operatingPolicy';
+import {
+  NO_SCENARIO_MODIFIERS,
+  scenarioConfig,
+  scenarioModifiers,
+  validateScenario,
+} from '@/utils/scenario';
+import { createSeededRandom } from '@/utils/seededRandom';
+import { createSimulationClock } from '@/utils/simulationClock';
+
+import {
+  useAlertSystem,
+  useDroughtManagement,
+  useFloodPrediction,
+  useGlacierMelt,
+  useRawWaterQuality,
+  useReplayDataSource,
+  useSimulation,
+  useUserWaterManagement,
+  useWaterLedger,
+  useWaterQualityControl,
+  useWaterSourceLogging,
+  useWeatherSimulation,
+} from './';
+import {
+  createReservoirState,
+  gateRelease,
+  riverRelease,
+  totalOutflow,
+  volumeFromLevel,
+} from './useDamManagement';
+import { createDroughtState, droughtStageDays } from './useDroughtManagement';
+import { createFloodForecast } from './useFloodPrediction';
+import { useForecast } from './useForecast';
+import { createGlacierState } from './useGlacierMelt';
+import { createIrrigationState } from './useIrrigation';
+import { createWaterDemandState } from './useUserWaterManagement';
+import { createWastewaterPlantState } from './useWastewaterTreatment';
+import { createWaterAllocationState, supplyRatio } from './useWaterAllocation';
+import { createDistributionNetworkState } from './useWaterDistribution';
+import { type ReservoirNetworkNode, boundaryNodeIds, useWaterNetwork } from './useWaterNetwork';
+import { createPurificationPlantState } from './useWaterPurification';
+import { assessWaterQuality, createRawWaterQuality } from './useWaterQualityControl';
+import { createWeatherState } from './useWeatherSimulation';
+
+const DAY_DURATION = 24 * 60 * 60 * 1000;
+
+// Définition de types plus stricts
+type WaterLevel = number & { __brand: 'WaterLevel' };
+type WaterQuality = number & { __brand: 'WaterQuality' };
+type FloodRisk = number & { __brand: 'FloodRisk' };
+type GlacierVolume = number & { __brand: 'GlacierVolume' };
+
+// Utilitaire de type pour créer des types nominaux
+type Nominal<T, Brand extends string> = T & { __brand: Brand };
+
+// Utilisation des types nominaux
+type WaterSystemMetrics = {
+  waterLevel: Nominal<number, 'WaterLevel'>;
+  waterQuality: Nominal<number, 'WaterQuality'>;
+  floodRisk: Nominal<number, 'FloodRisk'>;
+  glacierVolume: Nominal<number, 'GlacierVolume'>;
+};
+
+// Enum pour les statuts du système
+enum SystemStatus {
+  Normal = 'Normal',
+  Concerning = 'Préoccupant',
+  Critical = 'Critique',
+}
+
+// Type pour l'état du système
+export type SystemState = {
+  overallStatus: SystemStatus;
+  criticalSituation: boolean;
+  glacierStatus: 'Normal' | 'Critique';
+  currentWeather: WeatherCondition;
+  waterLevel: number;
+  waterQuality: number;
+};
+
+// Fonction pure pour calculer le statut global du système
+export function calculateOverallSystemStatus(
+  waterLevel: number,
+  waterQuality: number,
+  config: WaterSystemConfig,
+): string {
+  if (waterLevel < config.CRITICAL_WATER_LEVEL || waterQuality < config.CRITICAL_WATER_QUALITY) {
+    return 'Critique';
+  }
+  if (waterLevel <= config.LOW_WATER_LEVEL || waterQuality < config.MEDIUM_WATER_QUALITY) {
+    return 'Préoccupant';
+  }
+  return 'Normal';
+}
+
+// Fonctions pures
+
+export function calculateDamVolume(
+  waterLevel: number,
+  stageStorageCurve: readonly StageStoragePoint[],
+): number {
+  return volumeFromLevel(stageStorageCurve, waterLevel);
+}
+
+export function isCriticalSituation(
+  waterLevel: number,
+  waterQuality: number,
+  criticalWaterLevel: number,
+  criticalWaterQuality: number,
+): boolean {
+  return waterLevel < criticalWaterLevel || waterQuality < criticalWaterQuality;
+}
+
+export function determineGlacierStatus(
+  glacierVolume: number,
+  criticalVolume: number,
+): 'Normal' | 'Critique' {
+  return glacierVolume < criticalVolume ? 'Critique' : 'Normal';
+}
+
+export function calculateSystemEfficiency(
+  purifiedWater: number,
+  totalProcessedWater: number,
+): number {
+  return totalProcessedWater === 0 ? 0 : (purifiedWater / totalProcessedWater) * 100;
+}
+
+export function canSetWaterLevel(isManualMode: boolean): boolean {
+  return isManualMode;
+}
+
+/**
+ * Crée l'état initial du système d'eau à partir de la configuration.
+ *
+ * @param config - La configuration du système d'eau
+ * @returns L'état initial du système
+ */
+export function createInitialWaterSystemState(
+  config: Readonly<WaterSystemConfig>,
+): WaterSystemState {
+  const initialWeather = createWeatherState('ensoleillé', config.SIMULATION_START_TIME, config);
+  return {
+    waterLevel: config.INITIAL_DAM_WATER_LEVEL,
+    isAutoMode: true,
+    purifiedWater: config.INITIAL_PURIFIED_WATER,
+    powerGenerated: config.INITIAL_POWER_GENERATED,
+    powerOutput: config.INITIAL_POWER_OUTPUT,
+    electricityDemand: 0,
+    unmetDemand: 0,
+    unmetEnergy: 0,
+    spilledEnergy: 0,
+    waterDistributed: config.INITIAL_WATER_DISTRIBUTED,
+    ...distributionStateFields(createDistributionNetworkState(config)),
+    ...weatherStateFields(initialWeather),
+    alerts: [],
+    irrigationWater: config.INITIAL_IRRIGATION_WATER,
+    ...irrigationStateFields(createIrrigationState(config.SIMULATION_START_TIME, config)),
+    ...allocationStateFields(createWaterAllocationState(config)),
+    treatedWastewater: config.INITIAL_TREATED_WASTEWATER,
+    ...wastewaterStateFields(createWastewaterPlantState(config)),
+    ...purificationStateFields(createPurificationPlantState(config)),
+    ...waterQualityStateFields(
+      assessWaterQuality(
+        createRawWaterQuality(initialWeather, config),
+        createPurificationPlantState(config),
+        config,
+      ),
+    ),
+    ...floodStateFields(createFloodForecast(0, initialWeather.precipitation, config)),
+    userConsumption: config.INITIAL_USER_CONSUMPTION,
+    ...demandStateFields(createWaterDemandState(config.SIMULATION_START_TIME, config)),
+    ...droughtStateFields(createDroughtState(config.SIMULATION_START_TIME, config)),
+    ...glacierStateFields(
+      createGlacierState(
+        config.INITIAL_GLACIER_VOLUME,
+        config,
+        initialWeather.temperature -
+          config.GLACIER_LAPSE_RATE * config.GLACIER_ELEVATION_ABOVE_STATION,
+      ),
+    ),
+    ...reservoirStateFields(
+      createReservoirState(
+        volumeFromLevel(config.DAM_STAGE_STORAGE_CURVE, config.INITIAL_DAM_WATER_LEVEL),
+        config,
+      ),
+    ),
+    unaccountedWater: 0,
+  };
+}
+
+/**
+ * Extrait de l'état de la retenue les champs exposés dans l'état du système.
+ */
+function reservoirStateFields(
+  reservoir: ReservoirState,
+): Pick<
+  WaterSystemState,
+  | 'damWaterVolume'
+  | 'damElevation'
+  | 'damInflow'
+  | 'damOutflow'
+  | 'damGates'
+  | 'damZone'
+  | 'downstreamRelease'
+> {
+  return {
+    damWaterVolume: reservoir.volume,
+    damElevation: reservoir.elevation,
+    damInflow: reservoir.inflow,
+    damOutflow: totalOutflow(reservoir.outflows),
+    damGates: reservoir.gates,
+    damZone: reservoir.zone,
+    downstreamRelease: gateRelease(reservoir.outflows),
+  };
+}
+
+/**
+ * Extrait de la prévision des crues les champs exposés dans l'état du système.
+ */
+function floodStateFields(
+  forecast: FloodForecast,
+): Pick<WaterSystemState, 'floodRisk' | 'floodCheckpoints'> {
+  return { floodRisk: forecast.risk, floodCheckpoints: forecast.checkpoints };
+}
+
+/**
+ * Extrait du bilan de qualité de l'eau les champs exposés dans l'état du système.
+ */
+function waterQualityStateFields(
+  report: WaterQualityReport,
+): Pick<WaterSystemState, 'waterQuality' | 'waterQualitySamples' | 'waterQualityViolations'> {
+  return {
+    waterQuality: report.score,
+    waterQualitySamples: report.samples,
+    waterQualityViolations: report.violations,
+  };
+}
+
+/**
+ * Extrait de l'état de la station de purification les champs exposés dans l'état du système.
+ */
+function purificationStateFields(
+  plant: PurificationPlantState,
+): Pick<
+  WaterSystemState,
+  'purificationThroughput' | 'purificationCapacity' | 'purificationStages'
+> {
+  return {
+    purificationThroughput: plant.throughput,
+    purificationCapacity: plant.capacity,
+    purificationStages: plant.stages,
+  };
+}
+
+/**
+ * Extrait de l'état du réseau de distribution les champs exposés dans l'état du système.
+ */
+function distributionStateFields(
+  network: DistributionNetworkState,
+): Pick<WaterSystemState, 'distributionDistricts' | 'distributionShortfall' | 'nonRevenueWater'> {
+  return {
+    distributionDistricts: network.districts,
+    distributionShortfall: network.shortfall,
+    nonRevenueWater: network.nonRevenueWater,
+  };
+}
+
+/**
+ * Extrait de la demande des usagers les champs exposés dans l'état du système.
+ */
+function demandStateFields(
+  demand: WaterDemandState,
+): Pick<WaterSystemState, 'waterDemand' | 'waterDemandSegments'> {
+  return { waterDemand: demand.total, waterDemandSegments: demand.segments };
+}
+
+/**
+ * Extrait de l'état des parcelles irriguées les champs exposés dans l'état du système.
+ */
+function irrigationStateFields(
+  farm: IrrigationState,
+): Pick<WaterSystemState, 'irrigationDemand' | 'irrigationFields' | 'referenceEvapotranspiration'> {
+  return {
+    irrigationDemand: farm.demand,
+    irrigationFields: farm.fields,
+    referenceEvapotranspiration: farm.referenceEvapotranspiration,
+  };
+}
+
+/**
+ * Extrait de la répartition de l'eau entre les usages les champs exposés dans l'état du système.
+ */
+function allocationStateFields(
+  allocation: WaterAllocationState,
+): Pick<WaterSystemState, 'waterSupply' | 'waterAllocations' | 'allocationDeficit'> {
+  return {
+    waterSupply: allocation.supply,
+    waterAllocations: allocation.uses,
+    allocationDeficit: allocation.deficit,
+  };
+}
+
+/**
+ * Extrait de l'état du plan de gestion de la sécheresse les champs exposés dans l'état du système.
+ */
+function droughtStateFields(
+  drought: DroughtState,
+): Pick<WaterSystemState, 'droughtStage' | 'droughtSeverity' | 'daysOfStorage' | 'droughtHistory'> {
+  return {
+    droughtStage: drought.stage,
+    droughtSeverity: drought.severity,
+    daysOfStorage: drought.daysOfStorage,
+    droughtHistory: drought.history,
+  };
+}
+
+/**
+ * Extrait de l'état de la station d'épuration les champs exposés dans l'état du système.
+ */
+function wastewaterStateFields(
+  plant: WastewaterPlantState,
+): Pick<
+  WaterSystemState,
+  | 'wastewaterInflow'
+  | 'wastewaterCapacity'
+  | 'sewerOverflow'
+  | 'reusedWater'
+  | 'effluentQuality'
+  | 'effluentCompliant'
+> {
+  return {
+    wastewaterInflow: plant.inflow,
+    wastewaterCapacity: plant.capacity,
+    sewerOverflow: plant.overflow,
+    reusedWater: plant.reused,
+    effluentQuality: plant.effluentQuality,
+    effluentCompliant: plant.compliant,
+  };
+}
+
+/**
+ * Extrait de l'état du glacier les champs exposés dans l'état du système.
+ */
+function glacierStateFields(
+  glacier: GlacierState,
+): Pick<
+  WaterSystemState,
+  'glacierVolume' | 'glacierArea' | 'snowpack' | 'glacierTemperature' | 'meltRate' | 'waterFlow'
+> {
+  return {
+    glacierVolume: glacier.volume,
+    glacierArea: glacier.area,
+    snowpack: glacier.snowpack,
+    glacierTemperature: glacier.temperature,
+    meltRate: glacier.meltRate,
+    waterFlow: glacier.waterFlow,
+  };
+}
+
+/**
+ * Extrait d'une observation météorologique les champs exposés dans l'état du système.
+ */
+function weatherStateFields(
+  weather: WeatherState,
+): Pick<
+  WaterSystemState,
+  'weatherCondition' | 'precipitation' | 'temperature' | 'humidity' | 'windSpeed'
+> {
+  return {
+    weatherCondition: weather.condition,
+    precipitation: weather.precipitation,
+    temperature: weather.temperature,
+    humidity: weather.humidity,
+    windSpeed: weather.windSpeed,
+  };
+}
+
+/**
+ * Crée les dépendances de simulation : une horloge simulée et un générateur aléatoire initialisé.
+ *
+ * @param seed - La graine du générateur aléatoire
+ * @param config - La configuration du système d'eau
+ * @returns Les dépendances à injecter dans le moteur
+ *
+ * @description
+ * Toutes les sources de temps et d'aléa du système passent par ces dépendances :
+ * deux simulations créées avec la même graine produisent exactement le même état.
+ */
+export function createWaterSystemDependencies(
+  seed: number = waterSystemConfig.SIMULATION_SEED,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterSystemDependencies {
+  const clock = createSimulationClock(
+    config.SIMULATION_START_TIME,
+    config.SIMULATION_TICK_DURATION,
+    {
+      maxTickDuration: config.SIMULATION_MAX_TICK_DURATION,
+      minFrameInterval: config.SIMULATION_MIN_FRAME_INTERVAL,
+    },
+  );
+  return {
+    clock,
+    getCurrentTime: clock.now,
+    getRandomNumber: createSeededRandom(seed),
+  };
+}
+
+/**
+ * Moteur de simulation du système d'eau.
+ *
+ * @description
+ * Le moteur construit le graphe RxJS de tous les sous-systèmes (glacier, barrage, purification,
+ * centrale, etc.) à partir de ses sources de données et d'une topologie déclarative (voir
+ * useWaterNetwork), et maintient l'état global du système. Les quantités de l'état (eau purifiée,
+ * énergie, irrigation, distribution) sont cumulées sur tous les ouvrages de la topologie.
+ * Il ne dépend d'aucun composant Vue : le temps avance soit en temps réel (`start` / `stop`),
+ * soit de manière synchrone tick par tick (`step`), ce qui permet de lancer des simulations
+ * en lot depuis un script ou un test.
+ *
+ * @example
+ * const engine = new WaterSystemEngine(createWaterSystemDependencies(1234));
+ * const state = engine.step(3600);
+ * engine.dispose();
+ */
+export class WaterSystemEngine {
+  readonly deps: WaterSystemDependencies;
+  readonly config: Readonly<WaterSystemConfig>;
+
+  /**
+   * État principal du système d'eau, mis à jour à chaque tick de simulation.
+   */
+  readonly state: WaterSystemState;
+
+  /**
+   * Sources de données pour injecter des valeurs simulées ou réelles dans les sous-systèmes.
+   */
+  readonly dataSources: DataSources;
+
+  readonly observables: WaterSystemObservables;
+  readonly systemState$: Observable<SystemState>;
+  /**
+   * Prévision à court terme du niveau de la retenue principale, de ses apports et du risque de
+   * crue, calculée tant qu'elle est observée et à chaque évaluation du plan de sécheresse (voir
+   * useForecast).
+   */
+  readonly forecast$: Observable<SystemForecast>;
+  readonly sideEffects$: Observable<void>;
+  readonly alerts: ComputedRef<Alert[]>;
+  readonly waterSourceLogs: Ref<WaterSourceLogEntry[]>;
+  readonly waterSourceLog$: Observable<WaterSourceLogEntry>;
+
+  /**
+   * Bilans hydriques émis à chaque tick : entrées, sorties, variation de stock et pertes non comptabilisées.
+   */
+  readonly waterBalance$: Observable<WaterBalanceReport>;
+
+  /**
+   * Réseau construit à partir de la topologie : pipelines par retenue et agrégats par type d'ouvrage.
+   * La première retenue de la topologie alimente le niveau affiché et peut être pilotée manuellement.
+   */
+  readonly network: ReturnType<typeof useWaterNetwork>;
+
+  private readonly destroy$ = new Subject<void>();
+  private readonly stateSubject: BehaviorSubject<WaterSystemState>;
+  private readonly simulation: ReturnType<typeof useSimulation>;
+  private readonly weatherSimulation$: Observable<WeatherState>;
+  private readonly generatedWeather$: Observable<WeatherState>;
+  private readonly weatherInput: BehaviorSubject<Observable<WeatherState>>;
+  private replay: ReturnType<typeof useReplayDataSource> | null = null;
+  private readonly scenarioModifiers = new BehaviorSubject<ScenarioModifiers>(
+    NO_SCENARIO_MODIFIERS,
+  );
+  private scenario: { events: Scenario['events']; start: number } | null = null;
+  /**
+   * Dernier état du plan de gestion de la sécheresse : ses restrictions s'appliquent à la demande
+   * des usagers et à l'irrigation.
+   */
+  private readonly droughtRestrictions: BehaviorSubject<DroughtState>;
+  /**
+   * Dernière répartition de l'eau entre les usages : la consommation industrielle est réduite à
+   * la part de sa demande attribuée à l'industrie.
+   */
+  private readonly allocationRestrictions: BehaviorSubject<WaterAllocationState>;
+  private readonly resetDrought: () => void;
+  private readonly addAlertFn: (message: string, priority: Alert['priority']) => void;
+  private readonly ledger: ReturnType<typeof useWaterLedger>;
+  private readonly networkSubscription: Subscription;
+  private lastWaterBalance: WaterBalanceReport | null = null;
+  private manualMode = false;
+  private disposed = false;
+
+  constructor(
+    deps: WaterSystemDependencies = createWaterSystemDependencies(),
+    config: Readonly<WaterSystemConfig> = waterSystemConfig,
+    topology: WaterSystemTopology = defaultWaterSystemTopology,
+  ) {
+    this.deps = deps;
+    this.config = config;
+    this.state = createInitialWaterSystemState(config);
+    this.stateSubject = new BehaviorSubject<WaterSystemState>({ ...this.state });
+
+    // Effets du scénario chargé, évalués au début de chaque tick avant tous les sous-systèmes
+    deps.clock.tick$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(({ time, dt }) => this.updateScenarioModifiers(time - dt));
+    const modifiers$ = this.scenarioModifiers.pipe(distinctUntilChanged(isEqual));
+    this.droughtRestrictions = new BehaviorSubject(
+      createDroughtState(deps.getCurrentTime(), config),
+    );
+    this.allocationRestrictions = new BehaviorSubject(createWaterAllocationState(config));
+
+    this.dataSources = {
+      waterSource$: new Subject<number>(),
+      weatherSource$: new Subject<WeatherCondition>(),
+      weatherDataSource$: new Subject<WeatherState>(),
+      userConsumptionSource$: new Subject<number | null>(),
+      glacierSource$: new Subject<number>(),
+    };
+
+    // La météo provient du générateur stochastique, ou d'une série rejouée (loadTimeSeries)
+    const { weatherSimulation$: generatedWeather$ } = useWeatherSimulation(deps, config);
+    this.generatedWeather$ = generatedWeather$;
+    this.weatherInput = new BehaviorSubject<Observable<WeatherState>>(generatedWeather$);
+    const weatherSimulation$ = combineLatest([
+      this.weatherInput.pipe(switchMap((weather$) => weather$)),
+      modifiers$,
+    ]).pipe(
+      map(([weather, { weather: imposed }]) => (imposed ? { ...weather, ...imposed } : weather)),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+    this.weatherSimulation$ = weatherSimulation$;
+
+    const { glacierMelt$ } = useGlacierMelt(
+      this.dataSources.weatherDataSource$,
+      this.dataSources.glacierSource$,
+      deps,
+      config,
+    );
+
+    this.ledger = useWaterLedger(deps, boundaryNodeIds(topology));
+    this.waterBalance$ = this.ledger.balance$;
+
+    const { rawWaterQuality$ } = useRawWaterQuality(
+      this.dataSources.weatherDataSource$,
+      deps,
+      config,
+    );
+
+    const { waterDemand$, userWaterManagement$ } = useUserWaterManagement(
+      this.dataSources.weatherDataSource$,
+      this.dataSources.userConsumptionSource$,
+      // La demande agricole est celle des exploitations du réseau, construit plus bas
+      defer(() => this.network.irrigationDemand$),
+      combineLatest([modifiers$, this.droughtRestrictions, this.allocationRestrictions]).pipe(
+        map(([{ consumptionFactor }, { demandFactors }, allocation]) => {
+          const factors = Object.fromEntries(
+            Object.entries(demandFactors).map(([segment, factor]) => [
+              segment,
+              factor * consumptionFactor,
+            ]),
+          ) as Record<DrinkingWaterSegment, number>;
+          factors.industrial *= supplyRatio(allocation, 'industry');
+          return factors;
+        }),
+        distinctUntilChanged(isEqual),
+      ),
+      deps,
+      config,
+    );
+
+    this.network = useWaterNetwork(
+      topology,
+      {
+        waterSource$: combineLatest([this.dataSources.waterSource$, modifiers$]).pipe(
+          map(([inflow, { inflowFactor }]) => inflow * inflowFactor),
+        ),
+        weather$: this.dataSources.weatherDataSource$,
+        glacierMelt$,
+        rawWaterQuality$,
+        waterDemand$,
+        irrigationLimit$: this.droughtRestrictions.pipe(
+          map(({ irrigationFactor }) => irrigationFactor),
+          distinctUntilChanged(),
+        ),
+      },
+      this.ledger,
+      deps,
+      config,
+    );
+    // Les ouvrages mis hors service par un scénario ne reçoivent plus de lâchers
+    for (const reservoir of this.network.reservoirs.values()) {
+      reservoir.setOperatingPolicy(this.withOutages(reservoir.getOperatingPolicy()));
+    }
+    const { reservoir$, dam$ } = this.network.primary;
+    const {
+      purificationPlant$,
+      powerPlant$,
+      powerOutput$,
+      powerDispatch$,
+      irrigation$,
+      waterDistribution$,
+      wastewaterTreatment$,
+    } = this.network;
+    // La qualité de l'eau potable suit la station de la retenue principale
+    const primaryPurification = this.network.topology.links.find(
+      ({ from, to }) => from === this.network.primary.id && this.network.purificationPlants.has(to),
+    );
+    const purification$ =
+      (primaryPurification && this.network.purificationPlants.get(primaryPurification.to)) ??
+      of(createPurificationPlantState(config));
+    const [wastewater$ = of(createWastewaterPlantState(config))] =
+      this.network.wastewaterPlants.values();
+    const [distribution$ = of(createDistributionNetworkState(config))] =
+      this.network.distributionNetworks.values();
+    const [farm$ = of(createIrrigationState(deps.getCurrentTime(), config))] =
+      this.network.farms.values();
+
+    const { waterQualityControl$ } = useWaterQualityControl(
+      rawWaterQuality$,
+      purification$,
+      config,
+    );
+    // Le plan de sécheresse lit la prévision, construite plus bas à partir des observables partagés
+    const { drought$, reset: resetDrought } = useDroughtManagement(
+      reservoir$,
+      defer(() => this.forecast$),
+      deps,
+      config,
+    );
+    this.resetDrought = resetDrought;
+    const { floodForecast$ } = useFloodPrediction(
+      reservoir$.pipe(map(({ outflows }) => riverRelease(outflows))),
+      this.dataSources.weatherDataSource$,
+      deps,
+      config,
+    );
+    this.simulation = useSimulation(this.dataSources, weatherSimulation$, deps, config);
+
+    const { logs, log$, logWaterSource } = useWaterSourceLogging(deps);
+    this.waterSourceLogs = logs;
+    this.waterSourceLog$ = log$;
+    const logDam = logWaterSource('Dam');
+    const logGlacier = logWaterSource('Glacier');
+
+    /**
+     * Observables partagés pour les différents aspects du système d'eau.
+     * L'utilisation de shareReplay(1) permet d'éviter les calculs redondants lorsque
+     * plusieurs abonnés écoutent le même Observable. Aucun opérateur temporel (throttle,
+     * debounce) n'est utilisé : seul le tick de l'horloge de simulation fait avancer le temps.
+     * Le niveau du barrage est publié tel que calculé par le bilan de masse, sans bruit ajouté,
+     * pour rester cohérent avec les volumes envoyés en aval.
+     */
+    const sharedObservables = {
+      reservoir$,
+      dam$: dam$.pipe(
+        distinctUntilChanged(),
+        tap((level) => {
+          if (config.enableWaterSystemLogs) {
+            logDam(
+              level,
+              this.state.weatherCondition,
+              this.state.waterFlow,
+              this.state.waterQuality,
+            );
+          }
+        }),
+        retryWhen((errors) =>
+          errors.pipe(
+            mergeMap((error, index) => this.handleErrorWithRetry(error, index + 1, 5, 'dam$')),
+          ),
+        ),
+        shareReplay(1),
+      ),
+      weather$: weatherSimulation$.pipe(
+        map(({ condition }) => condition),
+        distinctUntilChanged(),
+        shareReplay(1),
+      ),
+      weatherData$: weatherSimulation$.pipe(shareReplay(1)),
+      glacierMelt$: glacierMelt$.pipe(
+        distinctUntilChanged(
+          (prev, curr) =>
+            prev.volume === curr.volume &&
+            prev.snowpack === curr.snowpack &&
+            prev.temperature === curr.temperature &&
+            prev.meltRate === curr.meltRate &&
+            prev.waterFlow === curr.waterFlow,
+        ),
+        tap(({ volume, waterFlow, temperature }) => {
+          if (config.enableWaterSystemLogs) {
+            logGlacier(volume, this.state.weatherCondition, waterFlow, undefined, temperature);
+          }
+        }),
+        shareReplay(1),
+      ),
+      purificationPlant$: purificationPlant$.pipe(shareReplay(1)),
+      purification$: purification$.pipe(shareReplay(1)),
+      powerPlant$: powerPlant$.pipe(shareReplay(1)),
+      powerOutput$: powerOutput$.pipe(shareReplay(1)),
+      powerDispatch$: powerDispatch$.pipe(shareReplay(1)),
+      irrigation$: irrigation$.pipe(shareReplay(1)),
+      farm$: farm$.pipe(shareReplay(1)),
+      allocation$: this.network.allocation$.pipe(shareReplay(1)),
+      wastewaterTreatment$: wastewaterTreatment$.pipe(shareReplay(1)),
+      wastewater$: wastewater$.pipe(shareReplay(1)),
+      waterQualityControl$: waterQualityControl$.pipe(shareReplay(1)),
+      floodForecast$: floodForecast$.pipe(shareReplay(1)),
+      userWaterManagement$: userWaterManagement$.pipe(shareReplay(1)),
+      waterDemand$: waterDemand$.pipe(shareReplay(1)),
+      drought$: drought$.pipe(shareReplay(1)),
+      waterDistribution$: waterDistribution$.pipe(shareReplay(1)),
+      distribution$: distribution$.pipe(shareReplay(1)),
+    };
+
+    const { alerts, addAlert, alertSystem$, alertsObservable$ } = useAlertSystem(
+      sharedObservables,
+      deps,
+      config,
+    );
+    this.alerts = alerts;
+    this.addAlertFn = addAlert;
+
+    this.subscribeToSharedObservables(sharedObservables, (key, value) => {
+      switch (key) {
+        case 'reservoir$':
+          if (!this.manualMode) {
+            Object.assign(this.state, reservoirStateFields(value as ReservoirState));
+          }
+          break;
+        case 'dam$':
+          if (!this.manualMode) {
+            this.state.waterLevel = value as number;
+          }
+          break;
+        case 'weather$':
+          this.state.weatherCondition = value as WeatherCondition;
+          this.dataSources.weatherSource$.next(value as WeatherCondition);
+          break;
+        case 'weatherData$': {
+          Object.assign(this.state, weatherStateFields(value as WeatherState));
+          this.dataSources.weatherDataSource$.next(value as WeatherState);
+          break;
+        }
+        case 'glacierMelt$':
+          Object.assign(this.state, glacierStateFields(value as GlacierState));
+          break;
+        case 'purificationPlant$':
+          this.state.purifiedWater = value as number;
+          break;
+        case 'purification$':
+          Object.assign(this.state, purificationStateFields(value as PurificationPlantState));
+          break;
+        case 'powerPlant$':
+          this.state.powerGenerated = value as number;
+          break;
+        case 'powerOutput$':
+          this.state.powerOutput = value as number;
+          break;
+        case 'powerDispatch$': {
+          const { demand, unmet, unmetEnergy, spilledEnergy } = value as DispatchReport;
+          this.state.electricityDemand = demand;
+          this.state.unmetDemand = unmet;
+          this.state.unmetEnergy = unmetEnergy;
+          this.state.spilledEnergy = spilledEnergy;
+          break;
+        }
+        case 'irrigation$':
+          this.state.irrigationWater = value as number;
+          break;
+        case 'farm$':
+          Object.assign(this.state, irrigationStateFields(value as IrrigationState));
+          break;
+        case 'allocation$':
+          Object.assign(this.state, allocationStateFields(value as WaterAllocationState));
+          this.allocationRestrictions.next(value as WaterAllocationState);
+          break;
+        case 'wastewaterTreatment$':
+          this.state.treatedWastewater = value as number;
+          break;
+        case 'wastewater$':
+          Object.assign(this.state, wastewaterStateFields(value as WastewaterPlantState));
+          break;
+        case 'waterQualityControl$':
+          if (!this.manualMode) {
+            Object.assign(this.state, waterQualityStateFields(value as WaterQualityReport));
+          }
+          break;
+        case 'floodForecast$':
+          Object.assign(this.state, floodStateFields(value as FloodForecast));
+          break;
+        case 'userWaterManagement$':
+          this.state.userConsumption = value as number;
+          break;
+        case 'waterDemand$':
+          Object.assign(this.state, demandStateFields(value as WaterDemandState));
+          break;
+        case 'drought$':
+          Object.assign(this.state, droughtStateFields(value as DroughtState));
+          this.droughtRestrictions.next(value as DroughtState);
+          break;
+        case 'waterDistribution$':
+          this.state.waterDistributed = value as number;
+          break;
+        case 'distribution$':
+          Object.assign(this.state, distributionStateFields(value as DistributionNetworkState));
+          break;
+      }
+    });
+
+    alertSystem$.pipe(takeUntil(this.destroy$)).subscribe();
+
+    // Fonction mémoïsée pour calculer l'état global du système
+    const calculateSystemState = memoize(
+      (metrics: WaterSystemMetrics): SystemState => ({
+        overallStatus: calculateOverallSystemStatus(
+          metrics.waterLevel,
+          metrics.waterQuality,
+          config,
+        ) as SystemStatus,
+        criticalSituation: isCriticalSituation(
+          metrics.waterLevel,
+          metrics.waterQuality,
+          config.CRITICAL_WATER_LEVEL,
+          config.CRITICAL_WATER_QUALITY,
+        ),
+        glacierStatus: determineGlacierStatus(metrics.glacierVolume, 500000),
+        currentWeather: this.state.weatherCondition,
+        waterLevel: metrics.waterLevel,
+        waterQuality: metrics.waterQuality,
+      }),
+      (metrics) => JSON.stringify(metrics),
+    );
+
+    this.systemState$ = combineLatest({
+      dam: dam$.pipe(
+        distinctUntilChanged(),
+        retryWhen(retryStrategy()),
+        catchError((error) => handleError(error, 'Optimized Dam Observable')),
+      ),
+      weather: sharedObservables.weather$.pipe(
+        retryWhen(retryStrategy()),
+        catchError((error) => handleError(error, 'Optimized Weather Observable')),
+      ),
+      glacierMelt: glacierMelt$,
+      waterQuality: waterQualityControl$.pipe(map(({ score }) => score)),
+      floodRisk: sharedObservables.floodForecast$.pipe(map(({ risk }) => risk)),
+    }).pipe(
+      map(({ dam, glacierMelt, waterQuality, floodRisk }) =>
+        calculateSystemState({
+          waterLevel: dam as WaterLevel,
+          waterQuality: waterQuality as WaterQuality,
+          floodRisk: floodRisk as FloodRisk,
+          glacierVolume: glacierMelt.volume as GlacierVolume,
+        }),
+      ),
+      distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr)),
+      catchError((error) => handleError(error, 'System State Observable')),
+      shareReplay(1),
+    );
+
+    this.forecast$ = useForecast(
+      sharedObservables.reservoir$,
+      sharedObservables.weatherData$,
+      sharedObservables.floodForecast$,
+      () => this.network.primary.getOperatingPolicy(),
+      deps,
+      config,
+    ).forecast$;
+
+    this.sideEffects$ = this.systemState$.pipe(
+      tap((systemState) => {
+        if (
+          systemState.waterLevel < config.CRITICAL_WATER_LEVEL ||
+          systemState.waterQuality < config.CRITICAL_WATER_QUALITY
+        ) {
+          addAlert('Situation critique détectée !', 'high');
+        }
+        if (systemState.glacierStatus === 'Critique') {
+          addAlert('Volume du glacier critique !', 'medium');
+        }
+      }),
+      catchError((error) => {
+        handleError(error, 'Side Effects');
+        addAlert('Erreur système. Vérifiez les logs.', 'high');
+        return EMPTY;
+      }),
+      map(() => undefined),
+    );
+    this.sideEffects$.pipe(takeUntil(this.destroy$)).subscribe();
+
+    this.observables = {
+      waterLevel: sharedObservables.dam$,
+      purifiedWater: sharedObservables.purificationPlant$,
+      purificationThroughput: sharedObservables.purification$.pipe(
+        map(({ throughput }) => throughput),
+      ),
+      purificationCapacity: sharedObservables.purification$.pipe(map(({ capacity }) => capacity)),
+      purificationStages: sharedObservables.purification$.pipe(map(({ stages }) => stages)),
+      powerGenerated: sharedObservables.powerPlant$,
+      powerOutput: sharedObservables.powerOutput$,
+      electricityDemand: sharedObservables.powerDispatch$.pipe(map(({ demand }) => demand)),
+      unmetDemand: sharedObservables.powerDispatch$.pipe(map(({ unmet }) => unmet)),
+      unmetEnergy: sharedObservables.powerDispatch$.pipe(map(({ unmetEnergy }) => unmetEnergy)),
+      spilledEnergy: sharedObservables.powerDispatch$.pipe(
+        map(({ spilledEnergy }) => spilledEnergy),
+      ),
+      waterDistributed: sharedObservables.waterDistribution$,
+      distributionDistricts: sharedObservables.distribution$.pipe(
+        map(({ districts }) => districts),
+      ),
+      distributionShortfall: sharedObservables.distribution$.pipe(
+        map(({ shortfall }) => shortfall),
+      ),
+      nonRevenueWater: sharedObservables.distribution$.pipe(
+        map(({ nonRevenueWater }) => nonRevenueWater),
+      ),
+      weatherCondition: sharedObservables.weather$,
+      precipitation: sharedObservables.weatherData$.pipe(map(({ precipitation }) => precipitation)),
+      temperature: sharedObservables.weatherData$.pipe(map(({ temperature }) => temperature)),
+      humidity: sharedObservables.weatherData$.pipe(map(({ humidity }) => humidity)),
+      windSpeed: sharedObservables.weatherData$.pipe(map(({ windSpeed }) => windSpeed)),
+      alerts: alertsObservable$,
+      irrigationWater: sharedObservables.irrigation$,
+      irrigationDemand: sharedObservables.farm$.pipe(map(({ demand }) => demand)),
+      irrigationFields: sharedObservables.farm$.pipe(map(({ fields }) => fields)),
+      referenceEvapotranspiration: sharedObservables.farm$.pipe(
+        map(({ referenceEvapotranspiration }) => referenceEvapotranspiration),
+      ),
+      waterSupply: sharedObservables.allocation$.pipe(map(({ supply }) => supply)),
+      waterAllocations: sharedObservables.allocation$.pipe(map(({ uses }) => uses)),
+      allocationDeficit: sharedObservables.allocation$.pipe(map(({ deficit }) => deficit)),
+      treatedWastewater: sharedObservables.wastewaterTreatment$,
+      wastewaterInflow: sharedObservables.wastewater$.pipe(map(({ inflow }) => inflow)),
+      wastewaterCapacity: sharedObservables.wastewater$.pipe(map(({ capacity }) => capacity)),
+      sewerOverflow: sharedObservables.wastewater$.pipe(map(({ overflow }) => overflow)),
+      reusedWater: sharedObservables.wastewater$.pipe(map(({ reused }) => reused)),
+      effluentQuality: sharedObservables.wastewater$.pipe(
+        map(({ effluentQuality }) => effluentQuality),
+      ),
+      effluentCompliant: sharedObservables.wastewater$.pipe(map(({ compliant }) => compliant)),
+      waterQuality: sharedObservables.waterQualityControl$.pipe(map(({ score }) => score)),
+      waterQualitySamples: sharedObservables.waterQualityControl$.pipe(
+        map(({ samples }) => samples),
+      ),
+      waterQualityViolations: sharedObservables.waterQualityControl$.pipe(
+        map(({ violations }) => violations),
+      ),
+      floodRisk: sharedObservables.floodForecast$.pipe(map(({ risk }) => risk)),
+      floodCheckpoints: sharedObservables.floodForecast$.pipe(
+        map(({ checkpoints }) => checkpoints),
+      ),
+      userConsumption: sharedObservables.userWaterManagement$,
+      waterDemand: sharedObservables.waterDemand$.pipe(map(({ total }) => total)),
+      waterDemandSegments: sharedObservables.waterDemand$.pipe(map(({ segments }) => segments)),
+      droughtStage: sharedObservables.drought$.pipe(map(({ stage }) => stage)),
+      droughtSeverity: sharedObservables.drought$.pipe(map(({ severity }) => severity)),
+      daysOfStorage: sharedObservables.drought$.pipe(map(({ daysOfStorage }) => daysOfStorage)),
+      droughtHistory: sharedObservables.drought$.pipe(map(({ history }) => history)),
+      glacierVolume: sharedObservables.glacierMelt$.pipe(map(({ volume }) => volume)),
+      glacierArea: sharedObservables.glacierMelt$.pipe(map(({ area }) => area)),
+      snowpack: sharedObservables.glacierMelt$.pipe(map(({ snowpack }) => snowpack)),
+      glacierTemperature: sharedObservables.glacierMelt$.pipe(
+        map(({ temperature }) => temperature),
+      ),
+      meltRate: sharedObservables.glacierMelt$.pipe(map(({ meltRate }) => meltRate)),
+      waterFlow: sharedObservables.glacierMelt$.pipe(map(({ waterFlow }) => waterFlow)),
+      isAutoMode: this.stateSubject.pipe(
+        map(({ isAutoMode }) => isAutoMode),
+        distinctUntilChanged(),
+      ),
+      damWaterVolume: reservoir$.pipe(map(({ volume }) => volume)),
+      damElevation: reservoir$.pipe(map(({ elevation }) => elevation)),
+      damInflow: reservoir$.pipe(map(({ inflow }) => inflow)),
+      damOutflow: reservoir$.pipe(map(({ outflows }) => totalOutflow(outflows))),
+      damGates: reservoir$.pipe(map(({ gates }) => gates)),
+      damZone: reservoir$.pipe(map(({ zone }) => zone)),
+      downstreamRelease: reservoir$.pipe(map(({ outflows }) => gateRelease(outflows))),
+      unaccountedWater: this.stateSubject.pipe(
+        map(({ unaccountedWater }) => unaccountedWater),
+        distinctUntilChanged(),
+      ),
+    };
+
+    // Publier un instantané de l'état une fois que tous les sous-systèmes ont traité le tick
+    deps.clock.tick$.pipe(takeUntil(this.destroy$)).subscribe((tick) => {
+      this.closeWaterBalance(tick);
+      this.publishState();
+    });
+
+    this.networkSubscription = this.network.connect();
+    this.seedDataSources();
+    this.startInputs();
+  }
+
+  /**
+   * Observable des instantanés de l'état du système, émis après chaque tick de simulation.
+   */
+  get state$(): Observable<WaterSystemState> {
+    return this.stateSubject.asObservable();
+  }
+
+  get isManualMode(): boolean {
+    return this.manualMode;
+  }
+
+  /**
+   * Indique si les entrées proviennent d'une série chronologique rejouée.
+   */
+  get isReplaying(): boolean {
+    return this.replay !== null;
+  }
+
+  get isRunning(): boolean {
+    return this.deps.clock.isRunning();
+  }
+
+  /**
+   * Démarre l'avancement du temps simulé en temps réel.
+   */
+  start(): void {
+    this.assertNotDisposed();
+    this.deps.clock.start();
+  }
+
+  /**
+   * Arrête l'avancement du temps simulé en temps réel. L'état est conservé.
+   */
+  stop(): void {
+    this.deps.clock.stop();
+  }
+
+  /**
+   * Avance la simulation de manière synchrone.
+   *
+   * @param ticks - Le nombre de ticks de simulation à exécuter
+   * @returns Un instantané de l'état après le dernier tick
+   */
+  step(ticks = 1): WaterSystemState {
+    this.assertNotDisposed();
+    this.deps.clock.advance(ticks);
+    return this.getSnapshot();
+  }
+
+  /**
+   * Définit le facteur d'accélération du temps simulé en temps réel.
+   *
+   * @param scale - Millisecondes simulées par milliseconde réelle (0 met la simulation en pause)
+   */
+  setTimeScale(scale: number): void {
+    this.deps.clock.setTimeScale(scale);
+  }
+
+  get timeScale(): number {
+    return this.deps.clock.getTimeScale();
+  }
+
+  /**
+   * Exécute une durée simulée le plus vite possible, de manière synchrone.
+   *
+   * @param duration - La durée simulée à parcourir (en millisecondes)
+   * @returns Un instantané de l'état à la fin de la période
+   *
+   * @description
+   * Le temps avance par ticks d'au plus SIMULATION_MAX_TICK_DURATION : chaque sous-système
+   * intègre ses débits sur la durée du tick, ce qui permet de simuler une saison en quelques instants.
+   */
+  fastForward(duration: number): WaterSystemState {
+    this.assertNotDisposed();
+    this.deps.clock.advanceBy(duration);
+    return this.getSnapshot();
+  }
+
+  /**
+   * Exécute un nombre de jours simulés le plus vite possible.
+   *
+   * @param days - Le nombre de jours simulés
+   * @returns Un instantané de l'état à la fin de la période
+   */
+  runDays(days: number): WaterSystemState {
+    return this.fastForward(days * DAY_DURATION);
+  }
+
+  /**
+   * Retourne une copie de l'état courant du système.
+   */
+  getSnapshot(): WaterSystemState {
+    return { ...this.state, alerts: [...this.state.alerts] };
+  }
+
+  /**
+   * Retourne le bilan hydrique du dernier tick, ou null si aucun tick n'a encore été simulé.
+   */
+  getWaterBalance(): WaterBalanceReport | null {
+    return this.lastWaterBalance;
+  }
+
+  /**
+   * Arrête définitivement le moteur et libère toutes les souscriptions.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.stop();
+    this.stopInputs();
+    this.weatherInput.complete();
+    this.scenarioModifiers.complete();
+    this.networkSubscription.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+    for (const source of Object.values(this.dataSources)) {
+      source.complete();
+    }
+    this.stateSubject.complete();
+    this.disposed = true;
+  }
+
+  /**
+   * Réinitialise l'ensemble du système d'eau à son état initial.
+   *
+   * @description
+   * Les souscriptions restent en place : seuls l'état et les sources de données sont
+   * réinitialisés, puis la génération des entrées simulées est relancée, ou le rejeu repris
+   * depuis le début de la série.
+   */
+  reset(): void {
+    this.assertNotDisposed();
+    this.stopInputs();
+    this.manualMode = false;
+    Object.assign(this.state, createInitialWaterSystemState(this.config));
+    this.ledger.reset();
+    this.lastWaterBalance = null;
+    this.network.reset();
+    this.resetDrought();
+    if (this.scenario) {
+      this.scenario.start = this.deps.getCurrentTime();
+      this.updateScenarioModifiers(this.scenario.start);
+    }
+    this.seedDataSources();
+    this.replay?.rewindReplay();
+    this.startInputs();
+    this.publishState();
+  }
+
+  /**
+   * Remplace le générateur aléatoire par le rejeu d'une série chronologique enregistrée.
+   *
+   * @param series - La série (débit, pluie, température, consommation), rejouée depuis son
+   * premier échantillon à partir de l'instant simulé courant
+   *
+   * @description
+   * Les grandeurs absentes de la série gardent leur dernière valeur ; sans pluie ni
+   * température dans la série, la météo reste celle du générateur stochastique.
+   */
+  loadTimeSeries(series: TimeSeries): void {
+    this.assertNotDisposed();
+    this.stopInputs();
+    this.replay = useReplayDataSource(series, this.dataSources, this.deps, this.config);
+    if (!this.manualMode) this.startInputs();
+    this.weatherInput.next(this.replay.weather$ ?? this.generatedWeather$);
+  }
+
+  /**
+   * Arrête le rejeu et revient au générateur aléatoire d'entrées.
+   */
+  clearTimeSeries(): void {
+    this.assertNotDisposed();
+    this.stopInputs();
+    this.replay = null;
+    this.dataSources.userConsumptionSource$.next(null);
+    if (!this.manualMode) this.startInputs();
+    this.weatherInput.next(this.generatedWeather$);
+  }
+
+  /**
+   * Définit le niveau d'eau manuellement. N'a d'effet qu'en mode manuel.
+   *
+   * @param level - Le nouveau niveau d'eau (en pourcentage)
+   */
+  setWaterLevel(level: number): void {
+    if (canSetWaterLevel(this.manualMode)) {
+      const { config } = this;
+      this.state.waterLevel = level;
+      Object.assign(
+        this.state,
+        reservoirStateFields(
+          createReservoirState(
+            calculateDamVolume(level, config.DAM_STAGE_STORAGE_CURVE),
+            config,
+            this.deps.getCurrentTime(),
+          ),
+        ),
+      );
+      // Redémarrer le bilan de masse depuis le volume imposé
+      this.network.primary.setInitialWaterLevel(level);
+      this.publishState();
+    } else {
+      console.warn("Tentative de modification du niveau d'eau en mode automatique");
+    }
+  }
+
+  /**
+   * Modifie la consigne d'une vanne de retenue (évacuateur de crues ou vidange de fond).
+   * Les vannes se pilotent dans les deux modes : la consigne s'applique dès le tick suivant.
+   *
+   * @param gate - La vanne à piloter
+   * @param setting - Le mode ('auto' ou 'manual') et/ou l'ouverture manuelle (%)
+   * @param reservoirId - La retenue concernée ; la retenue principale par défaut
+   */
+  setGate(gate: DamGate, setting: Partial<GateSetting>, reservoirId?: string): void {
+    this.getReservoir(reservoirId).setGate(gate, setting);
+  }
+
+  /**
+   * Remplace la règle d'exploitation d'une retenue (courbes guides saisonnières par défaut).
+   *
+   * @param policy - La règle, qui décide à chaque tick des lâchers et de l'ouverture automatique des vannes
+   * @param reservoirId - La retenue concernée ; la retenue principale par défaut
+   */
+  setOperatingPolicy(policy: OperatingPolicy, reservoirId?: string): void {
+    this.getReservoir(reservoirId).setOperatingPolicy(this.withOutages(policy));
+  }
+
+  /**
+   * Charge un scénario : ses événements s'appliquent à partir de l'instant simulé courant.
+   *
+   * @param scenario - Le scénario, dont seuls les événements sont utilisés ici ; l'état initial
+   * et la durée sont appliqués par runScenario, qui construit un moteur dédié
+   * @throws {Error} Si le scénario est invalide
+   */
+  loadScenario(scenario: Scenario): void {
+    this.assertNotDisposed();
+    validateScenario(scenario, this.config);
+    this.scenario = { events: scenario.events, start: this.deps.getCurrentTime() };
+    this.updateScenarioModifiers(this.deps.getCurrentTime());
+  }
+
+  /**
+   * Retire le scénario chargé : les entrées ne sont plus modifiées.
+   */
+  clearScenario(): void {
+    this.scenario = null;
+    this.scenarioModifiers.next(NO_SCENARIO_MODIFIERS);
+  }
+
+  /**
+   * Jour (fractionnaire) du scénario chargé, ou null si aucun scénario n'est chargé.
+   */
+  get scenarioDay(): number | null {
+    return this.scenario ? (this.deps.getCurrentTime() - this.scenario.start) / DAY_DURATION : null;
+  }
+
+  /**
+   * Bascule entre le mode manuel et automatique.
+   * Le mode manuel suspend la génération des entrées simulées.
+   */
+  toggleManualMode(): void {
+    this.manualMode = !this.manualMode;
+    this.simulation.toggleAutoMode();
+    this.stopInputs();
+    if (!this.manualMode) {
+      this.startInputs();
+    }
+    this.state.isAutoMode = !this.manualMode;
+    this.publishState();
+  }
+
+  /**
+   * Désactive le mode manuel et revient au mode automatique.
+   */
+  toggleAutoMode(): void {
+    this.manualMode = false;
+    this.state.isAutoMode = true;
+    this.publishState();
+  }
+
+  addAlert(message: string, priority: Alert['priority']): void {
+    this.addAlertFn(message, priority);
+  }
+
+  /**
+   * Met à jour les effets du scénario chargé pour un instant simulé.
+   */
+  private updateScenarioModifiers(time: number): void {
+    if (!this.scenario) return;
+    this.scenarioModifiers.next(
+      scenarioModifiers(this.scenario.events, (time - this.scenario.start) / DAY_DURATION),
+    );
+  }
+
+  /**
+   * Enveloppe une règle d'exploitation pour annuler les lâchers vers les ouvrages hors service.
+   */
+  private withOutages(policy: OperatingPolicy): OperatingPolicy {
+    return withFacilityOutages(policy, () => this.scenarioModifiers.getValue().offline);
+  }
+
+  /**
+   * Démarre la production des entrées : le rejeu s'il est chargé, sinon le générateur aléatoire.
+   */
+  private startInputs(): void {
+    if (this.replay) {
+      this.replay.startReplay();
+    } else {
+      this.simulation.startSimulation();
+    }
+  }
+
+  private stopInputs(): void {
+    this.replay?.stopReplay();
+    this.simulation.stopSimulation();
+  }
+
+  /**
+   * Injecte les valeurs initiales dans les sources de données.
+   */
+  private seedDataSources(): void {
+    const { config, deps, dataSources } = this;
+    dataSources.waterSource$.next(config.INITIAL_WATER_LEVEL);
+    dataSources.weatherSource$.next('ensoleillé');
+    dataSources.weatherDataSource$.next(
+      createWeatherState('ensoleillé', deps.getCurrentTime(), config),
+    );
+    dataSources.userConsumptionSource$.next(null);
+    dataSources.glacierSource$.next(config.INITIAL_GLACIER_VOLUME);
+
+    const baseWaterInput =
+      config.INITIAL_WATER_LEVEL +
+      deps.getRandomNumber() * (config.HIGH_WATER_LEVEL - config.LOW_WATER_LEVEL);
+    const seasonalFactor = 1 + 0.3 * Math.sin(deps.getCurrentTime() / (1000 * 60 * 60 * 24 * 30)); // 30 jours en millisecondes
+    dataSources.waterSource$.next(baseWaterInput * seasonalFactor);
+    dataSources.glacierSource$.next(this.state.glacierVolume);
+    this.weatherSimulation$.pipe(take(1)).subscribe((weather) => {
+      this.state.weatherCondition = weather.condition;
+      dataSources.weatherSource$.next(weather.condition);
+      dataSources.weatherDataSource$.next(weather);
+    });
+  }
+
+  /**
+   * Souscrit aux observables partagés et applique chaque valeur à l'état.
+   *
+   * @description
+   * distinctUntilChanged évite les mises à jour inutiles, takeUntil nettoie les souscriptions
+   * à la destruction du moteur et catchError centralise la gestion des erreurs.
+   */
+  private subscribeToSharedObservables(
+    observables: Record<string, Observable<unknown>>,
+    updateState: (key: string, value: unknown) => void,
+  ): void {
+    for (const [key, observable] of Object.entries(observables)) {
+      observable
+        .pipe(
+          distinctUntilChanged(),
+          takeUntil(this.destroy$),
+          catchError((error) => handleError(error, `Souscription à ${key}`)),
+        )
+        .subscribe((value) => updateState(key, value));
+    }
+  }
+
+  /**
+   * Gère les erreurs et les retries avec un backoff exponentiel.
+   */
+  private handleErrorWithRetry(
+    error: unknown,
+    retryCount: number,
+    maxRetries: number,
+    context: string,
+  ) {
+    console.error(`Erreur dans ${context} (tentative ${retryCount}/${maxRetries}):`, error);
+    if (retryCount >= maxRetries) {
+      return throwError(() => new Error(`Erreur maximale atteinte dans ${context}`));
+    }
+    return timer(2 ** retryCount * 1000);
+  }
+
+  private getReservoir(reservoirId?: string): ReservoirNetworkNode {
+    const reservoir =
+      reservoirId === undefined ? this.network.primary : this.network.reservoirs.get(reservoirId);
+    if (!reservoir) {
+      throw new Error(`Retenue inconnue : ${reservoirId}`);
+    }
+    return reservoir;
+  }
+
+  /**
+   * Clôture le tick dans le bilan hydrique.
+   *
+   * @description
+   * Chaque nœud du réseau a enregistré ses transferts au fil du tick, dans l'ordre du trajet
+   * de l'eau ; il ne reste qu'à traiter les eaux usées reçues par les stations d'épuration.
+   */
+  private closeWaterBalance(tick: SimulationTick): void {
+    this.network.settleTick(tick);
+    const report = this.ledger.closeTick(tick);
+    this.lastWaterBalance = report;
+    this.state.unaccountedWater += report.unaccountedLoss;
+  }
+
+  private publishState(): void {
+    if (!this.disposed) {
+      this.stateSubject.next(this.getSnapshot());
+    }
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new Error('Le moteur de simulation a été détruit');
+    }
+  }
+}
+
+/**
+ * Exécute un scénario de bout en bout sur un moteur dédié et en fait le bilan.
+ *
+ * @param scenario - Le scénario (état initial, durée, graine et événements)
+ * @param config - La configuration de base, dont les valeurs INITIAL_* sont remplacées par le scénario
+ * @param topology - La topologie du réseau simulé
+ * @returns L'état à la fin de chaque jour, l'état final et les extrêmes de la période
+ * @throws {Error} Si le scénario est invalide
+ *
+ * @description
+ * Le moteur est créé avec la graine du scénario (SIMULATION_SEED à défaut) : deux exécutions
+ * d'un même scénario donnent le même rapport. Il avance jour par jour avec runDays, le dernier
+ * jour pouvant être partiel, puis est libéré. Le journal relève l'état en fin de journée,
+ * tandis que les extrêmes du bilan sont relevés à chaque tick.
+ */
+export function runScenario(
+  scenario: Scenario,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  topology: WaterSystemTopology = defaultWaterSystemTopology,
+): ScenarioReport {
+  validateScenario(scenario, config);
+  const engineConfig = scenarioConfig(scenario, config);
+  const engine = new WaterSystemEngine(
+    createWaterSystemDependencies(scenario.seed ?? config.SIMULATION_SEED, engineConfig),
+    engineConfig,
+    topology,
+  );
+  try {
+    engine.loadScenario(scenario);
+    // Les extrêmes sont relevés à chaque tick, pas seulement en fin de journée
+    const summary = {
+      minWaterLevel: Number.POSITIVE_INFINITY,
+      maxWaterLevel: Number.NEGATIVE_INFINITY,
+      maxFloodRisk: 0,
+      minWaterQuality: Number.POSITIVE_INFINITY,
+      maxDownstreamRelease: 0,
+    };
+    const extremes = engine.state$.subscribe((state) => {
+      summary.minWaterLevel = Math.min(summary.minWaterLevel, state.waterLevel);
+      summary.maxWaterLevel = Math.max(summary.maxWaterLevel, state.waterLevel);
+      summary.maxFloodRisk = Math.max(summary.maxFloodRisk, state.floodRisk);
+      summary.minWaterQuality = Math.min(summary.minWaterQuality, state.waterQuality);
+      summary.maxDownstreamRelease = Math.max(
+        summary.maxDownstreamRelease,
+        state.downstreamRelease,
+      );
+    });
+    const daily: ScenarioDailyResult[] = [];
+    let final = engine.getSnapshot();
+    for (let day = 0; day < scenario.durationDays; day++) {
+      final = engine.runDays(Math.min(1, scenario.durationDays - day));
+      daily.push({
+        day: day + 1,
+        waterLevel: final.waterLevel,
+        damZone: final.damZone,
+        downstreamRelease: final.downstreamRelease,
+        floodRisk: final.floodRisk,
+        powerOutput: final.powerOutput,
+        unmetDemand: final.unmetDemand,
+        waterQuality: final.waterQuality,
+        purifiedWater: final.purifiedWater,
+        waterDistributed: final.waterDistributed,
+        unmetEnergy: final.unmetEnergy,
+        weatherCondition: final.weatherCondition,
+        droughtStage: final.droughtStage,
+      });
+    }
+    extremes.unsubscribe();
+    return {
+      name: scenario.name,
+      durationDays: scenario.durationDays,
+      daily,
+      final,
+      summary: {
+        ...summary,
+        unmetEnergy: final.unmetEnergy,
+        alerts: engine.alerts.value.length,
+        droughtDays: droughtStageDays(
+          final.droughtHistory,
+          engine.deps.getCurrentTime(),
+          engineConfig,
+        ),
+      },
+    };
+  } finally {
+    engine.dispose();
+  }
+}
+
+/**
+ * Exécute un ensemble de simulations (Monte-Carlo) d'un scénario et en agrège les résultats.
+ *
+ * @param scenario - Le scénario commun à tous les membres
+ * @param runs - Le nombre de membres
+ * @param config - La configuration de base
+ * @param topology - La topologie du réseau simulé
+ * @returns Les percentiles P10/P50/P90 quotidiens et les probabilités de franchissement des seuils
+ * @throws {Error} Si le scénario est invalide ou si runs n'est pas un entier positif
+ *
+ * @description
+ * Chaque membre est une exécution de runScenario avec sa propre graine (voir ensembleSeeds) :
+ * la météo, les débits et les rendements aléatoires diffèrent d'un membre à l'autre, tandis
+ * que l'état initial et les événements scriptés sont communs. L'ensemble est reproductible.
+ */
+export function runEnsemble(
+  scenario: Scenario,
+  runs: number = waterSystemConfig.ENSEMBLE_RUNS,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  topology: WaterSystemTopology = defaultWaterSystemTopology,
+): EnsembleReport {
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error("Le nombre de membres de l'ensemble doit être un entier positif");
+  }
+  const seeds = ensembleSeeds(scenario.seed ?? config.SIMULATION_SEED, runs);
+  const reports = seeds.map((seed) => runScenario({ ...scenario, seed }, config, topology));
+  return aggregateEnsemble(reports, seeds, config);
+}
@@ -0,0 +1,86 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { createMockWaterSystemState } from './testFactories';
+
+function runEngine(seed: number, ticks: number) {
+  const engine = new WaterSystemEngine(createWaterSystemDependencies(seed));
+  const state = engine.step(ticks);
+  engine.dispose();
+  return state;
+}
+
+describe('WaterSystemEngine', () => {
+  it('should be instantiable without a component host', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+
+    expect(engine.getSnapshot()).toEqual(createMockWaterSystemState());
+    engine.dispose();
+  });
+
+  it('should advance the simulation synchronously with step()', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    const startTime = engine.deps.getCurrentTime();
+
+    const state = engine.step(30);
+
+    expect(engine.deps.getCurrentTime()).toBe(
+      startTime + 30 * waterSystemConfig.SIMULATION_TICK_DURATION,
+    );
+    expect(state.waterLevel).not.toBe(waterSystemConfig.INITIAL_DAM_WATER_LEVEL);
+    // Le 1er janvier, le glacier est sous le seuil de fonte
+    expect(state.glacierTemperature).toBeLessThan(0);
+    expect(state.glacierVolume).toBe(waterSystemConfig.INITIAL_GLACIER_VOLUME);
+    engine.dispose();
+  });
+
+  it('should produce identical states for the same seed', () => {
+    expect(runEngine(1234, 120)).toEqual(runEngine(1234, 120));
+  });
+
+  it('should produce different states for different seeds', () => {
+    expect(runEngine(1, 120)).not.toEqual(runEngine(2, 120));
+  });
+
+  it('should fast-forward a season in coarse ticks of virtual time', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    const startTime = engine.deps.getCurrentTime();
+    const tickDurations: number[] = [];
+    engine.deps.clock.tick$.subscribe(({ dt }) => tickDurations.push(dt));
+
+    const state = engine.runDays(90);
+
+    expect(engine.deps.getCurrentTime() - startTime).toBe(90 * 24 * 60 * 60 * 1000);
+    expect(tickDurations).toHaveLength(90 * 24);
+    expect(Math.max(...tickDurations)).toBeLessThanOrEqual(
+      waterSystemConfig.SIMULATION_MAX_TICK_DURATION,
+    );
+    // L'hiver accumule de la neige sur le glacier
+    expect(state.snowpack).toBeGreaterThan(0);
+    engine.dispose();
+  });
+
+  it('should sample the inputs at the interval of the injected configuration', () => {
+    const countInputs = (interval: number) => {
+      const config = { ...waterSystemConfig, SIMULATION_INPUT_INTERVAL: interval };
+      const engine = new WaterSystemEngine(createWaterSystemDependencies(7, config), config);
+      let inputs = 0;
+      engine.dataSources.waterSource$.subscribe(() => {
+        inputs += 1;
+      });
+      engine.runDays(1);
+      engine.dispose();
+      return inputs;
+    };
+
+    expect(countInputs(60 * 60 * 1000)).toBe(24);
+    expect(countInputs(6 * 60 * 60 * 1000)).toBe(4);
+  });
+
+  it('should refuse to step once disposed', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    engine.dispose();
+
+    expect(() => engine.step()).toThrow();
+  });
+});
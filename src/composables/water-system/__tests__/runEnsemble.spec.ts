@@ -0,0 +1,64 @@
+import type { Scenario } from '@/types/waterSystem';
+import { percentile } from '@/utils/ensemble';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { runEnsemble } from '../WaterSystemEngine';
+import { useEnsemble } from '../useEnsemble';
+
+const scenario: Scenario = {
+  name: 'Sécheresse',
+  seed: 7,
+  durationDays: 5,
+  initialState: { INITIAL_DAM_WATER_LEVEL: waterSystemConfig.CRITICAL_WATER_LEVEL + 2 },
+  events: [{ type: 'drought', day: 0, durationDays: 5, inflowFactor: 0 }],
+};
+
+describe('runEnsemble - simulations de Monte-Carlo', () => {
+  it('should interpolate percentiles between ranks', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+    expect(percentile(sorted, 10)).toBe(2);
+    expect(percentile(sorted, 50)).toBe(6);
+    expect(percentile([0, 10], 90)).toBe(9);
+    expect(percentile([], 50)).toBeNaN();
+  });
+
+  it('should aggregate ordered daily bands over seeded members', () => {
+    const report = runEnsemble(scenario, 4);
+
+    expect(report.seeds).toEqual([7, 8, 9, 10]);
+    for (const bands of Object.values(report.bands)) {
+      expect(bands).toHaveLength(5);
+      for (const { p10, p50, p90 } of bands) {
+        expect(p10).toBeLessThanOrEqual(p50);
+        expect(p50).toBeLessThanOrEqual(p90);
+      }
+    }
+    expect(runEnsemble(scenario, 4)).toEqual(report);
+  });
+
+  it('should report the share of members crossing the level thresholds', () => {
+    const report = runEnsemble(scenario, 3);
+
+    // Sans apport, la retenue proche du seuil critique le franchit dans tous les membres
+    expect(report.exceedance.critical).toBe(1);
+    expect(report.exceedance.veryHigh).toBe(0);
+    expect(() => runEnsemble(scenario, 0)).toThrow();
+  });
+  it('should report an invalid number of members instead of running the ensemble', async () => {
+    const { scenario: current, run, report, error, isRunning } = useEnsemble();
+    current.value = scenario;
+
+    // Un champ « Membres » vide donne une chaîne, et non un nombre
+    for (const runs of [0, 2.5, '' as unknown as number]) {
+      await run(runs);
+      expect(error.value).toBe("Le nombre de membres de l'ensemble doit être un entier positif");
+      expect(report.value).toBeNull();
+    }
+    expect(isRunning.value).toBe(false);
+
+    await run(2, 1);
+    expect(error.value).toBeNull();
+    expect(report.value?.seeds).toEqual([7, 8]);
+  });
+});
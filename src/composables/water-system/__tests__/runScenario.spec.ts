@@ -0,0 +1,68 @@
+import type { Scenario } from '@/types/waterSystem';
+import { parseScenario, scenarioModifiers } from '@/utils/scenario';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { runScenario } from '../WaterSystemEngine';
+
+const baseline: Scenario = {
+  name: 'Référence',
+  seed: 42,
+  durationDays: 20,
+  initialState: { INITIAL_DAM_WATER_LEVEL: 40 },
+  events: [],
+};
+
+describe('runScenario - scénarios scriptés', () => {
+  it('should parse a scenario and combine the events active on a given day', () => {
+    const scenario = parseScenario(
+      JSON.stringify({
+        ...baseline,
+        events: [
+          { type: 'drought', day: 10, durationDays: 30 },
+          { type: 'storm', day: 23, precipitation: 80, durationHours: 8 },
+          { type: 'outage', day: 23, facility: 'purification', durationHours: 6 },
+          { type: 'consumption', day: 0, factor: 1.3 },
+        ],
+      }),
+      waterSystemConfig,
+    );
+
+    expect(scenarioModifiers(scenario.events, 5)).toMatchObject({
+      inflowFactor: 1,
+      consumptionFactor: 1.3,
+      weather: null,
+    });
+    expect(scenarioModifiers(scenario.events, 23.1)).toEqual({
+      inflowFactor: 0.3,
+      consumptionFactor: 1.3,
+      weather: { condition: 'orageux', precipitation: 10 },
+      offline: ['purification'],
+    });
+    expect(scenarioModifiers(scenario.events, 23.3).offline).toEqual([]);
+  });
+
+  it('should reject unknown events and initial values', () => {
+    const invalid = (scenario: object) => () =>
+      parseScenario(JSON.stringify({ ...baseline, ...scenario }), waterSystemConfig);
+
+    expect(invalid({ events: [{ type: 'earthquake', day: 1 }] })).toThrow('earthquake');
+    expect(invalid({ initialState: { DAM_CAPACITY: 10 } })).toThrow('DAM_CAPACITY');
+    expect(invalid({ durationDays: -1 })).toThrow('durationDays');
+  });
+
+  it('should run a repeatable scenario and report the effect of its events', () => {
+    const reference = runScenario(baseline);
+    const drought = runScenario({
+      ...baseline,
+      events: [{ type: 'drought', day: 2, durationDays: 18, inflowFactor: 0 }],
+    });
+
+    expect(reference.daily).toHaveLength(20);
+    expect(reference.daily[0].day).toBe(1);
+    expect(runScenario(baseline).final).toEqual(reference.final);
+    expect(drought.final.waterLevel).toBeLessThan(reference.final.waterLevel);
+    expect(drought.summary.minWaterLevel).toBe(drought.final.waterLevel);
+    // Les alertes levées par le moteur sont comptées, et non celles de l'état publié
+    expect(drought.summary.alerts).toBeGreaterThan(0);
+  });
+});
@@ -1,26 +1,109 @@
 import { waterSystemConfig } from '@/config/waterSystemConfig';
-import type { WaterSystemState, WeatherCondition } from '@/types/waterSystem';
+import type { WaterSystemState } from '@/types/waterSystem';
+import { createReservoirState, volumeFromLevel } from '../useDamManagement';
+import { createDroughtState } from '../useDroughtManagement';
+import { createFloodForecast } from '../useFloodPrediction';
+import { createGlacierState } from '../useGlacierMelt';
+import { createIrrigationState } from '../useIrrigation';
+import { createWaterDemandState } from '../useUserWaterManagement';
+import { createWastewaterPlantState } from '../useWastewaterTreatment';
+import { createWaterAllocationState } from '../useWaterAllocation';
+import { createDistributionNetworkState } from '../useWaterDistribution';
+import { createPurificationPlantState } from '../useWaterPurification';
+import { assessWaterQuality, createRawWaterQuality } from '../useWaterQualityControl';
+import { createWeatherState } from '../useWeatherSimulation';
 
 export function createMockWaterSystemState(
   overrides: Partial<WaterSystemState> = {},
 ): WaterSystemState {
+  const initialReservoir = createReservoirState(
+    volumeFromLevel(
+      waterSystemConfig.DAM_STAGE_STORAGE_CURVE,
+      waterSystemConfig.INITIAL_DAM_WATER_LEVEL,
+    ),
+  );
+  const initialWeather = createWeatherState('ensoleillé');
+  const initialGlacier = createGlacierState(
+    waterSystemConfig.INITIAL_GLACIER_VOLUME,
+    waterSystemConfig,
+    initialWeather.temperature -
+      waterSystemConfig.GLACIER_LAPSE_RATE * waterSystemConfig.GLACIER_ELEVATION_ABOVE_STATION,
+  );
+  const initialFlood = createFloodForecast(0, initialWeather.precipitation);
+  const initialPurification = createPurificationPlantState();
+  const initialWastewater = createWastewaterPlantState();
+  const initialDistribution = createDistributionNetworkState();
+  const initialDemand = createWaterDemandState(waterSystemConfig.SIMULATION_START_TIME);
+  const initialDrought = createDroughtState(waterSystemConfig.SIMULATION_START_TIME);
+  const initialFarm = createIrrigationState(waterSystemConfig.SIMULATION_START_TIME);
+  const initialAllocation = createWaterAllocationState();
+  const initialQuality = assessWaterQuality(
+    createRawWaterQuality(initialWeather),
+    initialPurification,
+  );
   return {
     waterLevel: waterSystemConfig.INITIAL_DAM_WATER_LEVEL,
     isAutoMode: true,
     purifiedWater: waterSystemConfig.INITIAL_PURIFIED_WATER,
     powerGenerated: waterSystemConfig.INITIAL_POWER_GENERATED,
+    powerOutput: waterSystemConfig.INITIAL_POWER_OUTPUT,
+    electricityDemand: 0,
+    unmetDemand: 0,
+    unmetEnergy: 0,
+    spilledEnergy: 0,
     waterDistributed: waterSystemConfig.INITIAL_WATER_DISTRIBUTED,
-    weatherCondition: 'ensoleillé' as WeatherCondition,
+    distributionDistricts: initialDistribution.districts,
+    distributionShortfall: initialDistribution.shortfall,
+    nonRevenueWater: initialDistribution.nonRevenueWater,
+    weatherCondition: initialWeather.condition,
+    precipitation: initialWeather.precipitation,
+    temperature: initialWeather.temperature,
+    humidity: initialWeather.humidity,
+    windSpeed: initialWeather.windSpeed,
     alerts: [],
     irrigationWater: waterSystemConfig.INITIAL_IRRIGATION_WATER,
+    irrigationDemand: initialFarm.demand,
+    irrigationFields: initialFarm.fields,
+    referenceEvapotranspiration: initialFarm.referenceEvapotranspiration,
+    waterSupply: initialAllocation.supply,
+    waterAllocations: initialAllocation.uses,
+    allocationDeficit: initialAllocation.deficit,
     treatedWastewater: waterSystemConfig.INITIAL_TREATED_WASTEWATER,
-    waterQuality: waterSystemConfig.INITIAL_WATER_QUALITY,
-    floodRisk: waterSystemConfig.INITIAL_FLOOD_RISK,
+    wastewaterInflow: initialWastewater.inflow,
+    wastewaterCapacity: initialWastewater.capacity,
+    sewerOverflow: initialWastewater.overflow,
+    reusedWater: initialWastewater.reused,
+    effluentQuality: initialWastewater.effluentQuality,
+    effluentCompliant: initialWastewater.compliant,
+    waterQuality: initialQuality.score,
+    waterQualitySamples: initialQuality.samples,
+    waterQualityViolations: initialQuality.violations,
+    purificationThroughput: initialPurification.throughput,
+    purificationCapacity: initialPurification.capacity,
+    purificationStages: initialPurification.stages,
+    floodRisk: initialFlood.risk,
+    floodCheckpoints: initialFlood.checkpoints,
     userConsumption: waterSystemConfig.INITIAL_USER_CONSUMPTION,
-    glacierVolume: waterSystemConfig.INITIAL_GLACIER_VOLUME,
-    meltRate: waterSystemConfig.INITIAL_MELT_RATE,
-    waterFlow: waterSystemConfig.INITIAL_WATER_FLOW,
-    damWaterVolume: waterSystemConfig.INITIAL_DAM_WATER_VOLUME,
+    waterDemand: initialDemand.total,
+    waterDemandSegments: initialDemand.segments,
+    droughtStage: initialDrought.stage,
+    droughtSeverity: initialDrought.severity,
+    daysOfStorage: initialDrought.daysOfStorage,
+    droughtHistory: initialDrought.history,
+    glacierVolume: initialGlacier.volume,
+    glacierArea: initialGlacier.area,
+    snowpack: initialGlacier.snowpack,
+    glacierTemperature: initialGlacier.temperature,
+    meltRate: initialGlacier.meltRate,
+    waterFlow: initialGlacier.waterFlow,
+    damWaterVolume: initialReservoir.volume,
+    damElevation: initialReservoir.elevation,
+    damInflow: 0,
+    damOutflow: 0,
+    damGates: initialReservoir.gates,
+    damZone: initialReservoir.zone,
+    downstreamRelease: 0,
+    unaccountedWater: 0,
     ...overrides,
   };
 }
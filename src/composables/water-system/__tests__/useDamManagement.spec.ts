@@ -0,0 +1,135 @@
+import { createRuleCurvePolicy, ruleCurveTargets } from '@/utils/operatingPolicy';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import {
+  createReservoirState,
+  elevationFromVolume,
+  reservoirCapacity,
+  stepReservoir,
+  totalOutflow,
+  volumeFromLevel,
+} from '../useDamManagement';
+
+const curve = waterSystemConfig.DAM_STAGE_STORAGE_CURVE;
+
+describe('useDamManagement - bilan de masse', () => {
+  it('should interpolate the elevation from the stage-storage curve', () => {
+    expect(elevationFromVolume(curve, 0)).toBe(1500);
+    expect(elevationFromVolume(curve, (16200000 + 28200000) / 2)).toBeCloseTo(1545, 6);
+    expect(elevationFromVolume(curve, reservoirCapacity(curve) * 2)).toBe(1560);
+  });
+
+  it('should conserve water: stored volume changes by inflows minus outflows', () => {
+    const initial = createReservoirState(volumeFromLevel(curve, 60));
+    const seconds = 3600;
+
+    const next = stepReservoir(
+      initial,
+      { riverInflow: 50, glacierInflow: 5, weather: 'pluvieux' },
+      seconds,
+    );
+
+    const balance = (next.inflow - totalOutflow(next.outflows)) * seconds;
+    expect(next.volume - initial.volume).toBeCloseTo(balance, 3);
+    expect(next.outflows.purification).toBe(waterSystemConfig.DAM_PURIFICATION_RELEASE);
+    expect(next.outflows.turbines).toBe(waterSystemConfig.DAM_TURBINE_RELEASE);
+    expect(next.outflows.spillway).toBe(0);
+  });
+
+  it('should spill everything above capacity, even with the gates closed', () => {
+    const full = createReservoirState(reservoirCapacity(curve));
+
+    const next = stepReservoir(
+      full,
+      {
+        riverInflow: 500,
+        glacierInflow: 0,
+        weather: 'orageux',
+        gates: {
+          spillway: { mode: 'manual', opening: 0 },
+          outlet: { mode: 'manual', opening: 0 },
+        },
+      },
+      3600,
+    );
+
+    expect(next.volume).toBe(reservoirCapacity(curve));
+    expect(next.level).toBe(100);
+    expect(next.outflows.spillway).toBeGreaterThan(0);
+  });
+
+  it('should stop releases below the minimum operating levels', () => {
+    const low = createReservoirState(volumeFromLevel(curve, 10));
+
+    const next = stepReservoir(low, { riverInflow: 0, glacierInflow: 0, weather: 'nuageux' }, 60);
+
+    expect(next.outflows.purification).toBe(0);
+    expect(next.outflows.turbines).toBe(0);
+    expect(next.volume).toBeLessThan(low.volume);
+  });
+
+  it('should operate releases and gates by zone of the seasonal rule curves', () => {
+    const policy = createRuleCurvePolicy();
+    const time = Date.UTC(2024, 0, 1);
+    const targets = ruleCurveTargets(waterSystemConfig.DAM_RULE_CURVES, time);
+    const decide = (level: number, weather: 'ensoleillé' | 'orageux' = 'ensoleillé') =>
+      policy({ state: createReservoirState(volumeFromLevel(curve, level)), weather, time });
+
+    expect(decide(targets.deadStorage - 1)).toMatchObject({ zone: 'dead-storage', turbines: 0 });
+    const buffer = decide((targets.deadStorage + targets.conservation) / 2);
+    expect(buffer.zone).toBe('buffer');
+    expect(buffer.purification).toBe(waterSystemConfig.DAM_PURIFICATION_RELEASE);
+    expect(buffer.turbines).toBeCloseTo(waterSystemConfig.DAM_TURBINE_RELEASE / 2, 6);
+    expect(decide(targets.conservation + 1)).toMatchObject({
+      zone: 'conservation',
+      gates: { spillway: 0, outlet: 0 },
+    });
+    const flood = decide(99);
+    expect(flood.zone).toBe('flood-control');
+    expect(flood.gates.outlet).toBe(100);
+    expect(flood.gates.spillway).toBeGreaterThan(0);
+    // Par temps d'orage, la limite de crue s'abaisse pour faire de la place
+    expect(decide(targets.floodControl - 1, 'orageux').zone).toBe('flood-control');
+  });
+
+  it('should follow the season: lower flood-control limit before the spring melt', () => {
+    const curves = waterSystemConfig.DAM_RULE_CURVES;
+    const winter = ruleCurveTargets(curves, Date.UTC(2024, 0, 1));
+    const spring = ruleCurveTargets(curves, Date.UTC(2024, 2, 16));
+    const autumn = ruleCurveTargets(curves, Date.UTC(2024, 8, 7));
+
+    expect(spring.floodControl).toBeLessThan(winter.floodControl);
+    expect(autumn.floodControl).toBeGreaterThan(winter.floodControl);
+  });
+
+  it('should release the manual gate opening downstream and keep the balance closed', () => {
+    const initial = createReservoirState(volumeFromLevel(curve, 60));
+    const seconds = 3600;
+    const inputs = { riverInflow: 20, glacierInflow: 0, weather: 'nuageux' as const };
+
+    const closed = stepReservoir(initial, inputs, seconds);
+    const opened = stepReservoir(
+      initial,
+      {
+        ...inputs,
+        gates: {
+          spillway: { mode: 'manual', opening: 100 },
+          outlet: { mode: 'manual', opening: 50 },
+        },
+      },
+      seconds,
+    );
+
+    expect(closed.outflows.outlet).toBe(0);
+    expect(opened.outflows.outlet).toBeGreaterThan(0);
+    expect(opened.gates.outlet).toEqual({
+      mode: 'manual',
+      opening: 50,
+      discharge: opened.outflows.outlet,
+    });
+    // Sous la crête de l'évacuateur, l'ouvrir ne lâche rien
+    expect(opened.outflows.spillway).toBe(0);
+    const balance = (opened.inflow - totalOutflow(opened.outflows)) * seconds;
+    expect(opened.volume - initial.volume).toBeCloseTo(balance, 3);
+  });
+});
@@ -0,0 +1,219 @@
+import type { DroughtStage, DroughtState, WaterSystemState } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { NEVER, Subject } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+import {
+  WaterSystemEngine,
+  createWaterSystemDependencies,
+  runScenario,
+} from '../WaterSystemEngine';
+import { useAlertSystem } from '../useAlertSystem';
+import { createReservoirState, volumeFromLevel } from '../useDamManagement';
+import {
+  createDroughtState,
+  daysOfStorage,
+  droughtStageDays,
+  stepDroughtManagement,
+} from '../useDroughtManagement';
+
+const {
+  DAM_STAGE_STORAGE_CURVE,
+  DROUGHT_MIN_STAGE_DURATION,
+  DROUGHT_STAGES,
+  SIMULATION_START_TIME,
+} = waterSystemConfig;
+const DAY = 24 * 60 * 60 * 1000;
+
+const reservoirAt = (level: number) =>
+  createReservoirState(volumeFromLevel(DAM_STAGE_STORAGE_CURVE, level));
+
+describe('useDroughtManagement - plan de gestion de la sécheresse', () => {
+  it('should escalate at once and relax the restrictions only after the minimum stage duration', () => {
+    const initial = createDroughtState(SIMULATION_START_TIME);
+    expect(initial.demandFactors.residential).toBe(1);
+    expect(initial.irrigationFactor).toBe(1);
+
+    const vigilance = stepDroughtManagement(initial, {
+      time: SIMULATION_START_TIME + DAY,
+      reservoir: reservoirAt(45),
+      forecastInflow: 20,
+    });
+    expect(vigilance.stage).toBe('vigilance');
+
+    // Un apport prévu presque nul suffit à déclencher un palier sévère
+    const severe = stepDroughtManagement(vigilance, {
+      time: SIMULATION_START_TIME + 2 * DAY,
+      reservoir: reservoirAt(45),
+      forecastInflow: 1,
+    });
+    expect(severe.stage).toBe('reinforced-alert');
+    expect(severe.demandFactors.residential).toBeCloseTo(0.8, 12);
+    expect(severe.demandFactors.industrial).toBeCloseTo(0.85, 12);
+    expect(severe.irrigationFactor).toBe(0.4);
+
+    const rain = { reservoir: reservoirAt(70), forecastInflow: 30 };
+    const held = stepDroughtManagement(severe, { ...rain, time: SIMULATION_START_TIME + 3 * DAY });
+    expect(held.stage).toBe('reinforced-alert');
+    const lifted = stepDroughtManagement(held, {
+      ...rain,
+      time: SIMULATION_START_TIME + 2 * DAY + DROUGHT_MIN_STAGE_DURATION,
+    });
+    expect(lifted.stage).toBeNull();
+    expect(lifted.demandFactors.industrial).toBe(1);
+    expect(lifted.history.map(({ stage }) => stage)).toEqual([
+      null,
+      'vigilance',
+      'reinforced-alert',
+      null,
+    ]);
+    expect(lifted.history[2].end).toBe(lifted.history[3].start);
+  });
+
+  it('should compute the days of storage left and the time spent in each stage', () => {
+    const reservoir = {
+      ...reservoirAt(45),
+      outflows: {
+        purification: 2,
+        turbines: 3,
+        spillway: 10,
+        outlet: 0,
+        evaporation: 0,
+        seepage: 0,
+        irrigation: 0,
+        environment: 0,
+      },
+    };
+    // Culot mort à 15 % : les lâchers des vannes ne sont pas comptés
+    const usable = volumeFromLevel(DAM_STAGE_STORAGE_CURVE, 30);
+    expect(daysOfStorage(reservoir, 1, SIMULATION_START_TIME)).toBeCloseTo(
+      usable / 4 / (DAY / 1000),
+      6,
+    );
+    expect(daysOfStorage(reservoir, 6, SIMULATION_START_TIME)).toBeNull();
+
+    expect(
+      droughtStageDays(
+        [
+          { stage: null, start: 0, end: DAY },
+          { stage: 'vigilance', start: DAY, end: 3 * DAY },
+          { stage: 'alert', start: 3 * DAY, end: null },
+        ],
+        4 * DAY,
+      ),
+    ).toEqual({ vigilance: 2, alert: 1, 'reinforced-alert': 0, crisis: 0 });
+  });
+
+  it('should trigger the stages of a scripted drought, raise an alert and report the time spent', () => {
+    const config = { ...waterSystemConfig, INITIAL_DAM_WATER_LEVEL: 45 };
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(42, config), config);
+    let unaccounted = 0;
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+    });
+    engine.loadScenario({
+      name: 'Sécheresse',
+      durationDays: 5,
+      events: [{ type: 'drought', day: 0, durationDays: 5, inflowFactor: 0 }],
+    });
+
+    const state = engine.runDays(3);
+    expect(state.droughtSeverity).toBeGreaterThanOrEqual(3);
+    expect(state.droughtHistory[0]).toMatchObject({
+      stage: null,
+      end: SIMULATION_START_TIME + DAY,
+    });
+    expect(unaccounted).toBe(0);
+    expect(engine.alerts.value.some(({ message }) => message.includes('Sécheresse'))).toBe(true);
+
+    engine.reset();
+    expect(engine.runDays(0.5).droughtStage).toBeNull();
+    engine.dispose();
+
+    const report = runScenario({
+      name: 'Sécheresse',
+      seed: 42,
+      durationDays: 5,
+      initialState: { INITIAL_DAM_WATER_LEVEL: 45 },
+      events: [{ type: 'drought', day: 0, durationDays: 5, inflowFactor: 0 }],
+    });
+    expect(report.daily[4].droughtStage).not.toBeNull();
+    expect(
+      Object.values(report.summary.droughtDays).reduce((acc, days) => acc + days, 0),
+    ).toBeCloseTo(4, 6);
+  });
+
+  it('should restrict the agricultural demand through the irrigation limit of the farms', () => {
+    const { IRRIGATION_APPLICATION_RATE, IRRIGATION_FIELDS } = waterSystemConfig;
+    const gardens = IRRIGATION_FIELDS.findIndex(({ id }) => id === 'market-gardens');
+    const flow = (IRRIGATION_APPLICATION_RATE / 1000 / 3600) * IRRIGATION_FIELDS[gardens].area;
+    const config = {
+      ...waterSystemConfig,
+      INITIAL_DAM_WATER_LEVEL: 45,
+      SIMULATION_START_TIME: Date.UTC(2024, 6, 1),
+    };
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(42, config), config);
+    const states: WaterSystemState[] = [];
+    engine.state$.subscribe((state) => states.push(state));
+    engine.loadTimeSeries([{ time: 0, precipitation: 0, temperature: 32 }]);
+    engine.loadScenario({
+      name: 'Sécheresse estivale',
+      durationDays: 4,
+      events: [{ type: 'drought', day: 0, durationDays: 4, inflowFactor: 0 }],
+    });
+
+    engine.runDays(4);
+    engine.dispose();
+
+    // Le segment agricole est la demande des exploitations, et non un second profil
+    for (const { waterDemandSegments, irrigationDemand } of states) {
+      expect(waterDemandSegments.agricultural).toBeCloseTo(irrigationDemand, 12);
+    }
+    const gardensDemand = (stage: string | null) =>
+      states
+        .filter(
+          ({ droughtStage, irrigationFields }) =>
+            droughtStage === stage && irrigationFields[gardens].irrigating,
+        )
+        .map(({ irrigationFields }) => irrigationFields[gardens].demand);
+    expect(Math.max(...gardensDemand(null))).toBeCloseTo(flow, 12);
+    const stage = DROUGHT_STAGES.find(({ id }) => id === 'reinforced-alert') as DroughtStage;
+    const restricted = gardensDemand(stage.id);
+    expect(restricted.length).toBeGreaterThan(0);
+    // Le premier pas du palier a été demandé avant son déclenchement
+    for (const demand of restricted.slice(1)) {
+      expect(demand).toBeCloseTo(flow * stage.irrigationLimit, 12);
+    }
+  });
+
+  it('should name the stages of the injected configuration in the drought alerts', () => {
+    // Un cinquième palier, absent de la configuration par défaut
+    const config = {
+      ...waterSystemConfig,
+      DROUGHT_STAGES: [
+        ...DROUGHT_STAGES,
+        { ...DROUGHT_STAGES[DROUGHT_STAGES.length - 1], id: 'emergency', name: 'Urgence' },
+      ],
+    };
+    const drought$ = new Subject<DroughtState>();
+    const { alerts, alertSystem$ } = useAlertSystem(
+      { dam$: NEVER, drought$ },
+      createWaterSystemDependencies(1, config),
+      config,
+    );
+    const subscription = alertSystem$.subscribe();
+    const initial = createDroughtState(SIMULATION_START_TIME, config);
+
+    drought$.next({ ...initial, stage: 'reinforced-alert', severity: 3 });
+    expect(alerts.value[0]).toMatchObject({
+      priority: 'medium',
+      message:
+        "Avertissement : Sécheresse, palier Alerte renforcée (restrictions d'eau en vigueur)",
+    });
+    drought$.next({ ...initial, stage: 'emergency', severity: 5 });
+    expect(alerts.value[0]).toMatchObject({
+      priority: 'high',
+      message: "Alerte : Sécheresse, palier Urgence (restrictions d'eau renforcées)",
+    });
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,59 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import {
+  checkpointRisk,
+  createRiverState,
+  forecastFloods,
+  muskingumCoefficients,
+  routeRiver,
+} from '../useFloodPrediction';
+
+const { FLOOD_REACHES } = waterSystemConfig;
+
+describe('useFloodPrediction - routage de Muskingum', () => {
+  it('should attenuate and delay a release pulse along the river', () => {
+    const [c0, c1, c2] = muskingumCoefficients(3600, 0.1, 900);
+    expect(c0 + c1 + c2).toBeCloseTo(1, 12);
+    expect(Math.min(c0, c1, c2)).toBeGreaterThan(0);
+
+    let river = createRiverState(10, 0);
+    // Un régime permanent reste permanent
+    expect(routeRiver(river, 10, 0)).toEqual(river);
+
+    const outflows: number[] = [];
+    for (let step = 0; step < 48; step++) {
+      river = routeRiver(river, step < 4 ? 200 : 10, 0);
+      outflows.push(river[river.length - 1].outflow);
+    }
+    const peak = Math.max(...outflows);
+    const baseFlow = FLOOD_REACHES.reduce((sum, reach) => sum + reach.baseFlow, 10);
+    expect(peak).toBeLessThan(200 + baseFlow);
+    expect(outflows.indexOf(peak)).toBeGreaterThan(3);
+    expect(outflows[outflows.length - 1]).toBeCloseTo(baseFlow, 0);
+  });
+
+  it('should derive risk from the normal, warning and danger stages', () => {
+    const stages = { normal: 1, warning: 2, danger: 3 };
+
+    expect(checkpointRisk(0.5, stages)).toBe(0);
+    expect(checkpointRisk(1.5, stages)).toBe(25);
+    expect(checkpointRisk(2, stages)).toBe(50);
+    expect(checkpointRisk(4, stages)).toBe(100);
+  });
+
+  it('should forecast the stage a sudden release will reach downstream', () => {
+    const river = createRiverState(10, 0);
+
+    const calm = forecastFloods(river, 10, 0);
+    const surge = forecastFloods(river, 300, 0);
+
+    expect(calm.risk).toBe(0);
+    expect(surge.checkpoints.map(({ stage }) => stage)).toEqual(
+      calm.checkpoints.map(({ stage }) => stage),
+    );
+    for (const checkpoint of surge.checkpoints) {
+      expect(checkpoint.forecastStage).toBeGreaterThan(checkpoint.stage);
+    }
+    expect(surge.risk).toBe(100);
+  });
+});
@@ -0,0 +1,110 @@
+import type { OperatingPolicy } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { firstValueFrom } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { createReservoirState, stepReservoir, volumeFromLevel } from '../useDamManagement';
+import { createRiverState } from '../useFloodPrediction';
+import { forecastSystem } from '../useForecast';
+import {
+  createWeatherState,
+  expectedPrecipitation,
+  propagateWeather,
+} from '../useWeatherSimulation';
+
+const { DAM_STAGE_STORAGE_CURVE, FORECAST_HORIZON, FORECAST_STEP, VERY_HIGH_WATER_LEVEL } =
+  waterSystemConfig;
+const HOUR = 60 * 60 * 1000;
+
+// Règle qui ne lâche rien : la retenue se remplit au rythme des apports
+const holdEverything: OperatingPolicy = () => ({
+  zone: 'conservation',
+  purification: 0,
+  turbines: 0,
+  gates: { spillway: 0, outlet: 0 },
+});
+
+describe('useForecast - prévision à court terme', () => {
+  it('should follow the Markov chain probabilities rather than a sampled path', () => {
+    const time = waterSystemConfig.SIMULATION_START_TIME;
+    let distribution = { ensoleillé: 1, nuageux: 0, pluvieux: 0, orageux: 0 };
+
+    expect(expectedPrecipitation(distribution)).toBe(0);
+    for (let i = 0; i < 48; i++) distribution = propagateWeather(distribution, time);
+
+    const total = Object.values(distribution).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 12);
+    expect(distribution.ensoleillé).toBeLessThan(1);
+    expect(expectedPrecipitation(distribution)).toBeGreaterThan(0);
+  });
+
+  it('should tell when the dam will reach the very high level at the current rate', () => {
+    const time = waterSystemConfig.SIMULATION_START_TIME;
+    const inputs = {
+      reservoir: createReservoirState(volumeFromLevel(DAM_STAGE_STORAGE_CURVE, 85)),
+      river: createRiverState(0, 0),
+      weather: createWeatherState('ensoleillé', time),
+      riverInflow: 200,
+      glacierInflow: 0,
+      policy: holdEverything,
+      time,
+    };
+
+    const forecast = forecastSystem(inputs);
+
+    expect(forecast.points).toHaveLength(FORECAST_HORIZON / FORECAST_STEP);
+    expect(forecast.criticalAt).toBeNull();
+    const { veryHighAt } = forecast;
+    expect(veryHighAt).not.toBeNull();
+    const crossing = forecast.points.findIndex((point) => point.time >= (veryHighAt as number));
+    expect(forecast.points[crossing].waterLevel).toBeGreaterThanOrEqual(VERY_HIGH_WATER_LEVEL);
+    expect(forecast.points[crossing - 1].waterLevel).toBeLessThan(VERY_HIGH_WATER_LEVEL);
+    expect(forecastSystem(inputs)).toEqual(forecast);
+  });
+
+  it('should project the irrigation demanded by the farms rather than the water allocated', () => {
+    const time = waterSystemConfig.SIMULATION_START_TIME;
+    const reservoirWith = (irrigationDemand: number) =>
+      stepReservoir(
+        createReservoirState(volumeFromLevel(DAM_STAGE_STORAGE_CURVE, 60)),
+        { riverInflow: 0, glacierInflow: 0, weather: 'nuageux', irrigationDemand },
+        3600,
+      );
+    const served = reservoirWith(2);
+    expect(served.outflows.irrigation).toBe(2);
+    // Même demande, mais le dernier pas n'a rien attribué aux exploitations
+    const rationed = { ...served, outflows: { ...served.outflows, irrigation: 0 } };
+    const forecastOf = (reservoir: typeof served) =>
+      forecastSystem({
+        reservoir,
+        river: createRiverState(0, 0),
+        weather: createWeatherState('nuageux', time),
+        riverInflow: 0,
+        glacierInflow: 0,
+        policy: holdEverything,
+        time,
+      });
+
+    const forecast = forecastOf(rationed);
+
+    expect(forecast).toEqual(forecastOf(served));
+    const finalLevel = ({ points }: typeof forecast) => points[points.length - 1].waterLevel;
+    expect(finalLevel(forecast)).toBeLessThan(finalLevel(forecastOf(reservoirWith(0))));
+  });
+
+  it('should publish a forecast next to the system state and refresh it as time passes', async () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    const issued: number[] = [];
+    const subscription = engine.forecast$.subscribe(({ issuedAt }) => issued.push(issuedAt));
+
+    engine.fastForward(HOUR);
+
+    expect(issued[0]).toBe(waterSystemConfig.SIMULATION_START_TIME);
+    expect(issued.length).toBeGreaterThan(1);
+    const latest = await firstValueFrom(engine.forecast$);
+    expect(latest.issuedAt).toBe(issued[issued.length - 1]);
+    expect(latest.points[0].time).toBe(latest.issuedAt + FORECAST_STEP);
+    subscription.unsubscribe();
+    engine.dispose();
+  });
+});
@@ -0,0 +1,56 @@
+import type { WeatherState } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { createGlacierState, glacierArea, stepGlacier } from '../useGlacierMelt';
+
+const {
+  GLACIER_DEGREE_DAY_FACTOR_ICE,
+  GLACIER_LAPSE_RATE,
+  GLACIER_ELEVATION_ABOVE_STATION,
+  INITIAL_GLACIER_VOLUME,
+} = waterSystemConfig;
+
+// Température de la station donnant la température voulue à l'altitude du glacier
+const weatherAt = (glacierTemperature: number, precipitation = 0): WeatherState => ({
+  condition: precipitation > 0 ? 'pluvieux' : 'ensoleillé',
+  precipitation,
+  temperature: glacierTemperature + GLACIER_LAPSE_RATE * GLACIER_ELEVATION_ABOVE_STATION,
+  humidity: 60,
+  windSpeed: 3,
+});
+
+describe('useGlacierMelt - modèle degré-jour', () => {
+  it('should melt bare ice in proportion to positive degree-days and glacier area', () => {
+    const glacier = createGlacierState(INITIAL_GLACIER_VOLUME);
+
+    const next = stepGlacier(glacier, weatherAt(5), 86400);
+
+    const expectedMelt = ((GLACIER_DEGREE_DAY_FACTOR_ICE * 5) / 1000) * glacier.area;
+    expect(glacier.volume - next.volume).toBeCloseTo(expectedMelt, 6);
+    expect(next.meltRate).toBeCloseTo(expectedMelt / 86400, 9);
+    expect(next.area).toBeLessThan(glacier.area);
+    expect(next.area).toBeCloseTo(glacierArea(next.volume), 6);
+  });
+
+  it('should accumulate snow when cold and melt it before the ice', () => {
+    const glacier = createGlacierState(INITIAL_GLACIER_VOLUME);
+
+    const snowy = stepGlacier(glacier, weatherAt(-5, 2), 3600);
+    expect(snowy.snowpack).toBeCloseTo(2, 9);
+    expect(snowy.volume).toBe(glacier.volume);
+    expect(snowy.waterFlow).toBe(0);
+
+    const thaw = stepGlacier(snowy, weatherAt(3), 3600);
+    expect(thaw.snowpack).toBeLessThan(snowy.snowpack);
+    expect(thaw.volume).toBe(glacier.volume);
+  });
+
+  it('should route rain above the snow threshold straight to the outflow', () => {
+    const glacier = createGlacierState(INITIAL_GLACIER_VOLUME);
+
+    const next = stepGlacier(glacier, weatherAt(2, 4), 3600);
+
+    expect(next.snowpack).toBe(0);
+    expect(next.waterFlow - next.meltRate).toBeCloseTo(((4 / 1000) * glacier.area) / 3600, 9);
+  });
+});
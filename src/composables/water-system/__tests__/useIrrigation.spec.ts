@@ -0,0 +1,142 @@
+import type { WeatherState } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import {
+  createIrrigationState,
+  cropDevelopment,
+  referenceEvapotranspiration,
+  stepIrrigation,
+} from '../useIrrigation';
+
+const { IRRIGATION_APPLICATION_RATE, IRRIGATION_FIELDS, IRRIGATION_SUNNIEST_DAY } =
+  waterSystemConfig;
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const JULY = Date.UTC(2024, 6, 1);
+const hot: WeatherState = {
+  condition: 'ensoleillé',
+  precipitation: 0,
+  temperature: 30,
+  humidity: 60,
+  windSpeed: 2,
+};
+
+describe('useIrrigation - irrigation des parcelles', () => {
+  it('should derive the reference evapotranspiration from the weather and the crop stage from the calendar', () => {
+    const solstice = Date.UTC(2024, 0, 1) + IRRIGATION_SUNNIEST_DAY * DAY;
+    expect(referenceEvapotranspiration(hot, solstice)).toBeCloseTo(
+      (0.0135 * (30 + 17.8) * 28) / 2.45,
+      12,
+    );
+    expect(referenceEvapotranspiration({ ...hot, condition: 'nuageux' }, solstice)).toBeLessThan(
+      referenceEvapotranspiration(hot, solstice),
+    );
+    expect(
+      referenceEvapotranspiration({ ...hot, windSpeed: 8, humidity: 30 }, solstice),
+    ).toBeGreaterThan(referenceEvapotranspiration(hot, solstice));
+    expect(referenceEvapotranspiration(hot, Date.UTC(2024, 0, 1))).toBeLessThan(
+      referenceEvapotranspiration(hot, solstice) / 3,
+    );
+
+    // Maïs semé le 120e jour : 25 jours d'installation, 40 de croissance, puis la mi-saison
+    const maize = IRRIGATION_FIELDS[0];
+    expect(maize.crop).toBe('maize');
+    expect(cropDevelopment(maize, Date.UTC(2024, 0, 1))).toEqual({
+      stage: null,
+      cropCoefficient: 0,
+    });
+    const sown = Date.UTC(2024, 0, 1) + maize.plantingDay * DAY;
+    expect(cropDevelopment(maize, sown + 5 * DAY)).toEqual({
+      stage: 'initial',
+      cropCoefficient: 0.3,
+    });
+    expect(cropDevelopment(maize, sown + 45 * DAY).stage).toBe('development');
+    expect(cropDevelopment(maize, sown + 45 * DAY).cropCoefficient).toBeCloseTo(0.75, 12);
+    expect(cropDevelopment(maize, sown + 80 * DAY)).toEqual({ stage: 'mid', cropCoefficient: 1.2 });
+  });
+
+  it('should irrigate a field below its threshold until its soil is back to capacity', () => {
+    const initial = createIrrigationState(JULY);
+    const gardens = IRRIGATION_FIELDS.findIndex(({ id }) => id === 'market-gardens');
+    const flow = (IRRIGATION_APPLICATION_RATE / 1000 / 3600) * IRRIGATION_FIELDS[gardens].area;
+    expect(initial.demand).toBe(0);
+
+    // Une journée chaude et sèche fait passer la réserve des maraîchers sous le seuil
+    const dry = { time: JULY + DAY, weather: hot, raw: 0, recycled: 0 };
+    const triggered = stepIrrigation(initial, { ...dry, limit: 1 }, 24 * 3600);
+    expect(triggered.fields[gardens].irrigating).toBe(true);
+    expect(triggered.fields[gardens].soilMoisture).toBeLessThan(
+      initial.fields[gardens].soilMoisture,
+    );
+    expect(triggered.demand).toBeCloseTo(flow, 12);
+    expect(stepIrrigation(initial, { ...dry, limit: 0.5 }, 24 * 3600).demand).toBeCloseTo(
+      flow / 2,
+      12,
+    );
+
+    let state = triggered;
+    let hours = 0;
+    while (state.fields[gardens].irrigating && hours < 100) {
+      hours += 1;
+      state = stepIrrigation(
+        state,
+        { time: JULY + DAY + hours * HOUR, weather: hot, raw: 0, recycled: state.demand, limit: 1 },
+        3600,
+      );
+    }
+    expect(hours).toBeGreaterThan(1);
+    expect(hours).toBeLessThan(100);
+    expect(state.fields[gardens].soilMoisture).toBe(state.fields[gardens].soilCapacity);
+    expect(state.fields[gardens].delivered).toBeCloseTo(flow, 12);
+    expect(state.fields[gardens].stress).toBe(0);
+    expect(state.volume).toBeCloseTo(flow * hours * 3600, 3);
+
+    // Sans eau, la réserve s'épuise : le stress réduit la transpiration de la culture
+    let stressed = triggered;
+    for (let day = 2; day < 20; day++) {
+      stressed = stepIrrigation(
+        stressed,
+        { time: JULY + day * DAY, weather: hot, raw: 0, recycled: 0, limit: 1 },
+        24 * 3600,
+      );
+    }
+    const field = stressed.fields[gardens];
+    expect(field.stress).toBeGreaterThan(0.5);
+    expect(field.evapotranspiration).toBeLessThan(
+      field.cropCoefficient * stressed.referenceEvapotranspiration,
+    );
+  });
+
+  it('should supply the fields with recycled then raw water during a dry summer while conserving water', () => {
+    const summer = { ...waterSystemConfig, SIMULATION_START_TIME: JULY };
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(7, summer), summer);
+    let unaccounted = 0;
+    const supplied = new Map<string, number>();
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      for (const { from, to, volume } of report.transfers) {
+        if (to === 'irrigation') supplied.set(from, (supplied.get(from) ?? 0) + volume);
+      }
+    });
+    engine.loadTimeSeries([{ time: 0, precipitation: 0, temperature: 32 }]);
+
+    const state = engine.runDays(8);
+
+    expect(unaccounted).toBe(0);
+    expect(supplied.get('wastewater')).toBeGreaterThan(0);
+    expect(supplied.get('dam')).toBeGreaterThan(0);
+    // L'eau potable n'est jamais utilisée pour l'irrigation
+    expect(supplied.has('purification')).toBe(false);
+    // L'eau réutilisée sur le dernier tick n'est appliquée aux parcelles qu'au tick suivant
+    const total = (supplied.get('wastewater') ?? 0) + (supplied.get('dam') ?? 0);
+    expect(state.irrigationWater).toBeLessThanOrEqual(total);
+    expect(state.irrigationWater).toBeGreaterThan(total * 0.99);
+    expect(state.referenceEvapotranspiration).toBeGreaterThan(5);
+    expect(state.irrigationFields.every(({ stage }) => stage !== null)).toBe(true);
+
+    engine.reset();
+    expect(engine.runDays(0.1).irrigationWater).toBe(0);
+    engine.dispose();
+  });
+});
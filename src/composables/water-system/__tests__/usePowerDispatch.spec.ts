@@ -0,0 +1,128 @@
+import type { DispatchReport, PowerPlantState, ReservoirState } from '@/types/waterSystem';
+import { createRuleCurvePolicy } from '@/utils/operatingPolicy';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { NEVER, Subject } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { useAlertSystem } from '../useAlertSystem';
+import { createReservoirState, volumeFromLevel } from '../useDamManagement';
+import { createDispatchPolicy, electricityDemand, usePowerDispatch } from '../usePowerDispatch';
+
+const curve = waterSystemConfig.DAM_STAGE_STORAGE_CURVE;
+
+describe('usePowerDispatch - demande électrique et dispatching', () => {
+  it('should follow the hourly and weekly demand profiles', () => {
+    const mondayNight = electricityDemand(Date.UTC(2024, 0, 1, 3));
+    const mondayEvening = electricityDemand(Date.UTC(2024, 0, 1, 18));
+    const sundayEvening = electricityDemand(Date.UTC(2024, 0, 7, 18));
+
+    expect(mondayEvening).toBe(waterSystemConfig.ELECTRICITY_DEMAND_PEAK);
+    expect(mondayNight).toBeLessThan(mondayEvening);
+    expect(sundayEvening).toBeLessThan(mondayEvening);
+  });
+
+  it('should turbine only what the demand needs, within what the rule curves allow', () => {
+    const policy = createDispatchPolicy(createRuleCurvePolicy(), 1);
+    const night = Date.UTC(2024, 0, 1, 3);
+    const decide = (level: number) =>
+      policy({
+        state: createReservoirState(volumeFromLevel(curve, level)),
+        weather: 'ensoleillé',
+        time: night,
+      });
+
+    const conservation = decide(70);
+    expect(conservation.turbines).toBeGreaterThan(0);
+    expect(conservation.turbines).toBeLessThan(waterSystemConfig.DAM_TURBINE_RELEASE);
+    expect(decide(5).turbines).toBe(0);
+    expect(decide(99).turbines).toBe(waterSystemConfig.DAM_TURBINE_RELEASE);
+  });
+
+  it('should count the whole spill of its own reservoir for each of several plants', () => {
+    // Deux barrages équipés chacun d'une centrale identique : chaque centrale sert la moitié de
+    // la demande, mais toute l'eau évacuée par les vannes de son barrage lui revient
+    const deps = createWaterSystemDependencies(7);
+    const { WATER_DENSITY, GRAVITY, POWER_DISPATCH_EFFICIENCY, POWER_PLANT_UNITS } =
+      waterSystemConfig;
+    const plant: PowerPlantState = {
+      units: [],
+      netHead: 100,
+      flow: 0,
+      bypass: 0,
+      power: 0,
+      energy: 0,
+      duration: 3600,
+    };
+    const spilling: ReservoirState = {
+      ...createReservoirState(volumeFromLevel(curve, 99)),
+      outflows: { ...createReservoirState(0).outflows, spillway: 8, outlet: 2 },
+      duration: 3600,
+    };
+    const reports = [0.5, 0.5].map((demandShare) => {
+      const hydropower$ = new Subject<PowerPlantState>();
+      const reservoir$ = new Subject<ReservoirState>();
+      let report: DispatchReport | undefined;
+      usePowerDispatch(hydropower$, reservoir$, demandShare, 1, deps).dispatch$.subscribe(
+        (value) => {
+          report = value;
+        },
+      );
+      hydropower$.next(plant);
+      reservoir$.next(spilling);
+      return report as DispatchReport;
+    });
+
+    const capacity = POWER_PLANT_UNITS.reduce((acc, { ratedFlow }) => acc + ratedFlow, 0);
+    const spilled =
+      (WATER_DENSITY * GRAVITY * Math.min(10, capacity) * 100 * POWER_DISPATCH_EFFICIENCY) / 1e6;
+    for (const report of reports) {
+      expect(report.spilledEnergy).toBeCloseTo(spilled, 9);
+      expect(report.demand).toBeCloseTo(electricityDemand(deps.getCurrentTime() - 3600e3) / 2, 9);
+    }
+  });
+
+  it('should raise the unmet demand alerts at the thresholds of the injected configuration', () => {
+    const config = {
+      ...waterSystemConfig,
+      POWER_UNMET_DEMAND_TOLERANCE: 0.3,
+      POWER_UNMET_DEMAND_CRITICAL: 0.5,
+    };
+    const powerDispatch$ = new Subject<DispatchReport>();
+    const { alerts, alertSystem$ } = useAlertSystem(
+      { dam$: NEVER, powerDispatch$ },
+      createWaterSystemDependencies(1, config),
+      config,
+    );
+    const subscription = alertSystem$.subscribe();
+    const report = (unmet: number) =>
+      powerDispatch$.next({
+        demand: 10,
+        generation: 10 - unmet,
+        unmet,
+        unmetEnergy: 0,
+        spilledEnergy: 0,
+      });
+
+    report(2.5);
+    expect(alerts.value).toHaveLength(0);
+    report(4);
+    expect(alerts.value.map(({ priority }) => priority)).toEqual(['medium']);
+    report(6);
+    expect(alerts.value[0]).toMatchObject({
+      priority: 'high',
+      message: 'Alerte : Demande électrique largement non satisfaite (plus de 50%)',
+    });
+    subscription.unsubscribe();
+  });
+
+  it('should report the demand served by the engine over a simulated day', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(7));
+    engine.runDays(1);
+
+    const { electricityDemand: demand, powerOutput, unmetDemand } = engine.state;
+    expect(demand).toBeGreaterThan(0);
+    expect(powerOutput).toBeGreaterThan(0);
+    expect(unmetDemand).toBeLessThan(demand * waterSystemConfig.POWER_UNMET_DEMAND_TOLERANCE);
+    engine.dispose();
+  });
+});
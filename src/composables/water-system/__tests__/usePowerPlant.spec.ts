@@ -0,0 +1,52 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { createPowerPlantState, stepPowerPlant } from '../usePowerPlant';
+
+const { POWER_PLANT_UNITS, POWER_PLANT_MIN_RUN_TIME, POWER_PLANT_TAILWATER_ELEVATION } =
+  waterSystemConfig;
+
+describe('usePowerPlant - modèle hydroélectrique', () => {
+  it('should compute power from flow, net head and unit efficiency', () => {
+    const state = stepPowerPlant(
+      createPowerPlantState(POWER_PLANT_UNITS),
+      { flow: 20, elevation: 1550 },
+      3600,
+    );
+
+    const [unit] = state.units;
+    expect(state.units.map(({ running }) => running)).toEqual([true, false]);
+    expect(state.netHead).toBeLessThan(1550 - POWER_PLANT_TAILWATER_ELEVATION);
+    expect(state.power).toBeCloseTo((1000 * 9.81 * 20 * state.netHead * unit.efficiency) / 1e6, 9);
+    // Sur une heure, l'énergie en MWh vaut la puissance en MW
+    expect(state.energy).toBeCloseTo(state.power, 9);
+    expect(state.bypass).toBe(0);
+  });
+
+  it('should produce more with a higher reservoir', () => {
+    const initial = createPowerPlantState(POWER_PLANT_UNITS);
+
+    const low = stepPowerPlant(initial, { flow: 40, elevation: 1520 }, 60);
+    const high = stepPowerPlant(initial, { flow: 40, elevation: 1555 }, 60);
+
+    expect(high.power).toBeGreaterThan(low.power);
+  });
+
+  it('should keep a started unit running for its minimum run time and bypass flows below minimum', () => {
+    let state = stepPowerPlant(
+      createPowerPlantState(POWER_PLANT_UNITS),
+      { flow: 40, elevation: 1550 },
+      60,
+    );
+    expect(state.units.every(({ running }) => running)).toBe(true);
+
+    // Le débit chute sous le minimum technique : les groupes restent couplés jusqu'à leur durée minimale
+    state = stepPowerPlant(state, { flow: 4, elevation: 1550 }, 60);
+    expect(state.units.every(({ running }) => running)).toBe(true);
+
+    state = stepPowerPlant(state, { flow: 4, elevation: 1550 }, POWER_PLANT_MIN_RUN_TIME);
+    state = stepPowerPlant(state, { flow: 4, elevation: 1550 }, 60);
+    expect(state.units.some(({ running }) => running)).toBe(false);
+    expect(state.bypass).toBe(4);
+    expect(state.power).toBe(0);
+  });
+});
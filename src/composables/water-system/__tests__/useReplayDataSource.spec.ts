@@ -0,0 +1,69 @@
+import { parseTimeSeriesCsv, parseTimeSeriesJson, sampleTimeSeries } from '@/utils/timeSeries';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+
+const HOUR = 60 * 60 * 1000;
+
+const csv = `# Station amont, année 2019
+time;inflow;precipitation;temperature;consumption
+2019-06-01T00:00:00Z;20;0;12;5
+2019-06-01T01:00:00Z;;2;;
+2019-06-01T02:00:00Z;40;NA;14;7
+`;
+
+describe('useReplayDataSource - rejeu de séries chronologiques', () => {
+  it('should parse CSV and JSON series and interpolate across missing samples', () => {
+    const series = parseTimeSeriesCsv(csv);
+    const start = Date.UTC(2019, 5, 1);
+
+    expect(series).toHaveLength(3);
+    expect(series[1]).toEqual({ time: start + HOUR, precipitation: 2 });
+    // Le débit manquant à 1 h est interpolé entre 0 h et 2 h
+    expect(sampleTimeSeries(series, 'inflow', start + HOUR)).toBe(30);
+    expect(sampleTimeSeries(series, 'inflow', start + 1.5 * HOUR)).toBe(35);
+    // Au-delà du dernier échantillon renseigné, la valeur est maintenue
+    expect(sampleTimeSeries(series, 'precipitation', start + 5 * HOUR)).toBe(2);
+
+    const json = parseTimeSeriesJson(
+      JSON.stringify([
+        { time: start + HOUR, inflow: 10 },
+        { time: start, inflow: 0, temperature: null },
+      ]),
+    );
+    expect(json.map(({ time }) => time)).toEqual([start, start + HOUR]);
+    expect(json[0].temperature).toBeUndefined();
+  });
+
+  it('should reject a series without a time column', () => {
+    expect(() => parseTimeSeriesCsv('inflow,temperature\n10,5')).toThrow();
+  });
+
+  it('should drive the engine inputs from the replayed series', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    const start = engine.deps.getCurrentTime();
+    engine.loadTimeSeries([
+      { time: 0, inflow: 0, precipitation: 0, temperature: -20 },
+      { time: 24 * HOUR, inflow: 0, precipitation: 10, temperature: 25 },
+    ]);
+
+    expect(engine.isReplaying).toBe(true);
+    const state = engine.fastForward(12 * HOUR);
+
+    expect(engine.deps.getCurrentTime()).toBe(start + 12 * HOUR);
+    expect(state.temperature).toBeCloseTo(2.5, 6);
+    expect(state.precipitation).toBeCloseTo(5, 6);
+    expect(state.weatherCondition).toBe('pluvieux');
+
+    // Le passage en mode manuel suspend le rejeu sans le ramener au début de la série
+    engine.toggleManualMode();
+    engine.toggleManualMode();
+    expect(engine.fastForward(6 * HOUR).temperature).toBeCloseTo(13.75, 6);
+    // La remise à zéro, elle, reprend la série depuis son premier échantillon
+    engine.reset();
+    expect(engine.fastForward(6 * HOUR).temperature).toBeCloseTo(-8.75, 6);
+
+    engine.clearTimeSeries();
+    expect(engine.isReplaying).toBe(false);
+    engine.dispose();
+  });
+});
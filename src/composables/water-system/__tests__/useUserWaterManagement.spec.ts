@@ -0,0 +1,115 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { createWaterDemandState, segmentDemands, stepWaterDemand } from '../useUserWaterManagement';
+
+const { DEMAND_SEGMENTS, DEMAND_REFERENCE_TEMPERATURE, SIMULATION_START_TIME } = waterSystemConfig;
+const HOUR = 60 * 60 * 1000;
+// Lundi 1er janvier 2024, minuit (UTC)
+const MONDAY = Date.UTC(2024, 0, 1);
+
+describe('useUserWaterManagement - demande des usagers', () => {
+  it('should shape each segment by hour, weekday, growth and heat', () => {
+    const night = segmentDemands(MONDAY + 3 * HOUR, DEMAND_REFERENCE_TEMPERATURE);
+    const morning = segmentDemands(MONDAY + 7 * HOUR, DEMAND_REFERENCE_TEMPERATURE);
+    expect(morning.residential).toBeGreaterThan(night.residential);
+    // La demande agricole n'a pas de profil : c'est celle des exploitations
+    expect(morning).not.toHaveProperty('agricultural');
+    expect(morning.residential).toBeCloseTo(
+      DEMAND_SEGMENTS.residential.baseDemand *
+        DEMAND_SEGMENTS.residential.hourlyProfile[7] *
+        DEMAND_SEGMENTS.residential.weeklyProfile[1],
+      4,
+    );
+
+    const sunday = segmentDemands(MONDAY - 17 * HOUR, DEMAND_REFERENCE_TEMPERATURE);
+    const weekday = segmentDemands(MONDAY + 7 * HOUR, DEMAND_REFERENCE_TEMPERATURE);
+    expect(sunday.commercial).toBeLessThan(weekday.commercial);
+
+    // Même heure et même jour de la semaine, 52 semaines plus tard
+    const weeks = 52 * 7 * 24 * HOUR;
+    const grown = segmentDemands(
+      SIMULATION_START_TIME + 7 * HOUR + weeks,
+      DEMAND_REFERENCE_TEMPERATURE,
+    );
+    expect(grown.residential).toBeCloseTo(
+      morning.residential *
+        (1 + DEMAND_SEGMENTS.residential.growthRate) ** (weeks / (365.25 * 24 * HOUR)),
+      12,
+    );
+
+    const cold = segmentDemands(MONDAY + 7 * HOUR, DEMAND_REFERENCE_TEMPERATURE - 15);
+    const hot = segmentDemands(MONDAY + 7 * HOUR, DEMAND_REFERENCE_TEMPERATURE + 10);
+    expect(cold).toEqual(morning);
+    expect(hot.residential).toBeCloseTo(
+      morning.residential * (1 + 10 * DEMAND_SEGMENTS.residential.temperatureSensitivity),
+      12,
+    );
+  });
+
+  it('should rescale the generated demand to a measured consumption and accumulate the volume', () => {
+    const initial = createWaterDemandState(MONDAY);
+    const inputs = {
+      time: MONDAY + HOUR,
+      temperature: DEMAND_REFERENCE_TEMPERATURE,
+      irrigation: 0.4,
+    };
+    const factors = { residential: 1, commercial: 1, industrial: 1 };
+    expect(initial.segments.agricultural).toBe(0);
+
+    // Le segment agricole reprend la demande des exploitations
+    const generated = stepWaterDemand(initial, { ...inputs, measured: null, factors }, 3600);
+    expect(generated.segments.agricultural).toBe(0.4);
+    expect(generated.total).toBeCloseTo(generated.drinkingWater + 0.4, 12);
+    expect(generated.volume).toBeCloseTo(generated.total * 3600, 6);
+
+    // La mesure remplace la seule demande en eau potable
+    const measured = stepWaterDemand(initial, { ...inputs, measured: 5, factors }, 3600);
+    expect(measured.drinkingWater).toBeCloseTo(5, 12);
+    expect(measured.segments.agricultural).toBe(0.4);
+    expect(measured.segments.residential / measured.drinkingWater).toBeCloseTo(
+      generated.segments.residential / generated.drinkingWater,
+      12,
+    );
+    expect(measured.volume).toBeCloseTo(5.4 * 3600, 6);
+
+    // Les facteurs s'appliquent segment par segment, après le recalage sur la mesure
+    const restricted = stepWaterDemand(
+      initial,
+      { ...inputs, measured: 5, factors: { ...factors, industrial: 0.5 } },
+      3600,
+    );
+    expect(restricted.segments.residential).toBe(measured.segments.residential);
+    expect(restricted.segments.industrial).toBeCloseTo(measured.segments.industrial / 2, 12);
+    expect(restricted.segments.agricultural).toBe(0.4);
+  });
+
+  it('should drive the district demand on the simulation clock while conserving water', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    let unaccounted = 0;
+    const centre: number[] = [];
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+    });
+    engine.state$.subscribe(({ distributionDistricts }) => {
+      if (distributionDistricts[0].demand > 0) centre.push(distributionDistricts[0].demand);
+    });
+
+    const state = engine.runDays(1);
+
+    expect(unaccounted).toBe(0);
+    expect(Math.max(...centre)).toBeGreaterThan(Math.min(...centre) * 1.5);
+    expect(state.userConsumption).toBeGreaterThan(0);
+    expect(state.waterDemand).toBeCloseTo(
+      Object.values(state.waterDemandSegments).reduce((acc, demand) => acc + demand, 0),
+      12,
+    );
+
+    // Une consommation enregistrée remplace la demande en eau potable générée (aucune irrigation en hiver)
+    engine.loadTimeSeries([{ time: 0, consumption: 3 }]);
+    expect(engine.fastForward(HOUR).waterDemand).toBeCloseTo(3, 12);
+    engine.clearTimeSeries();
+    expect(engine.fastForward(HOUR).waterDemand).not.toBeCloseTo(3, 3);
+    engine.dispose();
+  });
+});
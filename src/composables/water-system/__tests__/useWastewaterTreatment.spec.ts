@@ -0,0 +1,125 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import {
+  createWastewaterPlantState,
+  meetsLimits,
+  stepWastewaterPlant,
+} from '../useWastewaterTreatment';
+
+const {
+  WASTEWATER_CAPACITY,
+  WASTEWATER_DESIGN_FLOW,
+  WASTEWATER_REUSE_CAPACITY,
+  WASTEWATER_REUSE_LIMITS,
+  WASTEWATER_SEWAGE_QUALITY,
+} = waterSystemConfig;
+const HOUR = 60 * 60;
+
+describe('useWastewaterTreatment - station d’épuration', () => {
+  it('should treat dry-weather sewage and spill the storm flow above the hydraulic capacity', () => {
+    const plant = createWastewaterPlantState();
+
+    const dry = stepWastewaterPlant(plant, { sewage: 1, precipitation: 0 }, HOUR);
+    expect(dry.stormwater).toBe(0);
+    expect(dry.treated).toBe(1);
+    expect(dry.overflow).toBe(0);
+    expect(dry.influentQuality).toEqual(WASTEWATER_SEWAGE_QUALITY);
+    expect(dry.compliant).toBe(true);
+    expect(dry.volume).toBe(HOUR);
+
+    const storm = stepWastewaterPlant(dry, { sewage: 1, precipitation: 10 }, HOUR);
+    expect(storm.stormwater).toBeGreaterThan(WASTEWATER_CAPACITY);
+    expect(storm.treated).toBe(WASTEWATER_CAPACITY);
+    expect(storm.overflow).toBeCloseTo(storm.inflow - WASTEWATER_CAPACITY, 12);
+    expect(storm.overflowVolume).toBeCloseTo(storm.overflow * HOUR, 6);
+    // Les eaux pluviales diluent les eaux usées
+    expect(storm.influentQuality.bod).toBeLessThan(WASTEWATER_SEWAGE_QUALITY.bod);
+    expect(storm.treated + storm.overflow).toBeCloseTo(storm.sewage + storm.stormwater, 12);
+  });
+
+  it('should reuse treated water for irrigation only while it meets the reuse limits', () => {
+    const plant = createWastewaterPlantState();
+
+    const dry = stepWastewaterPlant(plant, { sewage: 1, precipitation: 0 }, HOUR);
+    expect(dry.reused).toBe(WASTEWATER_REUSE_CAPACITY);
+    expect(dry.discharged).toBeCloseTo(1 - WASTEWATER_REUSE_CAPACITY, 12);
+    // Seule l'eau demandée par les parcelles est réutilisée
+    const requested = stepWastewaterPlant(
+      plant,
+      { sewage: 1, precipitation: 0, reuseDemand: 0.05 },
+      HOUR,
+    );
+    expect(requested.reused).toBe(0.05);
+    expect(requested.discharged).toBeCloseTo(0.95, 12);
+
+    // Une station surchargée par temps sec raccourcit le temps de séjour et dégrade son rejet
+    const overloaded = stepWastewaterPlant(
+      plant,
+      { sewage: WASTEWATER_CAPACITY, precipitation: 0 },
+      HOUR,
+    );
+    expect(WASTEWATER_CAPACITY).toBeGreaterThan(WASTEWATER_DESIGN_FLOW);
+    expect(overloaded.effluentQuality.bod).toBeGreaterThan(dry.effluentQuality.bod);
+    // Le rejet reste conforme pour la rivière, mais pas pour l'irrigation
+    expect(overloaded.compliant).toBe(true);
+    expect(meetsLimits(overloaded.effluentQuality, WASTEWATER_REUSE_LIMITS)).toBe(false);
+    expect(overloaded.reused).toBe(0);
+    expect(overloaded.discharged).toBe(overloaded.treated);
+  });
+
+  it('should treat only the parameters of the injected configuration', () => {
+    const { phosphorus, ...tracked } = WASTEWATER_SEWAGE_QUALITY;
+    const config = {
+      ...waterSystemConfig,
+      WASTEWATER_SEWAGE_QUALITY: tracked as typeof WASTEWATER_SEWAGE_QUALITY,
+    };
+
+    const plant = stepWastewaterPlant(
+      createWastewaterPlantState(config),
+      { sewage: 1, precipitation: 0 },
+      HOUR,
+      config,
+    );
+
+    expect(Object.keys(plant.effluentQuality)).toEqual(Object.keys(tracked));
+    expect(Object.values(plant.effluentQuality).every(Number.isFinite)).toBe(true);
+    expect(plant.compliant).toBe(true);
+    expect(plant.reused).toBeGreaterThan(0);
+  });
+
+  it('should treat the water returned by consumers and spill during a storm while conserving water', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    let unaccounted = 0;
+    let transfers = new Set<string>();
+    let maxOverflow = 0;
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      transfers = new Set([
+        ...transfers,
+        ...report.transfers.map(({ from, to }) => `${from}→${to}`),
+      ]);
+    });
+    engine.state$.subscribe(({ sewerOverflow }) => {
+      maxOverflow = Math.max(maxOverflow, sewerOverflow);
+    });
+    engine.loadScenario({
+      name: 'Orage',
+      durationDays: 2,
+      events: [{ type: 'storm', day: 1, precipitation: 80, durationHours: 8 }],
+    });
+
+    const state = engine.runDays(2);
+
+    expect(unaccounted).toBe(0);
+    expect(state.treatedWastewater).toBeGreaterThan(0);
+    expect(transfers).toContain('distribution→wastewater');
+    expect(transfers).toContain('atmosphere→wastewater');
+    expect(transfers).toContain('wastewater→downstream');
+    expect(maxOverflow).toBeGreaterThan(0);
+    expect(engine.alerts.value.map(({ message }) => message)).toContain(
+      "Alerte : Déversement d'eaux usées non traitées par le déversoir d'orage",
+    );
+    engine.dispose();
+  });
+});
@@ -0,0 +1,205 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import {
+  createReservoirState,
+  riverRelease,
+  stepReservoir,
+  totalOutflow,
+  volumeFromLevel,
+} from '../useDamManagement';
+import {
+  allocateWater,
+  createWaterAllocationState,
+  supplyRatio,
+  waterUseRequests,
+} from '../useWaterAllocation';
+
+const {
+  DAM_ENVIRONMENTAL_FLOW,
+  DAM_STAGE_STORAGE_CURVE,
+  DEMAND_SEGMENTS,
+  WATER_ALLOCATION_RIGHTS,
+} = waterSystemConfig;
+
+describe('useWaterAllocation - répartition de l’eau en pénurie', () => {
+  it('should serve the uses by priority, within their water rights', () => {
+    const requests = waterUseRequests({
+      purification: 2,
+      turbines: 50,
+      irrigation: 3,
+      environment: 0.5,
+    });
+    const industrialShare =
+      DEMAND_SEGMENTS.industrial.baseDemand /
+      (DEMAND_SEGMENTS.residential.baseDemand +
+        DEMAND_SEGMENTS.commercial.baseDemand +
+        DEMAND_SEGMENTS.industrial.baseDemand);
+    expect(requests.industry).toBeCloseTo(2 * industrialShare, 12);
+    expect(requests.drinkingWater + requests.industry).toBe(2);
+
+    // Ressource abondante : chaque usage reçoit sa demande, plafonnée par son droit d'eau
+    const plenty = allocateWater(1000, requests);
+    expect(plenty.uses.irrigation.allocation).toBe(3);
+    expect(plenty.uses.hydropower.allocation).toBe(WATER_ALLOCATION_RIGHTS.hydropower.right);
+    expect(plenty.uses.hydropower.deficit).toBe(50 - WATER_ALLOCATION_RIGHTS.hydropower.right);
+
+    // Ressource limitée : le premier rang se partage l'eau au prorata, les suivants n'ont rien
+    const scarce = allocateWater(1.25, requests);
+    expect(scarce.uses.drinkingWater.allocation + scarce.uses.environment.allocation).toBeCloseTo(
+      1.25,
+      12,
+    );
+    expect(supplyRatio(scarce, 'drinkingWater')).toBeCloseTo(
+      supplyRatio(scarce, 'environment'),
+      12,
+    );
+    expect(scarce.uses.industry.allocation).toBe(0);
+    expect(scarce.uses.irrigation.deficit).toBe(3);
+    expect(supplyRatio(scarce, 'irrigation')).toBe(0);
+    expect(scarce.deficit).toBeCloseTo(2 + 3 + 50 + 0.5 - 1.25, 12);
+
+    // Entre deux rangs : l'industrie est servie, l'irrigation reçoit le reste
+    const partial = allocateWater(requests.drinkingWater + 0.5 + requests.industry + 1, requests);
+    expect(supplyRatio(partial, 'industry')).toBe(1);
+    expect(partial.uses.irrigation.allocation).toBeCloseTo(1, 12);
+    expect(partial.uses.hydropower.allocation).toBe(0);
+    expect(supplyRatio(partial, 'hydropower')).toBe(0);
+  });
+
+  it('should read the rights and the demand segments from the injected configuration', () => {
+    // L'irrigation passe avant l'industrie, qui n'a plus de droit d'eau
+    const config = {
+      ...waterSystemConfig,
+      WATER_ALLOCATION_RIGHTS: {
+        ...WATER_ALLOCATION_RIGHTS,
+        industry: { priority: 3, right: 0 },
+        irrigation: { priority: 2, right: 4 },
+      },
+    };
+    const requests = waterUseRequests(
+      { purification: 2, turbines: 0, irrigation: 3, environment: 0.5 },
+      config,
+    );
+    const allocation = allocateWater(requests.drinkingWater + 0.5 + 1, requests, config);
+    expect(allocation.uses.irrigation).toMatchObject({ priority: 2, allocation: 1 });
+    expect(allocation.uses.industry.allocation).toBe(0);
+    expect(allocateWater(1000, requests, config).uses.industry.deficit).toBe(requests.industry);
+    expect(Object.keys(createWaterAllocationState(config).uses)).toEqual(
+      Object.keys(WATER_ALLOCATION_RIGHTS),
+    );
+
+    // Sans demande de référence, toute l'eau potabilisée revient à l'eau potable
+    const noDrinkingWater = {
+      ...waterSystemConfig,
+      DEMAND_SEGMENTS: {
+        ...DEMAND_SEGMENTS,
+        residential: { ...DEMAND_SEGMENTS.residential, baseDemand: 0 },
+        commercial: { ...DEMAND_SEGMENTS.commercial, baseDemand: 0 },
+        industrial: { ...DEMAND_SEGMENTS.industrial, baseDemand: 0 },
+      },
+    };
+    const empty = waterUseRequests(
+      { purification: 2, turbines: 0, irrigation: 0, environment: 0 },
+      noDrinkingWater,
+    );
+    expect(empty).toMatchObject({ drinkingWater: 2, industry: 0 });
+  });
+
+  it('should allocate only the water above the dead storage while conserving water', () => {
+    const deadStorage = volumeFromLevel(DAM_STAGE_STORAGE_CURVE, 15);
+    const low = createReservoirState(deadStorage + 4000);
+    const seconds = 3600;
+
+    const next = stepReservoir(
+      low,
+      { riverInflow: 0, glacierInflow: 0, weather: 'nuageux', irrigationDemand: 2 },
+      seconds,
+    );
+
+    const { uses, supply } = next.allocation;
+    expect(supply).toBeLessThan(4000 / seconds);
+    expect(uses.drinkingWater.allocation + uses.environment.allocation).toBeCloseTo(supply, 9);
+    expect(uses.irrigation).toEqual({ priority: 3, request: 2, allocation: 0, deficit: 2 });
+    expect(next.outflows.irrigation).toBe(0);
+    expect(next.outflows.environment).toBe(uses.environment.allocation);
+    expect(next.outflows.purification).toBeCloseTo(
+      uses.drinkingWater.allocation + uses.industry.allocation,
+      12,
+    );
+    expect(next.volume).toBeCloseTo(deadStorage, 3);
+    expect(low.volume - next.volume).toBeCloseTo(totalOutflow(next.outflows) * seconds, 3);
+
+    // Au-dessus du culot mort, le débit réservé rejoint la rivière en aval
+    const normal = stepReservoir(
+      createReservoirState(volumeFromLevel(DAM_STAGE_STORAGE_CURVE, 60)),
+      { riverInflow: 10, glacierInflow: 0, weather: 'nuageux' },
+      seconds,
+    );
+    expect(normal.allocation.deficit).toBe(0);
+    expect(normal.outflows.environment).toBe(DAM_ENVIRONMENTAL_FLOW);
+    expect(riverRelease(normal.outflows)).toBe(
+      normal.outflows.turbines + normal.outflows.environment,
+    );
+  });
+
+  it('should ration the uses of a reservoir at its dead storage and curtail industry first', () => {
+    const config = {
+      ...waterSystemConfig,
+      INITIAL_DAM_WATER_LEVEL: 16,
+      SIMULATION_START_TIME: Date.UTC(2024, 6, 1),
+    };
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(7, config), config);
+    let unaccounted = 0;
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+    });
+    engine.loadScenario({
+      name: 'Pénurie',
+      durationDays: 3,
+      events: [{ type: 'drought', day: 0, durationDays: 3, inflowFactor: 0 }],
+    });
+
+    const served = engine.runDays(1);
+    expect(served.allocationDeficit).toBe(0);
+    expect(served.waterAllocations.environment.allocation).toBe(DAM_ENVIRONMENTAL_FLOW);
+
+    const state = engine.runDays(2);
+    expect(unaccounted).toBe(0);
+    expect(state.allocationDeficit).toBeGreaterThan(0);
+    expect(state.waterAllocations.drinkingWater.deficit).toBeGreaterThan(0);
+    expect(state.waterAllocations.industry.allocation).toBe(0);
+    expect(state.waterDemandSegments.industrial).toBe(0);
+    expect(state.waterDemandSegments.residential).toBeGreaterThan(0);
+    expect(engine.alerts.value.map(({ message }) => message)).toContain(
+      "Alerte : Pénurie d'eau, eau potable rationnée",
+    );
+    engine.dispose();
+  });
+  it('should combine the drought restrictions with the industry allocation of the engine', () => {
+    // Sans droit d'eau, l'industrie n'est jamais servie, même quand la retenue est pleine
+    const config = {
+      ...waterSystemConfig,
+      WATER_ALLOCATION_RIGHTS: {
+        ...WATER_ALLOCATION_RIGHTS,
+        industry: { ...WATER_ALLOCATION_RIGHTS.industry, right: 0 },
+      },
+    };
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(7, config), config);
+    const industrial: number[] = [];
+    engine.state$.subscribe(({ droughtStage, waterDemandSegments }) => {
+      if (droughtStage === null) industrial.push(waterDemandSegments.industrial);
+    });
+
+    const state = engine.runDays(1);
+    engine.dispose();
+
+    expect(state.droughtStage).toBeNull();
+    expect(state.waterAllocations.industry.allocation).toBe(0);
+    expect(state.waterAllocations.industry.deficit).toBeGreaterThan(0);
+    // L'état initial et le premier pas précèdent la première répartition publiée
+    expect(industrial[0]).toBeGreaterThan(0);
+    expect(industrial.slice(2).every((demand) => demand === 0)).toBe(true);
+    expect(state.waterDemandSegments.residential).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { createDistributionNetworkState, stepDistributionNetwork } from '../useWaterDistribution';
+
+const { DISTRIBUTION_DISTRICTS } = waterSystemConfig;
+const HOUR = 60 * 60;
+const demands = DISTRIBUTION_DISTRICTS.map(({ demand }) => demand);
+
+describe('useWaterDistribution - réseau de distribution', () => {
+  it('should serve demand from the tanks when supply stops, then cut the water', () => {
+    let network = createDistributionNetworkState();
+    const pressures: string[] = [];
+    for (let hour = 0; hour < 12; hour++) {
+      network = stepDistributionNetwork(network, { supply: 0, demands }, HOUR);
+      pressures.push(network.districts[0].pressure);
+    }
+
+    expect(pressures[0]).toBe('normal');
+    expect(pressures[pressures.length - 1]).toBe('outage');
+    for (const district of network.districts) {
+      expect(district.tankVolume).toBeCloseTo(0, 6);
+      expect(district.supplied).toBe(0);
+      expect(district.shortfall).toBe(district.demand);
+    }
+    expect(network.shortfall).toBeCloseTo(
+      demands.reduce((acc, demand) => acc + demand, 0),
+      12,
+    );
+  });
+
+  it('should refuse water once the tanks are full and lose a share of the pumped water to leaks', () => {
+    const full = createDistributionNetworkState({
+      ...waterSystemConfig,
+      DISTRIBUTION_INITIAL_TANK_FILL: 1,
+    });
+    const offered = 10 * HOUR;
+
+    const network = stepDistributionNetwork(full, { supply: offered, demands }, HOUR);
+
+    network.districts.forEach((district, i) => {
+      const { leakageRate, tankCapacity } = DISTRIBUTION_DISTRICTS[i];
+      expect(district.supplied).toBeCloseTo(demands[i], 12);
+      expect(district.leakage).toBeCloseTo(
+        (district.supplied * leakageRate) / (1 - leakageRate),
+        12,
+      );
+      expect(district.tankVolume).toBeCloseTo(tankCapacity, 6);
+      expect(district.pressure).toBe('normal');
+    });
+    expect(network.intake).toBeCloseTo(network.supplied + network.leakage, 12);
+    expect(network.rejected).toBeCloseTo(10 - network.intake, 12);
+    expect(network.nonRevenueWater).toBeCloseTo(
+      network.leakage / (network.supplied + network.leakage),
+      12,
+    );
+
+    // Une demande au-delà de la capacité de pompage fait chuter la pression
+    const peak = stepDistributionNetwork(
+      full,
+      { supply: offered, demands: demands.map((demand) => demand * 1.5) },
+      HOUR,
+    );
+    expect(peak.districts.some(({ pressure }) => pressure !== 'normal')).toBe(true);
+    expect(peak.shortfall).toBeGreaterThan(0);
+  });
+
+  it('should run districts on their tanks during a purification outage while conserving water', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+    let unaccounted = 0;
+    let rejected = 0;
+    let outages = 0;
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      rejected += report.rejectedTransfers.length;
+    });
+    engine.state$.subscribe(({ distributionDistricts }) => {
+      outages += distributionDistricts.filter(({ pressure }) => pressure === 'outage').length;
+    });
+    engine.loadScenario({
+      name: 'Arrêt de la station',
+      durationDays: 2,
+      events: [{ type: 'outage', day: 0.5, facility: 'purification', durationHours: 24 }],
+    });
+
+    const state = engine.runDays(2);
+
+    expect(unaccounted).toBe(0);
+    expect(rejected).toBe(0);
+    expect(outages).toBeGreaterThan(0);
+    expect(state.waterDistributed).toBeGreaterThan(0);
+    expect(state.nonRevenueWater).toBeGreaterThan(0);
+    expect(engine.alerts.value.map(({ message }) => message)).toContain(
+      "Alerte : Coupure d'eau (Centre-ville, Quartiers nord, Zone industrielle)",
+    );
+
+    engine.reset();
+    expect(engine.getSnapshot().distributionDistricts[0].tankVolume).toBe(
+      DISTRIBUTION_DISTRICTS[0].tankCapacity * waterSystemConfig.DISTRIBUTION_INITIAL_TANK_FILL,
+    );
+    engine.dispose();
+  });
+});
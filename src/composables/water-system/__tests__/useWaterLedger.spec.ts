@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { useWaterLedger } from '../useWaterLedger';
+import { createMockWaterSystemDependencies } from '../useWaterSystem';
+
+const tick = { index: 1, time: 1000, dt: 1000 };
+
+describe('useWaterLedger', () => {
+  it('should reject transfers exceeding the available volume', () => {
+    const ledger = useWaterLedger(createMockWaterSystemDependencies(), ['river', 'downstream']);
+    ledger.setStorage('dam', 100);
+
+    expect(ledger.transfer('dam', 'purification', 60)).toBe(true);
+    expect(ledger.transfer('purification', 'distribution', 80)).toBe(false);
+
+    const report = ledger.closeTick(tick);
+    expect(report.rejectedTransfers).toEqual([
+      { from: 'purification', to: 'distribution', volume: 80 },
+    ]);
+    expect(report.storage).toEqual({ dam: 40, purification: 60 });
+    expect(report.unaccountedLoss).toBe(0);
+  });
+
+  it('should report the gap between recorded and observed storage as unaccounted loss', () => {
+    const ledger = useWaterLedger(createMockWaterSystemDependencies(), ['river', 'downstream']);
+    ledger.setStorage('dam', 100);
+
+    ledger.transfer('river', 'dam', 50);
+    ledger.transfer('dam', 'downstream', 30);
+    ledger.reconcile('dam', 110);
+
+    const report = ledger.closeTick(tick);
+    expect(report.inflow).toBe(50);
+    expect(report.outflow).toBe(30);
+    expect(report.storageChange).toBe(10);
+    expect(report.unaccountedLoss).toBe(10);
+  });
+
+  it('should balance water in, water out and storage over a simulated month', () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies(7));
+    let unaccounted = 0;
+    let rejected = 0;
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      rejected += report.rejectedTransfers.length;
+    });
+
+    const state = engine.runDays(30);
+
+    expect(rejected).toBe(0);
+    expect(unaccounted).toBe(0);
+    expect(state.unaccountedWater).toBe(0);
+    expect(engine.getWaterBalance()?.transfers.length).toBeGreaterThan(0);
+    engine.dispose();
+  });
+});
@@ -0,0 +1,169 @@
+import type { WaterSystemTopology } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { defaultWaterSystemTopology } from '@config/waterSystemTopology';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { validateTopology } from '../useWaterNetwork';
+
+// Deux vallées : un barrage en tête alimente par sa centrale un second barrage, chacun avec sa station ;
+// le verger est irrigué par le second barrage et par la station d'épuration
+const twoValleys: WaterSystemTopology = {
+  nodes: [
+    { id: 'glacier', kind: 'glacier' },
+    { id: 'upperRiver', kind: 'river', inflowShare: 0.6 },
+    { id: 'lowerRiver', kind: 'river', inflowShare: 0.4 },
+    { id: 'upperDam', kind: 'reservoir' },
+    { id: 'upperPlant', kind: 'powerPlant' },
+    { id: 'lowerDam', kind: 'reservoir', initialLevel: 50 },
+    { id: 'upperPurification', kind: 'purificationPlant' },
+    { id: 'lowerPurification', kind: 'purificationPlant' },
+    { id: 'village', kind: 'district' },
+    { id: 'town', kind: 'district' },
+    { id: 'orchard', kind: 'farm' },
+    { id: 'wastewater', kind: 'wastewaterPlant' },
+    { id: 'sea', kind: 'outlet' },
+  ],
+  links: [
+    { from: 'glacier', to: 'upperDam' },
+    { from: 'upperRiver', to: 'upperDam' },
+    { from: 'lowerRiver', to: 'lowerDam' },
+    { from: 'upperDam', to: 'upperPlant', capacity: 20 },
+    { from: 'upperPlant', to: 'lowerDam' },
+    { from: 'upperDam', to: 'lowerDam' },
+    { from: 'upperDam', to: 'upperPurification', capacity: 1 },
+    { from: 'lowerDam', to: 'lowerPurification', capacity: 3 },
+    { from: 'lowerDam', to: 'orchard', capacity: 2 },
+    { from: 'lowerDam', to: 'sea' },
+    { from: 'upperPurification', to: 'village', capacity: 0.5 },
+    { from: 'upperPurification', to: 'wastewater' },
+    { from: 'lowerPurification', to: 'town' },
+    { from: 'lowerPurification', to: 'wastewater' },
+    { from: 'village', to: 'wastewater' },
+    { from: 'town', to: 'wastewater' },
+    { from: 'wastewater', to: 'orchard' },
+    { from: 'wastewater', to: 'sea' },
+  ],
+};
+
+describe('useWaterNetwork', () => {
+  it('should accept the default topology', () => {
+    expect(() => validateTopology(defaultWaterSystemTopology)).not.toThrow();
+    expect(() => validateTopology(twoValleys)).not.toThrow();
+  });
+
+  it('should list every inconsistency of an invalid topology', () => {
+    const invalid: WaterSystemTopology = {
+      nodes: [
+        { id: 'a', kind: 'reservoir' },
+        { id: 'b', kind: 'reservoir' },
+        { id: 'farm', kind: 'farm' },
+      ],
+      links: [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'a' },
+        { from: 'farm', to: 'a' },
+        { from: 'b', to: 'ghost' },
+      ],
+    };
+
+    expect(() => validateTopology(invalid)).toThrowError(
+      /lien farm → a interdit.*lien b → ghost vers un nœud inconnu.*« farm » doit être alimenté.*boucle entre retenues/,
+    );
+  });
+
+  it('should simulate several dams and plants while conserving water', () => {
+    // En été, le verger est en pleine croissance et doit être irrigué
+    const summer = { ...waterSystemConfig, SIMULATION_START_TIME: Date.UTC(2024, 6, 1) };
+    const engine = new WaterSystemEngine(
+      createWaterSystemDependencies(3, summer),
+      summer,
+      twoValleys,
+    );
+    let unaccounted = 0;
+    let rejected = 0;
+    let transfers = new Set<string>();
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      rejected += report.rejectedTransfers.length;
+      transfers = new Set([
+        ...transfers,
+        ...report.transfers.map(({ from, to }) => `${from}→${to}`),
+      ]);
+    });
+
+    const state = engine.runDays(10);
+
+    expect(engine.network.reservoirs.size).toBe(2);
+    expect(engine.network.primary.id).toBe('upperDam');
+    expect(rejected).toBe(0);
+    expect(unaccounted).toBe(0);
+    expect(transfers).toContain('upperPlant→lowerDam');
+    expect(transfers).toContain('lowerDam→orchard');
+    expect(transfers).toContain('village→wastewater');
+    expect(state.purifiedWater).toBeGreaterThan(0);
+    expect(state.irrigationWater).toBeGreaterThan(0);
+    engine.dispose();
+  });
+
+  it('should pilot the first reservoir of the topology even when it is built after an upstream one', () => {
+    // Le barrage aval est déclaré en premier, mais construit après le barrage amont qui l'alimente
+    const lowerDam = twoValleys.nodes.find(({ id }) => id === 'lowerDam');
+    const downstreamFirst: WaterSystemTopology = {
+      ...twoValleys,
+      nodes: [
+        ...twoValleys.nodes.filter((node) => node === lowerDam),
+        ...twoValleys.nodes.filter((node) => node !== lowerDam),
+      ],
+    };
+    const engine = new WaterSystemEngine(
+      createWaterSystemDependencies(3),
+      waterSystemConfig,
+      downstreamFirst,
+    );
+    const levels = new Map<string, number>();
+    for (const [id, { reservoir$ }] of engine.network.reservoirs) {
+      reservoir$.subscribe(({ level }) => levels.set(id, level));
+    }
+
+    expect(engine.network.primary.id).toBe('lowerDam');
+    const state = engine.runDays(1);
+
+    // L'état publié est celui de la retenue pilotée
+    expect(state.waterLevel).toBe(levels.get('lowerDam'));
+    expect(state.waterLevel).not.toBe(levels.get('upperDam'));
+    engine.dispose();
+  });
+
+  it('should not propagate NaN through links of zero capacity', () => {
+    const closed: WaterSystemTopology = {
+      ...twoValleys,
+      links: twoValleys.links.map((link) =>
+        link.from === 'upperDam' && link.to !== 'lowerDam' ? { ...link, capacity: 0 } : link,
+      ),
+    };
+    expect(() => validateTopology(closed)).not.toThrow();
+    const engine = new WaterSystemEngine(
+      createWaterSystemDependencies(3),
+      waterSystemConfig,
+      closed,
+    );
+    let unaccounted = 0;
+    const transfers = new Map<string, number>();
+    engine.waterBalance$.subscribe((report) => {
+      unaccounted += Math.abs(report.unaccountedLoss);
+      for (const { from, to, volume } of report.transfers) {
+        transfers.set(`${from}→${to}`, (transfers.get(`${from}→${to}`) ?? 0) + volume);
+      }
+    });
+
+    const state = engine.runDays(2);
+
+    expect(unaccounted).toBe(0);
+    expect([...transfers.values()].every(Number.isFinite)).toBe(true);
+    expect(transfers.get('upperDam→upperPlant') ?? 0).toBe(0);
+    expect(transfers.get('upperDam→upperPurification') ?? 0).toBe(0);
+    expect(state.powerGenerated).toBe(0);
+    expect(Number.isFinite(state.unmetDemand)).toBe(true);
+    engine.dispose();
+  });
+});
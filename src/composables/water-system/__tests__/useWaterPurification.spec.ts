@@ -0,0 +1,77 @@
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { createPurificationPlantState, stepPurificationPlant } from '../useWaterPurification';
+
+const {
+  PURIFICATION_BACKWASH_DURATION,
+  PURIFICATION_CAPACITY,
+  PURIFICATION_FILTERS,
+  PURIFICATION_MAX_CHLORINE_DOSE,
+  PURIFICATION_MAX_COAGULANT_DOSE,
+  PURIFICATION_STAGES,
+  RAW_WATER_QUALITY,
+  SIMULATION_START_TIME,
+} = waterSystemConfig;
+const HOUR = 60 * 60;
+const noFailure = () => 1;
+
+describe('useWaterPurification - station de purification', () => {
+  it('should cap throughput at the capacity left by backwashing filters', () => {
+    const plant = createPurificationPlantState();
+    const step = (intake: number, time: number) =>
+      stepPurificationPlant(plant, { intake, raw: RAW_WATER_QUALITY, time }, HOUR, noFailure);
+
+    // Le premier filtre est lavé au début de chaque intervalle
+    const washing = step(10, SIMULATION_START_TIME + HOUR * 1000);
+    const washedFraction = PURIFICATION_BACKWASH_DURATION / (HOUR * 1000);
+    expect(washing.backwashing).toBeCloseTo(washedFraction, 12);
+    expect(washing.capacity).toBeCloseTo(
+      PURIFICATION_CAPACITY * (1 - washedFraction / PURIFICATION_FILTERS),
+      12,
+    );
+    expect(washing.throughput).toBe(washing.capacity);
+    expect(washing.overflow).toBeCloseTo(10 - washing.capacity, 12);
+    expect(washing.produced + washing.losses + washing.overflow).toBeCloseTo(10, 12);
+
+    const idle = step(1, SIMULATION_START_TIME + 3 * HOUR * 1000);
+    expect(idle.backwashing).toBe(0);
+    expect(idle.overflow).toBe(0);
+    expect(idle.volume).toBeCloseTo(idle.produced * HOUR, 6);
+  });
+
+  it('should dose coagulant and chlorine according to raw water turbidity', () => {
+    const dose = (turbidity: number) =>
+      stepPurificationPlant(
+        createPurificationPlantState(),
+        { intake: 1, raw: { ...RAW_WATER_QUALITY, turbidity }, time: SIMULATION_START_TIME },
+        HOUR,
+        noFailure,
+      );
+
+    const clear = dose(3);
+    const muddy = dose(80);
+    const flood = dose(800);
+    expect(muddy.coagulantDose).toBeGreaterThan(clear.coagulantDose);
+    expect(muddy.chlorineDose).toBeGreaterThan(clear.chlorineDose);
+    expect(flood.coagulantDose).toBe(PURIFICATION_MAX_COAGULANT_DOSE);
+    expect(flood.coagulantDemand).toBeGreaterThan(PURIFICATION_MAX_COAGULANT_DOSE);
+    expect(flood.chlorineDose).toBe(PURIFICATION_MAX_CHLORINE_DOSE);
+  });
+
+  it('should take a failed stage out of service until it is repaired', () => {
+    const [coagulation] = PURIFICATION_STAGES;
+    const inputs = { intake: 1, raw: RAW_WATER_QUALITY, time: SIMULATION_START_TIME };
+
+    // Un tirage nul provoque une panne de chaque étape
+    let plant = stepPurificationPlant(createPurificationPlantState(), inputs, HOUR, () => 0);
+    expect(plant.stages.every(({ online }) => !online)).toBe(true);
+    expect(plant.coagulantDose).toBe(0);
+    expect(plant.chlorineDose).toBe(0);
+
+    for (let hour = 0; hour < coagulation.repairTime; hour++) {
+      plant = stepPurificationPlant(plant, inputs, HOUR, noFailure);
+    }
+    expect(plant.stages[0]).toMatchObject({ online: true, repairRemaining: 0 });
+    expect(plant.coagulantDose).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,95 @@
+import type { WaterQualitySample } from '@/types/waterSystem';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { firstValueFrom } from 'rxjs';
+import { describe, expect, it } from 'vitest';
+import { WaterSystemEngine, createWaterSystemDependencies } from '../WaterSystemEngine';
+import { createPurificationPlantState, stepPurificationPlant } from '../useWaterPurification';
+import {
+  assessWaterQuality,
+  createRawWaterQuality,
+  parameterIndex,
+  stepRawWaterQuality,
+} from '../useWaterQualityControl';
+import { createWeatherState } from '../useWeatherSimulation';
+
+const { CRITICAL_WATER_QUALITY, DRINKING_WATER_STANDARDS, SIMULATION_START_TIME } =
+  waterSystemConfig;
+const HOUR = 60 * 60;
+
+// Station en service, dosages réglés sur l'eau brute reçue
+const plantFor = (raw: WaterQualitySample) =>
+  stepPurificationPlant(
+    createPurificationPlantState(),
+    { intake: 1, raw, time: SIMULATION_START_TIME + HOUR * 1000 },
+    HOUR,
+    () => 1,
+  );
+
+describe('useWaterQualityControl - qualité multiparamètre', () => {
+  it('should raise turbidity quickly during a storm and let it settle slowly afterwards', () => {
+    const dry = createWeatherState('ensoleillé', SIMULATION_START_TIME);
+    const storm = { ...createWeatherState('orageux', SIMULATION_START_TIME), precipitation: 10 };
+    let raw = createRawWaterQuality(dry);
+
+    for (let hour = 0; hour < 6; hour++) raw = stepRawWaterQuality(raw, storm, HOUR);
+    const peak = raw.turbidity;
+    expect(peak).toBeGreaterThan(10 * createRawWaterQuality(dry).turbidity);
+
+    raw = stepRawWaterQuality(raw, dry, 6 * HOUR);
+    expect(raw.turbidity).toBeLessThan(peak);
+    expect(raw.turbidity).toBeGreaterThan(peak / 2);
+  });
+
+  it('should derive the score from the most degraded parameter and flag non-compliance', () => {
+    expect(parameterIndex(0.1, DRINKING_WATER_STANDARDS.turbidity)).toBe(100);
+    expect(parameterIndex(1, DRINKING_WATER_STANDARDS.turbidity)).toBe(50);
+    expect(parameterIndex(0.1, DRINKING_WATER_STANDARDS.chlorine)).toBe(50);
+    expect(parameterIndex(1, DRINKING_WATER_STANDARDS.eColi)).toBe(0);
+
+    const raw = createRawWaterQuality(createWeatherState('ensoleillé', SIMULATION_START_TIME));
+    const clean = assessWaterQuality(raw, plantFor(raw));
+    expect(clean.violations).toEqual([]);
+    expect(clean.score).toBe(Math.min(...Object.values(clean.indices)));
+    expect(clean.score).toBeGreaterThan(CRITICAL_WATER_QUALITY);
+    expect(clean.samples.tap.chlorine).toBeLessThan(clean.samples.treated.chlorine);
+
+    // Eau brute trop chargée : le chlore dosé au maximum est consommé, la désinfection n'agit plus
+    const storm = { ...raw, turbidity: 160, eColi: 5000 };
+    const overwhelmed = assessWaterQuality(storm, plantFor(storm));
+    const failing = new Set(overwhelmed.violations.map(({ parameter }) => parameter));
+    expect(failing).toEqual(new Set(['turbidity', 'chlorine', 'eColi']));
+    expect(overwhelmed.violations.every(({ node }) => node !== 'raw')).toBe(true);
+    expect(overwhelmed.score).toBeLessThan(CRITICAL_WATER_QUALITY);
+  });
+
+  it('should assess only the parameters of the injected configuration', () => {
+    const { nitrates, ...tracked } = waterSystemConfig.RAW_WATER_QUALITY;
+    const config = {
+      ...waterSystemConfig,
+      RAW_WATER_QUALITY: tracked as typeof waterSystemConfig.RAW_WATER_QUALITY,
+    };
+    const raw = createRawWaterQuality(
+      createWeatherState('ensoleillé', SIMULATION_START_TIME),
+      config,
+    );
+    expect(raw).not.toHaveProperty('nitrates');
+
+    const report = assessWaterQuality(raw, plantFor(raw), config);
+
+    expect(Object.keys(report.indices)).toEqual(Object.keys(tracked));
+    expect(report.score).toBe(Math.min(...Object.values(report.indices)));
+    expect(report.violations).toEqual([]);
+  });
+
+  it('should publish the water quality report in the system state', async () => {
+    const engine = new WaterSystemEngine(createWaterSystemDependencies());
+
+    const state = engine.fastForward(6 * HOUR * 1000);
+    const samples = await firstValueFrom(engine.observables.waterQualitySamples);
+
+    expect(samples.raw.turbidity).toBeGreaterThan(0);
+    expect(state.waterQualitySamples).toEqual(samples);
+    expect(state.waterQuality).toBeLessThanOrEqual(100);
+    engine.dispose();
+  });
+});
@@ -2,7 +2,11 @@ import { waterSystemConfig } from '@config/waterSystemConfig';
 import { mount } from '@vue/test-utils';
 import { describe, expect, it, vi } from 'vitest';
 import { defineComponent, nextTick } from 'vue';
-import { calculateOverallSystemStatus, useWaterSystem } from '../useWaterSystem';
+import {
+  calculateDamVolume,
+  calculateOverallSystemStatus,
+  useWaterSystem,
+} from '../useWaterSystem';
 import { createMockWaterSystemState } from './testFactories';
 
 // Mock des dépendances
@@ -136,7 +140,7 @@ describe('useWaterSystem', () => {
       expect(waterSystem.state.waterLevel).toBe(75);
 
       // Vérifier que le volume du barrage a été mis à jour en conséquence
-      const expectedVolume = 0.75 * waterSystemConfig.INITIAL_DAM_WATER_VOLUME;
+      const expectedVolume = calculateDamVolume(75, waterSystemConfig.DAM_STAGE_STORAGE_CURVE);
       console.log('Volume du barrage:', waterSystem.state.damWaterVolume);
       expect(waterSystem.state.damWaterVolume).toBeCloseTo(expectedVolume, 2);
 
@@ -0,0 +1,46 @@
+import type { WeatherCondition } from '@/types/waterSystem';
+import { createSeededRandom } from '@/utils/seededRandom';
+import { waterSystemConfig } from '@config/waterSystemConfig';
+import { describe, expect, it } from 'vitest';
+import { nextWeatherCondition, sampleWeather } from '../useWeatherSimulation';
+
+const summer = Date.UTC(2024, 6, 18, 15);
+const winter = Date.UTC(2024, 0, 15, 3);
+
+describe('useWeatherSimulation - générateur météo stochastique', () => {
+  it('should follow the transition matrix, keeping storms more likely after rain', () => {
+    const random = createSeededRandom(42);
+    const stormShare = (from: WeatherCondition) => {
+      let storms = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (nextWeatherCondition(from, summer, random) === 'orageux') storms++;
+      }
+      return storms / 2000;
+    };
+
+    expect(stormShare('ensoleillé')).toBe(0);
+    expect(stormShare('pluvieux')).toBeGreaterThan(0);
+    expect(stormShare('orageux')).toBeGreaterThan(0.5);
+  });
+
+  it('should sample warmer summer afternoons than winter nights', () => {
+    const random = createSeededRandom(7);
+
+    const hot = sampleWeather('ensoleillé', summer, random);
+    const cold = sampleWeather('ensoleillé', winter, random);
+
+    expect(hot.temperature).toBeGreaterThan(cold.temperature + 15);
+    expect(hot.precipitation).toBe(0);
+  });
+
+  it('should draw rain intensities around the mean of the condition', () => {
+    const random = createSeededRandom(3);
+    const samples = Array.from({ length: 2000 }, () => sampleWeather('orageux', summer, random));
+    const mean =
+      samples.reduce((acc, { precipitation }) => acc + precipitation, 0) / samples.length;
+
+    expect(mean).toBeGreaterThan(waterSystemConfig.WEATHER_PRECIPITATION_RATES.orageux * 0.9);
+    expect(mean).toBeLessThan(waterSystemConfig.WEATHER_PRECIPITATION_RATES.orageux * 1.1);
+    expect(samples.every(({ humidity }) => humidity >= 0 && humidity <= 100)).toBe(true);
+  });
+});
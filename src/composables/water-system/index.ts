@@ -1,15 +1,23 @@
 export { useAlertSystem } from './useAlertSystem';
 export { useDamManagement } from './useDamManagement';
+export { useDroughtManagement } from './useDroughtManagement';
 export { useFloodPrediction } from './useFloodPrediction';
+export { useForecast } from './useForecast';
 export { useGlacierMelt } from './useGlacierMelt';
 export { useIrrigation } from './useIrrigation';
+export { usePowerDispatch } from './usePowerDispatch';
 export { usePowerPlant } from './usePowerPlant';
+export { useReplayDataSource } from './useReplayDataSource';
 export { useSimulation } from './useSimulation';
 export { useUserWaterManagement } from './useUserWaterManagement';
 export { useWastewaterTreatment } from './useWastewaterTreatment';
+export { useWaterAllocation } from './useWaterAllocation';
 export { useWaterDistribution } from './useWaterDistribution';
+export { useWaterLedger } from './useWaterLedger';
+export { useWaterNetwork } from './useWaterNetwork';
 export { useWaterPurification } from './useWaterPurification';
-export { useWaterQualityControl } from './useWaterQualityControl';
+export { useRawWaterQuality, useWaterQualityControl } from './useWaterQualityControl';
 export { useWaterSourceLogging } from './useWaterSourceLogging';
 export { useWeatherSimulation } from './useWeatherSimulation';
 export { useWaterSystem } from './useWaterSystem';
+export { WaterSystemEngine, runEnsemble, runScenario } from './WaterSystemEngine';
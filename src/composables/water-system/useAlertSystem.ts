@@ -1,20 +1,65 @@
-import { waterSystemConfig } from '@/config/waterSystemConfig';
-import type { Alert, AlertPriority } from '@/types/waterSystem';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  Alert,
+  AlertPriority,
+  DispatchReport,
+  DistributionNetworkState,
+  DroughtState,
+  FloodCheckpoint,
+  FloodForecast,
+  PressureStatus,
+  PurificationPlantState,
+  WastewaterPlantState,
+  WaterAllocationState,
+  WaterQualityParameter,
+  WaterQualityReport,
+  WaterSystemDependencies,
+  WaterUse,
+} from '@/types/waterSystem';
 import { PriorityQueue } from '@datastructures-js/priority-queue';
 import { format } from 'date-fns';
-import { merge, Observable } from 'rxjs';
-import { filter, map, tap } from 'rxjs/operators';
+import { EMPTY, Observable, merge } from 'rxjs';
+import { distinctUntilChanged, filter, map, tap } from 'rxjs/operators';
 import { v4 as uuidv4 } from 'uuid';
 import { computed, ref, watch } from 'vue';
 
 const MAX_ALERTS = 1000;
 
+const WATER_QUALITY_PARAMETER_LABELS: Record<WaterQualityParameter, string> = {
+  turbidity: 'turbidité',
+  ph: 'pH',
+  chlorine: 'chlore libre',
+  eColi: 'E. coli',
+  nitrates: 'nitrates',
+  temperature: 'température',
+};
+
+const WATER_USE_LABELS: Record<WaterUse, string> = {
+  drinkingWater: 'eau potable',
+  environment: 'débit réservé',
+  industry: 'industrie',
+  irrigation: 'irrigation',
+  hydropower: 'hydroélectricité',
+};
+
 type SharedObservables = {
   dam$: Observable<number>;
+  powerDispatch$?: Observable<DispatchReport>;
+  floodForecast$?: Observable<FloodForecast>;
+  waterQualityControl$?: Observable<WaterQualityReport>;
+  purification$?: Observable<PurificationPlantState>;
+  wastewater$?: Observable<WastewaterPlantState>;
+  distribution$?: Observable<DistributionNetworkState>;
+  drought$?: Observable<DroughtState>;
+  allocation$?: Observable<WaterAllocationState>;
   // Ajoutez ici les autres observables partagés avec leurs types spécifiques
 };
 
-export function useAlertSystem(sharedObservables: SharedObservables) {
+export function useAlertSystem(
+  sharedObservables: SharedObservables,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
   const alertQueue = new PriorityQueue<Alert>((a, b) => {
     const priorityOrder = { high: 3, medium: 2, low: 1 };
     if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
@@ -29,7 +74,7 @@ export function useAlertSystem(sharedObservables: SharedObservables) {
   const alertsChanged = ref(0);
 
   function addAlert(message: string, priority: AlertPriority) {
-    const timestamp = format(new Date(), 'yyyy-MM-dd HH:mm:ss');
+    const timestamp = format(new Date(deps.getCurrentTime()), 'yyyy-MM-dd HH:mm:ss');
     const newAlert: Alert = {
       id: uuidv4(),
       message,
@@ -75,22 +120,22 @@ export function useAlertSystem(sharedObservables: SharedObservables) {
   const alertSystem$ = merge(
     sharedObservables.dam$.pipe(
       map((level) => {
-        if (level >= waterSystemConfig.VERY_HIGH_WATER_LEVEL)
+        if (level >= config.VERY_HIGH_WATER_LEVEL)
           return {
             message: 'Alerte : Niveau du barrage critique! (90%+)',
             priority: 'high' as const,
           };
-        if (level >= waterSystemConfig.HIGH_WATER_LEVEL)
+        if (level >= config.HIGH_WATER_LEVEL)
           return {
             message: 'Avertissement : Niveau du barrage élevé (80%+)',
             priority: 'medium' as const,
           };
-        if (level <= waterSystemConfig.CRITICAL_WATER_LEVEL)
+        if (level <= config.CRITICAL_WATER_LEVEL)
           return {
             message: 'Alerte : Niveau du barrage très bas! (20% ou moins)',
             priority: 'high' as const,
           };
-        if (level <= waterSystemConfig.LOW_WATER_LEVEL)
+        if (level <= config.LOW_WATER_LEVEL)
           return {
             message: 'Avertissement : Niveau du barrage bas (30% ou moins)',
             priority: 'medium' as const,
@@ -99,6 +144,157 @@ export function useAlertSystem(sharedObservables: SharedObservables) {
       }),
       filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
     ),
+    // Demande électrique non servie : une alerte à chaque aggravation, pas à chaque tick
+    (sharedObservables.powerDispatch$ ?? EMPTY).pipe(
+      map(({ demand, unmet }) => {
+        const ratio = demand > 0 ? unmet / demand : 0;
+        if (ratio > config.POWER_UNMET_DEMAND_CRITICAL)
+          return {
+            message: `Alerte : Demande électrique largement non satisfaite (plus de ${Math.round(
+              config.POWER_UNMET_DEMAND_CRITICAL * 100,
+            )}%)`,
+            priority: 'high' as const,
+          };
+        if (ratio > config.POWER_UNMET_DEMAND_TOLERANCE)
+          return {
+            message: 'Avertissement : Demande électrique non satisfaite',
+            priority: 'medium' as const,
+          };
+        return null;
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Crue prévue en aval : une alerte par point de contrôle menacé et par aggravation
+    (sharedObservables.floodForecast$ ?? EMPTY).pipe(
+      map(({ checkpoints }) => {
+        const worst = checkpoints.reduce<FloodCheckpoint | null>(
+          (max, checkpoint) => (checkpoint.risk > (max?.risk ?? 0) ? checkpoint : max),
+          null,
+        );
+        if (worst && worst.risk >= 100)
+          return {
+            message: `Alerte : Crue prévue au-dessus de la cote de danger (${worst.name})`,
+            priority: 'high' as const,
+          };
+        if (worst && worst.risk >= 50)
+          return {
+            message: `Avertissement : Crue prévue au-dessus de la cote de vigilance (${worst.name})`,
+            priority: 'medium' as const,
+          };
+        return null;
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Eau potable non conforme : une alerte par ensemble de paramètres hors limites
+    (sharedObservables.waterQualityControl$ ?? EMPTY).pipe(
+      map(({ violations }) => {
+        if (violations.length === 0) return null;
+        const parameters = [...new Set(violations.map(({ parameter }) => parameter))];
+        return {
+          message: `Alerte : Eau potable non conforme (${parameters
+            .map((parameter) => WATER_QUALITY_PARAMETER_LABELS[parameter])
+            .join(', ')})`,
+          priority: 'high' as const,
+        };
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Étapes de la station de purification en panne : une alerte à chaque nouvelle panne
+    (sharedObservables.purification$ ?? EMPTY).pipe(
+      map(({ stages }) => {
+        const offline = stages.filter(({ online }) => !online);
+        if (offline.length === 0) return null;
+        return {
+          message: `Avertissement : Étape de purification en panne (${offline
+            .map(({ name }) => name)
+            .join(', ')})`,
+          priority: 'medium' as const,
+        };
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Station d'épuration : déversement d'eaux usées non traitées, puis rejet non conforme
+    (sharedObservables.wastewater$ ?? EMPTY).pipe(
+      map(({ overflow, compliant }) => {
+        if (overflow > 0)
+          return {
+            message: "Alerte : Déversement d'eaux usées non traitées par le déversoir d'orage",
+            priority: 'high' as const,
+          };
+        if (!compliant)
+          return {
+            message: "Avertissement : Rejet de la station d'épuration non conforme",
+            priority: 'medium' as const,
+          };
+        return null;
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Pression de service : une alerte par ensemble de quartiers coupés, sinon en pression faible
+    (sharedObservables.distribution$ ?? EMPTY).pipe(
+      map(({ districts }) => {
+        const names = (pressure: PressureStatus) =>
+          districts
+            .filter((district) => district.pressure === pressure)
+            .map(({ name }) => name)
+            .join(', ');
+        if (names('outage'))
+          return {
+            message: `Alerte : Coupure d'eau (${names('outage')})`,
+            priority: 'high' as const,
+          };
+        if (names('low'))
+          return {
+            message: `Avertissement : Pression d'eau faible (${names('low')})`,
+            priority: 'medium' as const,
+          };
+        return null;
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Sécheresse : une alerte à chaque changement de palier, les paliers les plus sévères en priorité haute
+    (sharedObservables.drought$ ?? EMPTY).pipe(
+      map(({ severity }) => {
+        if (severity === 0) return null;
+        const stage = config.DROUGHT_STAGES[severity - 1];
+        if (severity >= config.DROUGHT_STAGES.length - 1)
+          return {
+            message: `Alerte : Sécheresse, palier ${stage.name} (restrictions d'eau renforcées)`,
+            priority: 'high' as const,
+          };
+        return {
+          message: `Avertissement : Sécheresse, palier ${stage.name} (restrictions d'eau en vigueur)`,
+          priority: 'medium' as const,
+        };
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
+    // Pénurie : une alerte dès que l'eau potable manque, sinon une par ensemble d'usages en déficit
+    (sharedObservables.allocation$ ?? EMPTY).pipe(
+      map(({ uses }) => {
+        const restricted = (Object.keys(uses) as WaterUse[]).filter((use) => uses[use].deficit > 0);
+        if (restricted.length === 0) return null;
+        if (uses.drinkingWater.deficit > 0)
+          return {
+            message: "Alerte : Pénurie d'eau, eau potable rationnée",
+            priority: 'high' as const,
+          };
+        const labels = restricted.map((use) => WATER_USE_LABELS[use]).join(', ');
+        return {
+          message: `Avertissement : Pénurie d'eau, usages restreints (${labels})`,
+          priority: 'medium' as const,
+        };
+      }),
+      distinctUntilChanged((prev, curr) => prev?.message === curr?.message),
+      filter((alert): alert is Exclude<typeof alert, null> => alert !== null),
+    ),
     // Ajoutez ici les autres sources d'alertes comme dans useWaterSystem.ts
   ).pipe(tap(({ message, priority }) => addAlert(message, priority)));
 
@@ -1,177 +1,508 @@
-import { waterSystemConfig } from '@/config/waterSystemConfig';
-import type { WeatherCondition } from '@/types/waterSystem';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DamGate,
+  DamGateSettings,
+  DamGateStates,
+  GateDischargePoint,
+  GateSetting,
+  OperatingPolicy,
+  ReservoirInflows,
+  ReservoirOutflows,
+  ReservoirState,
+  StageStoragePoint,
+  WaterBatch,
+  WaterSystemDependencies,
+  WeatherCondition,
+  WeatherState,
+} from '@/types/waterSystem';
 import { handleError } from '@/utils/errorHandler';
+import { interpolateCurve } from '@/utils/interpolation';
+import { createRuleCurvePolicy, reservoirZone, ruleCurveTargets } from '@/utils/operatingPolicy';
+import { tickSeconds } from '@/utils/simulationClock';
 import type { Observable } from 'rxjs';
-import { BehaviorSubject, combineLatest } from 'rxjs';
-import { catchError, scan, shareReplay } from 'rxjs/operators';
-import { ref } from 'vue';
+import { BehaviorSubject, of, withLatestFrom } from 'rxjs';
+import { catchError, map, scan, shareReplay, startWith, switchMap } from 'rxjs/operators';
+import { allocateWater, createWaterAllocationState, waterUseRequests } from './useWaterAllocation';
 
 /**
- * Facteurs d'influence des conditions météorologiques sur le niveau d'eau du barrage.
- * Ces facteurs sont utilisés pour ajuster le niveau d'eau en fonction des conditions météorologiques.
+ * Retourne la capacité de la retenue (volume à la cote maximale de la courbe), en m³.
+ */
+export function reservoirCapacity(curve: readonly StageStoragePoint[]): number {
+  return curve[curve.length - 1].volume;
+}
+
+/**
+ * Convertit un volume (m³) en cote du plan d'eau (m).
+ */
+export function elevationFromVolume(curve: readonly StageStoragePoint[], volume: number): number {
+  return interpolateCurve(curve, 'volume', 'elevation', volume);
+}
+
+/**
+ * Convertit un volume (m³) en surface du plan d'eau (m²).
+ */
+export function surfaceAreaFromVolume(curve: readonly StageStoragePoint[], volume: number): number {
+  return interpolateCurve(curve, 'volume', 'area', volume);
+}
+
+/**
+ * Convertit un volume (m³) en taux de remplissage (pourcentage de la capacité).
+ */
+export function levelFromVolume(curve: readonly StageStoragePoint[], volume: number): number {
+  return (volume / reservoirCapacity(curve)) * 100;
+}
+
+/**
+ * Convertit un taux de remplissage (pourcentage de la capacité) en volume (m³).
+ */
+export function volumeFromLevel(curve: readonly StageStoragePoint[], level: number): number {
+  return (Math.max(0, Math.min(level, 100)) / 100) * reservoirCapacity(curve);
+}
+
+/**
+ * Débits nuls, utilisés pour un état de retenue sans historique.
+ */
+const NO_INFLOWS: ReservoirInflows = {
+  river: 0,
+  glacier: 0,
+  upstream: 0,
+  precipitation: 0,
+};
+
+const NO_OUTFLOWS: ReservoirOutflows = {
+  purification: 0,
+  turbines: 0,
+  irrigation: 0,
+  environment: 0,
+  spillway: 0,
+  outlet: 0,
+  evaporation: 0,
+  seepage: 0,
+};
+
+/**
+ * Consigne par défaut des vannes : pilotage automatique.
+ */
+export const DEFAULT_GATE_SETTINGS: DamGateSettings = {
+  spillway: { mode: 'auto', opening: 0 },
+  outlet: { mode: 'auto', opening: 0 },
+};
+
+const CLOSED_GATES: DamGateStates = {
+  spillway: { mode: 'auto', opening: 0, discharge: 0 },
+  outlet: { mode: 'auto', opening: 0, discharge: 0 },
+};
+
+/**
+ * Débit d'une vanne (m³/s) pour une cote du plan d'eau et une ouverture données.
  *
- * @constant
- * @type {Object}
- * @property {number} WEATHER_FACTOR_RAINY - Facteur d'augmentation du niveau d'eau en cas de pluie.
- * @property {number} WEATHER_FACTOR_STORMY - Facteur d'augmentation du niveau d'eau en cas d'orage.
- * @property {number} WEATHER_FACTOR_SUNNY - Facteur de diminution du niveau d'eau en cas de temps ensoleillé.
+ * @param {readonly GateDischargePoint[]} curve - La courbe de débit à pleine ouverture
+ * @param {number} elevation - La cote du plan d'eau (m)
+ * @param {number} opening - L'ouverture de la vanne (%)
+ * @returns {number} Le débit lâché (m³/s)
+ */
+export function gateDischarge(
+  curve: readonly GateDischargePoint[],
+  elevation: number,
+  opening: number,
+): number {
+  const ratio = Math.max(0, Math.min(opening, 100)) / 100;
+  return interpolateCurve(curve, 'elevation', 'discharge', elevation) * ratio;
+}
+
+/**
+ * Crée l'état d'une retenue au repos pour un volume donné.
  *
- * @description
- * Ces facteurs sont utilisés pour simuler l'impact des conditions météorologiques sur le niveau d'eau du barrage.
- * Un facteur supérieur à 1 augmente le niveau d'eau, tandis qu'un facteur inférieur à 1 le diminue.
+ * @param {number} volume - Le volume stocké (m³)
+ * @param {WaterSystemConfig} config - La configuration du système
+ * @param {number} time - L'instant simulé, qui situe la retenue par rapport aux courbes guides
+ * @returns {ReservoirState} L'état de la retenue, sans débit entrant ni sortant
+ */
+export function createReservoirState(
+  volume: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  time: number = config.SIMULATION_START_TIME,
+): ReservoirState {
+  const curve = config.DAM_STAGE_STORAGE_CURVE;
+  const level = levelFromVolume(curve, volume);
+  return {
+    volume,
+    elevation: elevationFromVolume(curve, volume),
+    level,
+    surfaceArea: surfaceAreaFromVolume(curve, volume),
+    inflow: 0,
+    inflows: NO_INFLOWS,
+    outflows: NO_OUTFLOWS,
+    allocation: createWaterAllocationState(config),
+    gates: CLOSED_GATES,
+    zone: reservoirZone(level, ruleCurveTargets(config.DAM_RULE_CURVES, time)),
+    duration: 0,
+  };
+}
+
+/**
+ * Somme des débits sortants d'une retenue (m³/s).
+ */
+export function totalOutflow(outflows: ReservoirOutflows): number {
+  return (
+    outflows.purification +
+    outflows.turbines +
+    outflows.irrigation +
+    outflows.environment +
+    outflows.spillway +
+    outflows.outlet +
+    outflows.evaporation +
+    outflows.seepage
+  );
+}
+
+/**
+ * Débit lâché vers l'aval par les vannes (évacuateur de crues et vidange de fond), en m³/s.
+ */
+export function gateRelease(outflows: ReservoirOutflows): number {
+  return outflows.spillway + outflows.outlet;
+}
+
+/**
+ * Débit restitué à la rivière en aval du barrage (m³/s) : les lâchers des vannes, le débit
+ * réservé et l'eau turbinée, rendue par le canal de fuite de la centrale.
+ */
+export function riverRelease(outflows: ReservoirOutflows): number {
+  return gateRelease(outflows) + outflows.environment + outflows.turbines;
+}
+
+/**
+ * Apports d'un pas de temps du bilan de masse.
  *
- * Pourquoi c'est ainsi fait :
- * - Cela permet de simuler de manière réaliste l'impact des conditions météorologiques sur le niveau d'eau du barrage.
- * - Les valeurs choisies reflètent l'impact relatif de chaque condition météorologique sur l'apport en eau.
- * - Cette approche permet une simulation dynamique et réactive aux changements météorologiques.
+ * @property {number} riverInflow - Débit de la rivière (m³/s)
+ * @property {number} glacierInflow - Débit issu de la fonte du glacier (m³/s)
+ * @property {number} upstreamInflow - Débit restitué par les ouvrages situés en amont (m³/s)
+ * @property {number} irrigationDemand - Débit d'eau brute demandé par les exploitations agricoles (m³/s)
+ * @property {WeatherCondition} weather - La météo, qui fixe l'évaporation et la pluie par défaut
+ * @property {number} precipitation - L'intensité de la pluie mesurée (mm/h), prioritaire sur la pluie par défaut
+ * @property {DamGateSettings} gates - La consigne des vannes (pilotage automatique par défaut)
+ * @property {number} time - L'instant simulé du début du pas (ms), qui fixe la saison
  */
-const WEATHER_FACTOR_RAINY = 1.2;
-const WEATHER_FACTOR_STORMY = 1.4;
-const WEATHER_FACTOR_SUNNY = 0.9;
+export interface ReservoirInputs {
+  riverInflow: number;
+  glacierInflow: number;
+  upstreamInflow?: number;
+  irrigationDemand?: number;
+  weather: WeatherCondition;
+  precipitation?: number;
+  gates?: DamGateSettings;
+  time?: number;
+}
 
 /**
- * Facteurs d'ajustement pour la simulation du niveau d'eau du barrage.
+ * Fait avancer le bilan de masse de la retenue sur une durée donnée.
  *
- * @constant
- * @type {Object}
- * @property {number} WATER_ACCUMULATION_FACTOR - Facteur d'accumulation d'eau dans le barrage.
- * @property {number} WATER_USAGE_FACTOR - Facteur de consommation d'eau du barrage.
- * @property {number} SMOOTHING_FACTOR - Facteur de lissage pour éviter les changements brusques de niveau d'eau.
+ * @param {ReservoirState} state - L'état de la retenue au début du pas
+ * @param {ReservoirInputs} inputs - Les apports sur le pas
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration du système
+ * @param {OperatingPolicy} policy - La règle d'exploitation (courbes guides par défaut)
+ * @returns {ReservoirState} L'état de la retenue à la fin du pas
  *
  * @description
- * Ces facteurs sont utilisés pour ajuster finement la simulation du niveau d'eau du barrage :
- * - WATER_ACCUMULATION_FACTOR détermine la vitesse à laquelle l'eau s'accumule dans le barrage.
- * - WATER_USAGE_FACTOR simule la consommation constante d'eau du barrage.
- * - SMOOTHING_FACTOR permet de lisser les variations du niveau d'eau pour éviter des changements trop brusques.
+ * Volume final = volume initial + apports − (purification + turbines + irrigation + débit
+ * réservé + vannes + évaporation + infiltration) − déversement.
+ *
+ * - Les apports sont la rivière, la fonte du glacier et la pluie tombant sur le plan d'eau et
+ *   ruisselant depuis le bassin versant.
+ * - L'évaporation et l'infiltration sont prélevées en premier.
+ * - Les usages sont ensuite servis selon leurs droits d'eau (voir allocateWater), sur le volume
+ *   au-dessus du culot mort : l'eau potable et l'industrie par le lâcher vers la purification
+ *   décidé par la règle d'exploitation, l'hydroélectricité par celui vers les turbines,
+ *   l'irrigation par le prélèvement demandé par les exploitations agricoles, et la rivière en
+ *   aval par le débit réservé DAM_ENVIRONMENTAL_FLOW.
+ * - Les vannes (évacuateur de crues et vidange de fond) lâchent ensuite le débit de leur courbe
+ *   pour la cote du début du pas, multiplié par leur ouverture : celle de l'opérateur en mode
+ *   manuel, celle de la règle d'exploitation en mode automatique.
+ * - Tout ce qui dépasse encore la capacité surverse par l'évacuateur de crues.
  *
  * Pourquoi c'est ainsi fait :
- * - Ces facteurs permettent un contrôle précis sur la dynamique du niveau d'eau du barrage.
- * - Ils offrent la flexibilité nécessaire pour ajuster la simulation en fonction des besoins spécifiques du système.
- * - L'utilisation de facteurs séparés pour l'accumulation et l'usage de l'eau permet de simuler un équilibre réaliste.
+ * - Raisonner en volumes garantit qu'aucune eau n'est créée ni perdue : ce qui est envoyé en aval
+ *   est exactement ce qui a quitté la retenue.
+ * - Les débits sortants sont restitués en m³/s moyens sur le pas, quelle que soit sa durée.
  */
-const WATER_ACCUMULATION_FACTOR = 0.005;
-const WATER_USAGE_FACTOR = 0.003;
-const SMOOTHING_FACTOR = 0.1;
+export function stepReservoir(
+  state: ReservoirState,
+  inputs: ReservoirInputs,
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  policy: OperatingPolicy = createRuleCurvePolicy(config),
+): ReservoirState {
+  if (seconds <= 0) {
+    return {
+      ...state,
+      inflow: 0,
+      inflows: NO_INFLOWS,
+      outflows: NO_OUTFLOWS,
+      allocation: createWaterAllocationState(config),
+      gates: CLOSED_GATES,
+      duration: 0,
+    };
+  }
+
+  const curve = config.DAM_STAGE_STORAGE_CURVE;
+  const capacity = reservoirCapacity(curve);
+
+  // Apports : rivière, glacier, pluie sur le plan d'eau et ruissellement du bassin versant
+  const rainfall =
+    Math.max(0, inputs.precipitation ?? config.WEATHER_PRECIPITATION_RATES[inputs.weather]) /
+    1000 /
+    3600; // m/s
+  const inflows: ReservoirInflows = {
+    river: Math.max(0, inputs.riverInflow),
+    glacier: Math.max(0, inputs.glacierInflow),
+    upstream: Math.max(0, inputs.upstreamInflow ?? 0),
+    precipitation:
+      rainfall * (state.surfaceArea + config.DAM_CATCHMENT_AREA * config.DAM_RUNOFF_COEFFICIENT),
+  };
+  const inflow = inflows.river + inflows.glacier + inflows.upstream + inflows.precipitation;
+  let available = state.volume + inflow * seconds;
+
+  // Pertes : évaporation sur le plan d'eau et infiltration proportionnelle au volume
+  const evaporationRate = config.DAM_EVAPORATION_RATES[inputs.weather] / 1000 / 86400; // m/s
+  const requestedLosses =
+    (evaporationRate * state.surfaceArea + config.DAM_SEEPAGE_COEFFICIENT * state.volume) * seconds;
+  const lossRatio = requestedLosses > 0 ? Math.min(1, available / requestedLosses) : 0;
+  const evaporation = evaporationRate * state.surfaceArea * lossRatio;
+  const seepage = config.DAM_SEEPAGE_COEFFICIENT * state.volume * lossRatio;
+  available -= (evaporation + seepage) * seconds;
+
+  // Usages : lâchers de la règle d'exploitation, irrigation et débit réservé, répartis selon
+  // les droits d'eau sur le volume au-dessus du culot mort
+  const time = inputs.time ?? config.SIMULATION_START_TIME;
+  const decision = policy({ state, weather: inputs.weather, time });
+  const deadStorage = volumeFromLevel(
+    curve,
+    ruleCurveTargets(config.DAM_RULE_CURVES, time).deadStorage,
+  );
+  const allocation = allocateWater(
+    Math.max(0, available - deadStorage) / seconds,
+    waterUseRequests(
+      {
+        purification: decision.purification,
+        turbines: decision.turbines,
+        irrigation: inputs.irrigationDemand ?? 0,
+        environment: config.DAM_ENVIRONMENTAL_FLOW,
+      },
+      config,
+    ),
+    config,
+  );
+  const { uses } = allocation;
+  const purification = uses.drinkingWater.allocation + uses.industry.allocation;
+  const turbines = uses.hydropower.allocation;
+  const irrigation = uses.irrigation.allocation;
+  const environment = uses.environment.allocation;
+  available -= (purification + turbines + irrigation + environment) * seconds;
+
+  // Vannes : ouverture manuelle ou automatique, débit selon la cote, limité à l'eau disponible
+  const settings = inputs.gates ?? DEFAULT_GATE_SETTINGS;
+  const openings: Record<DamGate, number> = {
+    spillway:
+      settings.spillway.mode === 'manual' ? settings.spillway.opening : decision.gates.spillway,
+    outlet: settings.outlet.mode === 'manual' ? settings.outlet.opening : decision.gates.outlet,
+  };
+  const requestedSpillway = gateDischarge(
+    config.DAM_SPILLWAY_DISCHARGE_CURVE,
+    state.elevation,
+    openings.spillway,
+  );
+  const requestedOutlet = gateDischarge(
+    config.DAM_OUTLET_DISCHARGE_CURVE,
+    state.elevation,
+    openings.outlet,
+  );
+  const requestedGates = (requestedSpillway + requestedOutlet) * seconds;
+  const gateRatio = requestedGates > 0 ? Math.min(1, Math.max(0, available) / requestedGates) : 0;
+  const gatedSpillway = requestedSpillway * gateRatio;
+  const outlet = requestedOutlet * gateRatio;
+  available -= (gatedSpillway + outlet) * seconds;
+
+  // Déversement : tout ce qui dépasse la capacité surverse par l'évacuateur
+  const spilled = Math.max(0, available - capacity);
+  const volume = Math.max(0, available - spilled);
+  const spillway = gatedSpillway + spilled / seconds;
+
+  return {
+    volume,
+    elevation: elevationFromVolume(curve, volume),
+    level: levelFromVolume(curve, volume),
+    surfaceArea: surfaceAreaFromVolume(curve, volume),
+    inflow,
+    inflows,
+    outflows: {
+      purification,
+      turbines,
+      irrigation,
+      environment,
+      spillway,
+      outlet,
+      evaporation,
+      seepage,
+    },
+    allocation,
+    gates: {
+      spillway: { mode: settings.spillway.mode, opening: openings.spillway, discharge: spillway },
+      outlet: { mode: settings.outlet.mode, opening: openings.outlet, discharge: outlet },
+    },
+    zone: decision.zone,
+    duration: seconds,
+  };
+}
 
 /**
  * Composable pour la gestion du barrage dans le système de gestion de l'eau.
  *
  * @function
- * @param {Observable<number>} waterSource$ - Observable représentant la source d'eau entrante.
- * @param {Observable<WeatherCondition>} weatherSource$ - Observable des conditions météorologiques.
+ * @param {Observable<number>} waterSource$ - Observable du débit de la rivière entrant dans la retenue (m³/s).
+ * @param {Observable<WeatherState>} weatherSource$ - Observable des observations météorologiques (condition, pluie).
  * @param {Observable<{ volume: number; meltRate: number; waterFlow: number }>} glacierMelt$ - Observable des données de fonte du glacier.
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée).
+ * @param {WaterSystemConfig} config - La configuration du système (courbe hauteur-volume, lâchers, pertes).
+ * @param {Observable<WaterBatch>} upstream$ - Lots d'eau restitués par les ouvrages en amont (retenue en cascade).
+ * @param {Observable<number>} irrigationDemand$ - Débit d'eau brute demandé par les exploitations agricoles (m³/s).
  * @returns {Object} Un objet contenant les observables et fonctions pour gérer le barrage.
  *
  * @description
- * Ce composable gère la simulation du niveau d'eau du barrage en prenant en compte :
- * - L'apport d'eau de diverses sources (rivières, pluie, fonte des glaciers)
- * - Les conditions météorologiques
- * - L'utilisation de l'eau
+ * Ce composable simule la retenue par un bilan de masse en m³ (voir stepReservoir) :
+ * - Les apports de la rivière, de la fonte des glaciers et de la pluie
+ * - Les lâchers vers la purification et les turbines, décidés par la règle d'exploitation
+ * - Le prélèvement d'eau brute demandé par les exploitations agricoles
+ * - Le débit réservé laissé à la rivière
+ * - La répartition de l'eau entre ces usages selon leurs droits d'eau lorsqu'elle manque
+ * - Le déversement, l'évaporation et l'infiltration
  *
  * Il fournit :
- * - Un observable du niveau d'eau du barrage
+ * - Un observable de l'état complet de la retenue (volume, cote, débits)
+ * - Un observable du taux de remplissage du barrage, déduit du volume par la courbe hauteur-volume
  * - Une fonction pour définir le niveau d'eau initial
- * - Une référence réactive au volume d'eau du barrage
- * - Une fonction pour mettre à jour le volume d'eau du barrage
+ * - Des fonctions pour piloter les vannes (évacuateur de crues et vidange de fond)
+ * - Une fonction pour remplacer la règle d'exploitation (courbes guides par défaut)
  *
  * Pourquoi c'est ainsi fait :
  * - L'utilisation d'observables permet une gestion réactive et en temps réel du niveau d'eau.
  * - La séparation des sources de données (eau, météo, glacier) permet une modularité et une flexibilité accrues.
- * - Le calcul du niveau d'eau prend en compte de multiples facteurs pour une simulation réaliste.
- * - L'utilisation de RxJS permet une gestion efficace des flux de données asynchrones et complexes.
+ * - Les sous-systèmes en aval consomment les débits sortants de reservoir$, ce qui garantit que
+ *   l'eau qu'ils traitent est celle qui a réellement quitté la retenue.
  */
 export function useDamManagement(
   waterSource$: Observable<number>,
-  weatherSource$: Observable<WeatherCondition>,
+  weatherSource$: Observable<WeatherState>,
   glacierMelt$: Observable<{ volume: number; meltRate: number; waterFlow: number }>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  upstream$?: Observable<WaterBatch>,
+  irrigationDemand$: Observable<number> = of(0),
 ) {
   /**
    * Niveau d'eau initial du barrage.
    *
    * @type {BehaviorSubject<number>}
    * @description
-   * Utilise un BehaviorSubject pour stocker et émettre le niveau d'eau initial du barrage.
-   * La valeur initiale est fixée à 70% de la capacité du barrage.
+   * Utilise un BehaviorSubject pour stocker et émettre le niveau d'eau initial du barrage
+   * (en pourcentage de la capacité), converti en volume au démarrage du bilan.
    *
    * Pourquoi c'est ainsi fait :
    * - BehaviorSubject permet d'avoir une valeur initiale et d'émettre la dernière valeur à chaque nouvelle souscription.
    * - Cela assure que le système a toujours une valeur de niveau d'eau, même avant la première mise à jour.
    */
-  const initialWaterLevel = new BehaviorSubject<number>(70);
+  const initialWaterLevel = new BehaviorSubject<number>(config.INITIAL_DAM_WATER_LEVEL);
 
   /**
-   * Observable du niveau d'eau du barrage.
+   * Consigne des vannes de la retenue.
    *
-   * @type {Observable<number>}
+   * @type {BehaviorSubject<DamGateSettings>}
    * @description
-   * Cet observable combine les sources d'eau, les conditions météorologiques et la fonte des glaciers
-   * pour calculer en continu le niveau d'eau du barrage.
+   * La consigne est lue à chaque pas du bilan : une ouverture manuelle s'applique dès le tick suivant.
+   * Elle n'est pas remise à zéro par setInitialWaterLevel, la position des vannes étant
+   * indépendante du volume stocké.
+   */
+  const gateSettings = new BehaviorSubject<DamGateSettings>(DEFAULT_GATE_SETTINGS);
+
+  /**
+   * Règle d'exploitation de la retenue.
+   *
+   * @type {BehaviorSubject<OperatingPolicy>}
+   * @description
+   * Par défaut, les courbes guides saisonnières de la configuration. Une autre règle peut être
+   * branchée à chaud (setOperatingPolicy) : elle s'applique dès le tick suivant.
+   */
+  const operatingPolicy = new BehaviorSubject<OperatingPolicy>(createRuleCurvePolicy(config));
+
+  /**
+   * Observable de l'état de la retenue.
    *
-   * Le calcul prend en compte :
-   * - L'apport d'eau des différentes sources
-   * - L'impact des conditions météorologiques
-   * - L'utilisation de l'eau
-   * - Un facteur de lissage pour éviter les changements brusques
+   * @type {Observable<ReservoirState>}
+   * @description
+   * Le bilan de masse est recalculé à chaque tick de l'horloge de simulation, à partir des
+   * dernières valeurs des sources, sur la durée simulée du tick. Une retenue en cascade est
+   * recalculée à chaque lot reçu de l'amont, qui porte la durée du tick : elle traite ainsi
+   * l'eau lâchée en amont au cours du même tick.
    *
    * Pourquoi c'est ainsi fait :
-   * - L'utilisation de combineLatest permet de réagir à tout changement dans l'une des sources de données.
-   * - L'opérateur scan permet de conserver l'état précédent et de calculer incrémentalement le nouveau niveau.
-   * - Le traitement des erreurs et la mesure des performances sont intégrés pour assurer la robustesse et l'optimisation.
-   * - shareReplay(1) permet de partager le dernier résultat calculé avec tous les abonnés, optimisant ainsi les performances.
+   * - Chaque nouveau niveau initial (setInitialWaterLevel) redémarre le bilan depuis le volume correspondant.
+   * - L'opérateur scan conserve l'état précédent ; startWith publie l'état initial sans attendre le premier tick.
+   * - shareReplay(1) permet de partager le dernier état calculé avec tous les abonnés.
    */
-  const dam$ = combineLatest([waterSource$, weatherSource$, glacierMelt$, initialWaterLevel]).pipe(
-    /**
-     * Fonction de calcul du niveau d'eau du barrage.
-     *
-     * @function
-     * @param {number} acc - Le niveau d'eau actuel du barrage (en pourcentage).
-     * @param {[number, WeatherCondition, { volume: number; meltRate: number; waterFlow: number }, number]} args - Les arguments du calcul.
-     * @returns {number} Le nouveau niveau d'eau du barrage.
-     *
-     * @description
-     * Cette fonction calcule le niveau d'eau du barrage en fonction des données d'entrée :
-     * - waterInput : Apport d'eau de la rivière.
-     * - weather : Conditions météorologiques.
-     * - glacier : Données de fonte du glacier.
-     * - initialLevel : Niveau d'eau initial du barrage.
-     *
-     * Elle ajuste le niveau d'eau en fonction de l'apport d'eau, de la fonte du glacier, de l'utilisation de l'eau et des conditions météorologiques.
-     *
-     * Pourquoi c'est ainsi fait :
-     * - L'utilisation de scan permet de conserver l'état précédent et de calculer incrémentalement le nouveau niveau.
-     * - Le traitement des erreurs et la mesure des performances sont intégrés pour assurer la robustesse et l'optimisation.
-     * - shareReplay(1) permet de partager le dernier résultat calculé avec tous les abonnés, optimisant ainsi les performances.
-     */
-    scan((acc, [waterInput, weather, glacier, initialLevel]) => {
-      let adjustedLevel = acc;
-
-      // Ajouter l'apport d'eau
-      adjustedLevel += waterInput * WATER_ACCUMULATION_FACTOR;
-      adjustedLevel += glacier.waterFlow * WATER_ACCUMULATION_FACTOR;
-
-      // Simuler l'utilisation de l'eau
-      adjustedLevel -= adjustedLevel * WATER_USAGE_FACTOR;
-
-      // Appliquer les facteurs météorologiques
-      switch (weather) {
-        case 'pluvieux':
-          adjustedLevel *= WEATHER_FACTOR_RAINY;
-          break;
-        case 'orageux':
-          adjustedLevel *= WEATHER_FACTOR_STORMY;
-          break;
-        case 'ensoleillé':
-          adjustedLevel *= WEATHER_FACTOR_SUNNY;
-          break;
-      }
-
-      // Appliquer le lissage
-      adjustedLevel = acc + (adjustedLevel - acc) * SMOOTHING_FACTOR;
-
-      // Assurer que le niveau reste entre 0 et 100
-      return Math.max(0, Math.min(adjustedLevel, 100));
-    }, initialWaterLevel.getValue()),
-    catchError((error) => handleError(error, 'Calcul du niveau du barrage')),
+  const reservoir$: Observable<ReservoirState> = initialWaterLevel.pipe(
+    switchMap((initialLevel) => {
+      const initialState = createReservoirState(
+        volumeFromLevel(config.DAM_STAGE_STORAGE_CURVE, initialLevel),
+        config,
+        deps.getCurrentTime(),
+      );
+      const driver$: Observable<WaterBatch> =
+        upstream$ ??
+        deps.clock.tick$.pipe(map((tick) => ({ duration: tickSeconds(tick), volume: 0 })));
+      return driver$.pipe(
+        withLatestFrom(
+          waterSource$,
+          weatherSource$,
+          glacierMelt$,
+          gateSettings,
+          operatingPolicy,
+          irrigationDemand$,
+        ),
+        scan(
+          (
+            state,
+            [{ duration, volume }, riverInflow, weather, glacier, gates, policy, irrigationDemand],
+          ) =>
+            stepReservoir(
+              state,
+              {
+                riverInflow,
+                glacierInflow: glacier.waterFlow,
+                upstreamInflow: duration > 0 ? volume / duration : 0,
+                irrigationDemand,
+                weather: weather.condition,
+                precipitation: weather.precipitation,
+                gates,
+                time: deps.getCurrentTime() - duration * 1000,
+              },
+              duration,
+              config,
+              policy,
+            ),
+          initialState,
+        ),
+        startWith(initialState),
+      );
+    }),
+    catchError((error) => handleError(error, 'Bilan de masse du barrage')),
+    shareReplay(1),
+  );
+
+  /**
+   * Observable du niveau d'eau du barrage (en pourcentage de la capacité).
+   */
+  const dam$ = reservoir$.pipe(
+    map(({ level }) => level),
     shareReplay(1),
   );
 
@@ -179,74 +510,60 @@ export function useDamManagement(
    * Fonction pour définir le niveau d'eau initial du barrage.
    *
    * @function
-   * @param {number} level - Le nouveau niveau d'eau initial à définir.
+   * @param {number} level - Le nouveau niveau d'eau initial à définir (en pourcentage).
    *
    * @description
-   * Cette fonction permet de modifier le niveau d'eau initial du barrage.
+   * Cette fonction redémarre le bilan de masse depuis le volume correspondant au niveau donné.
    * Elle est utilisée pour initialiser ou réinitialiser le système.
-   *
-   * Pourquoi c'est ainsi fait :
-   * - L'utilisation d'une fonction séparée permet de contrôler explicitement quand le niveau initial est modifié.
-   * - Cela offre une flexibilité pour réinitialiser le système ou ajuster le niveau initial selon les besoins.
    */
   const setInitialWaterLevel = (level: number) => {
     initialWaterLevel.next(level);
   };
 
   /**
-   * Volume d'eau actuel du barrage.
-   *
-   * @type {Ref<number>}
-   * @description
-   * Cette référence réactive stocke le volume d'eau actuel du barrage en mètres cubes.
+   * Fonction pour modifier la consigne d'une vanne.
    *
-   * Pourquoi c'est ainsi fait :
-   * - L'utilisation d'une ref Vue permet une réactivité dans les composants Vue qui utilisent cette valeur.
-   * - Séparer le volume d'eau du niveau d'eau permet des calculs et des affichages plus flexibles.
+   * @function
+   * @param {DamGate} gate - La vanne (évacuateur de crues ou vidange de fond)
+   * @param {Partial<GateSetting>} setting - Le mode et/ou l'ouverture (%, bornée entre 0 et 100)
    */
-  const damWaterVolume = ref(0);
+  const setGate = (gate: DamGate, setting: Partial<GateSetting>) => {
+    const current = gateSettings.getValue();
+    const next = { ...current[gate], ...setting };
+    next.opening = Math.max(0, Math.min(next.opening, 100));
+    gateSettings.next({ ...current, [gate]: next });
+  };
 
   /**
-   * Fonction pour calculer le volume d'eau dans le barrage.
+   * Fonction pour remplacer la règle d'exploitation de la retenue.
    *
    * @function
-   * @param {number} waterLevel - Le niveau d'eau actuel du barrage (en pourcentage).
-   * @returns {number} Le volume d'eau calculé en mètres cubes.
-   *
-   * @description
-   * Cette fonction calcule le volume d'eau dans le barrage en fonction du niveau d'eau actuel.
-   * Elle utilise la capacité initiale du barrage définie dans la configuration du système.
-   *
-   * Pourquoi c'est ainsi fait :
-   * - La séparation de ce calcul dans une fonction dédiée permet sa réutilisation et facilite les tests unitaires.
-   * - L'utilisation de la configuration du système permet une flexibilité dans la définition de la capacité du barrage.
+   * @param {OperatingPolicy} policy - La nouvelle règle, appelée à chaque pas du bilan
    */
-  const calculateDamWaterVolume = (waterLevel: number) => {
-    return (waterLevel * waterSystemConfig.INITIAL_DAM_WATER_VOLUME) / 100;
+  const setOperatingPolicy = (policy: OperatingPolicy) => {
+    operatingPolicy.next(policy);
   };
 
   /**
-   * Fonction pour mettre à jour le volume d'eau du barrage.
-   *
-   * @function
-   * @param {number} waterLevel - Le niveau d'eau actuel du barrage (en pourcentage).
-   *
-   * @description
-   * Cette fonction met à jour la référence réactive damWaterVolume avec le nouveau volume calculé.
-   * Elle est appelée chaque fois que le niveau d'eau du barrage change.
-   *
-   * Pourquoi c'est ainsi fait :
-   * - La séparation de cette mise à jour dans une fonction dédiée permet un contrôle précis sur quand et comment le volume est mis à jour.
-   * - Cela facilite également l'ajout de logique supplémentaire liée à la mise à jour du volume si nécessaire à l'avenir.
+   * Fonction retournant la règle d'exploitation en vigueur.
+   */
+  const getOperatingPolicy = () => operatingPolicy.getValue();
+
+  /**
+   * Fonction pour remettre les vannes en pilotage automatique.
    */
-  const updateDamWaterVolume = (waterLevel: number) => {
-    damWaterVolume.value = calculateDamWaterVolume(waterLevel);
+  const resetGates = () => {
+    gateSettings.next(DEFAULT_GATE_SETTINGS);
   };
 
   return {
+    reservoir$,
     dam$,
+    gateSettings$: gateSettings.asObservable(),
     setInitialWaterLevel,
-    damWaterVolume,
-    updateDamWaterVolume,
+    setGate,
+    resetGates,
+    setOperatingPolicy,
+    getOperatingPolicy,
   };
 }
@@ -0,0 +1,246 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DrinkingWaterSegment,
+  DroughtStagePeriod,
+  DroughtState,
+  ReservoirState,
+  SystemForecast,
+  WaterSystemDependencies,
+} from '@/types/waterSystem';
+import { ruleCurveTargets } from '@/utils/operatingPolicy';
+import { everySimulated } from '@/utils/simulationClock';
+import { BehaviorSubject, type Observable, merge } from 'rxjs';
+import { map, scan, shareReplay, switchMap, take, withLatestFrom } from 'rxjs/operators';
+import { gateRelease, totalOutflow, volumeFromLevel } from './useDamManagement';
+import { drinkingWaterSegments } from './useUserWaterManagement';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Facteurs de la demande et de l'irrigation sous un palier (aucune restriction au rang 0).
+ */
+function restrictions(
+  severity: number,
+  config: Readonly<WaterSystemConfig>,
+): Pick<DroughtState, 'demandFactors' | 'irrigationFactor'> {
+  const stage = severity > 0 ? config.DROUGHT_STAGES[severity - 1] : null;
+  const demandFactors = {} as Record<DrinkingWaterSegment, number>;
+  for (const segment of drinkingWaterSegments(config)) {
+    demandFactors[segment] = 1 - (stage?.demandReduction[segment] ?? 0);
+  }
+  return { demandFactors, irrigationFactor: stage?.irrigationLimit ?? 1 };
+}
+
+/**
+ * Crée l'état du plan de gestion de la sécheresse hors sécheresse, sans restriction.
+ *
+ * @param {number} time - L'instant simulé de départ de l'historique (ms)
+ * @param {WaterSystemConfig} config - La configuration (remplissage initial de la retenue)
+ * @returns {DroughtState} L'état initial
+ */
+export function createDroughtState(
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): DroughtState {
+  return {
+    stage: null,
+    severity: 0,
+    level: config.INITIAL_DAM_WATER_LEVEL,
+    forecastInflow: 0,
+    daysOfStorage: null,
+    ...restrictions(0, config),
+    history: [{ stage: null, start: time, end: null }],
+  };
+}
+
+/**
+ * Nombre de jours avant que la retenue n'atteigne son culot mort.
+ *
+ * @param {ReservoirState} reservoir - L'état de la retenue
+ * @param {number} forecastInflow - L'apport moyen prévu (m³/s)
+ * @param {number} time - L'instant simulé (ms), qui fixe le culot mort des courbes guides
+ * @param {WaterSystemConfig} config - La configuration (courbe hauteur-volume, courbes guides)
+ * @returns {number | null} Le nombre de jours, ou null si la réserve ne diminue pas
+ *
+ * @description
+ * Les prélèvements actuels (purification, turbinage, évaporation, infiltration) sont supposés
+ * persister, face à l'apport prévu ; les lâchers des vannes, qui évacuent un excédent, ne sont
+ * pas comptés.
+ */
+export function daysOfStorage(
+  reservoir: ReservoirState,
+  forecastInflow: number,
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number | null {
+  const draft = totalOutflow(reservoir.outflows) - gateRelease(reservoir.outflows) - forecastInflow;
+  if (draft <= 0) return null;
+  const deadStorage = volumeFromLevel(
+    config.DAM_STAGE_STORAGE_CURVE,
+    ruleCurveTargets(config.DAM_RULE_CURVES, time).deadStorage,
+  );
+  return (Math.max(0, reservoir.volume - deadStorage) / draft) * (1000 / DAY);
+}
+
+/**
+ * Rang du palier le plus sévère dont l'un des seuils est franchi, 0 si aucun ne l'est.
+ *
+ * @param {Object} inputs - Le remplissage de la retenue (%), l'apport moyen prévu (m³/s) et les
+ * jours de réserve (null si la réserve ne diminue pas)
+ * @param {WaterSystemConfig} config - La configuration (paliers)
+ * @returns {number} Le rang du palier déclenché (1 pour le moins sévère)
+ */
+export function triggeredDroughtSeverity(
+  inputs: { level: number; forecastInflow: number; daysOfStorage: number | null },
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  let severity = 0;
+  config.DROUGHT_STAGES.forEach((stage, i) => {
+    if (
+      inputs.level < stage.maxLevel ||
+      inputs.forecastInflow < stage.maxForecastInflow ||
+      (inputs.daysOfStorage !== null && inputs.daysOfStorage < stage.maxDaysOfStorage)
+    ) {
+      severity = i + 1;
+    }
+  });
+  return severity;
+}
+
+/**
+ * Réévalue le palier de sécheresse.
+ *
+ * @param {DroughtState} state - L'état du plan à la dernière évaluation
+ * @param {Object} inputs - L'instant simulé (ms), l'état de la retenue et l'apport moyen prévu (m³/s)
+ * @param {WaterSystemConfig} config - La configuration (paliers, durée minimale d'un palier)
+ * @returns {DroughtState} L'état du plan, dont l'historique est complété si le palier change
+ *
+ * @description
+ * Un palier plus sévère s'applique dès qu'il est déclenché. Les restrictions ne sont allégées
+ * qu'après DROUGHT_MIN_STAGE_DURATION dans le palier actif : une averse isolée ne lève pas des
+ * restrictions qui seraient rétablies quelques jours plus tard.
+ */
+export function stepDroughtManagement(
+  state: DroughtState,
+  inputs: { time: number; reservoir: ReservoirState; forecastInflow: number },
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): DroughtState {
+  const { time, reservoir, forecastInflow } = inputs;
+  const days = daysOfStorage(reservoir, forecastInflow, time, config);
+  const triggered = triggeredDroughtSeverity(
+    { level: reservoir.level, forecastInflow, daysOfStorage: days },
+    config,
+  );
+  const current = state.history[state.history.length - 1];
+  const severity =
+    triggered > state.severity || time - current.start >= config.DROUGHT_MIN_STAGE_DURATION
+      ? triggered
+      : state.severity;
+  const stage = severity > 0 ? config.DROUGHT_STAGES[severity - 1].id : null;
+
+  return {
+    stage,
+    severity,
+    level: reservoir.level,
+    forecastInflow,
+    daysOfStorage: days,
+    ...restrictions(severity, config),
+    history:
+      severity === state.severity
+        ? state.history
+        : [
+            ...state.history.slice(0, -1),
+            { ...current, end: time },
+            { stage, start: time, end: null },
+          ],
+  };
+}
+
+/**
+ * Durée passée dans chaque palier (jours), d'après l'historique du plan.
+ *
+ * @param {DroughtStagePeriod[]} history - Les périodes successives
+ * @param {number} until - L'instant simulé qui clôt la période en cours (ms)
+ * @param {WaterSystemConfig} config - La configuration (paliers)
+ * @returns {Record<string, number>} La durée de chaque palier, par identifiant
+ */
+export function droughtStageDays(
+  history: readonly DroughtStagePeriod[],
+  until: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): Record<string, number> {
+  const days: Record<string, number> = {};
+  for (const { id } of config.DROUGHT_STAGES) days[id] = 0;
+  for (const { stage, start, end } of history) {
+    if (stage !== null) days[stage] = (days[stage] ?? 0) + ((end ?? until) - start) / DAY;
+  }
+  return days;
+}
+
+/**
+ * Composable pour le plan de gestion de la sécheresse.
+ *
+ * @param {Observable<ReservoirState>} reservoir$ - L'état de la retenue surveillée
+ * @param {Observable<SystemForecast>} forecast$ - Les prévisions, dont l'apport moyen sur l'horizon
+ * déclenche les paliers
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (paliers, fréquence d'évaluation)
+ * @returns {Object} L'état du plan et la remise à zéro de son historique
+ *
+ * @description
+ * Le palier est réévalué à chaque intervalle DROUGHT_EVALUATION_INTERVAL de temps simulé (voir
+ * stepDroughtManagement). L'état initial, sans restriction, est publié dès la souscription et à
+ * chaque remise à zéro (reset).
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Une seule prévision est lue par évaluation : une simulation en lot qui n'observe pas les
+ *   prévisions ne les calcule qu'une fois par intervalle d'évaluation.
+ */
+export function useDroughtManagement(
+  reservoir$: Observable<ReservoirState>,
+  forecast$: Observable<SystemForecast>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const restart = new BehaviorSubject<void>(undefined);
+
+  const evaluation$ = deps.clock.tick$.pipe(
+    everySimulated(config.DROUGHT_EVALUATION_INTERVAL),
+    withLatestFrom(reservoir$),
+    switchMap(([, reservoir]) =>
+      forecast$.pipe(
+        take(1),
+        map(({ points }) => ({
+          time: deps.getCurrentTime(),
+          reservoir,
+          forecastInflow:
+            points.length > 0
+              ? points.reduce((acc, { inflow }) => acc + inflow, 0) / points.length
+              : reservoir.inflow,
+        })),
+      ),
+    ),
+  );
+
+  // La remise à zéro publie l'état initial, puis chaque évaluation fait avancer le plan
+  const drought$: Observable<DroughtState> = merge(restart.pipe(map(() => null)), evaluation$).pipe(
+    scan<{ time: number; reservoir: ReservoirState; forecastInflow: number } | null, DroughtState>(
+      (state, inputs) =>
+        inputs
+          ? stepDroughtManagement(state, inputs, config)
+          : createDroughtState(deps.getCurrentTime(), config),
+      createDroughtState(deps.getCurrentTime(), config),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  /**
+   * Lève les restrictions et repart d'un historique vide à l'instant courant.
+   */
+  const reset = () => restart.next();
+
+  return {
+    drought$,
+    reset,
+  };
+}
@@ -0,0 +1,105 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type { EnsembleReport, Scenario, ScenarioReport } from '@/types/waterSystem';
+import { aggregateEnsemble, ensembleSeeds } from '@/utils/ensemble';
+import { parseScenario, validateScenario } from '@/utils/scenario';
+import { ref, shallowRef } from 'vue';
+import { runScenario } from './WaterSystemEngine';
+
+/**
+ * Composable pour lancer une simulation d'ensemble (Monte-Carlo) depuis l'interface.
+ *
+ * @param {WaterSystemConfig} config - La configuration de base des membres
+ * @returns {Object} Le rapport, l'avancement et les fonctions pour lancer ou interrompre l'ensemble
+ *
+ * @description
+ * Les membres sont exécutés un par un, comme dans runEnsemble, mais la main est rendue au
+ * navigateur entre deux membres : l'avancement s'affiche et l'ensemble peut être interrompu.
+ * Sans scénario chargé, l'ensemble simule l'évolution libre du système sur
+ * ENSEMBLE_DURATION_DAYS jours.
+ */
+export function useEnsemble(config: Readonly<WaterSystemConfig> = waterSystemConfig) {
+  const scenario = shallowRef<Scenario>({
+    name: 'Évolution libre',
+    durationDays: config.ENSEMBLE_DURATION_DAYS,
+    events: [],
+  });
+  const report = shallowRef<EnsembleReport | null>(null);
+  const completedRuns = ref(0);
+  const isRunning = ref(false);
+  const error = ref<string | null>(null);
+  let cancelled = false;
+
+  /**
+   * Charge un scénario depuis un fichier JSON local.
+   */
+  async function loadScenarioFile(file: File): Promise<void> {
+    try {
+      scenario.value = parseScenario(await file.text(), config);
+      error.value = null;
+    } catch (e) {
+      error.value = `Scénario illisible : ${(e as Error).message}`;
+    }
+  }
+
+  /**
+   * Exécute l'ensemble du scénario courant.
+   *
+   * @param {number} runs - Le nombre de membres
+   * @param {number} durationDays - La durée simulée, qui remplace celle du scénario
+   */
+  async function run(runs: number = config.ENSEMBLE_RUNS, durationDays?: number): Promise<void> {
+    if (isRunning.value) return;
+    if (!Number.isInteger(runs) || runs < 1) {
+      error.value = "Le nombre de membres de l'ensemble doit être un entier positif";
+      return;
+    }
+    const current = {
+      ...scenario.value,
+      durationDays: durationDays ?? scenario.value.durationDays,
+    };
+    try {
+      validateScenario(current, config);
+    } catch (e) {
+      error.value = (e as Error).message;
+      return;
+    }
+
+    isRunning.value = true;
+    cancelled = false;
+    completedRuns.value = 0;
+    error.value = null;
+    const seeds = ensembleSeeds(current.seed ?? config.SIMULATION_SEED, runs);
+    const reports: ScenarioReport[] = [];
+    try {
+      for (const seed of seeds) {
+        if (cancelled) return;
+        reports.push(runScenario({ ...current, seed }, config));
+        completedRuns.value = reports.length;
+        await new Promise((resolve) => setTimeout(resolve));
+      }
+      report.value = aggregateEnsemble(reports, seeds, config);
+    } catch (e) {
+      error.value = (e as Error).message;
+    } finally {
+      isRunning.value = false;
+    }
+  }
+
+  /**
+   * Interrompt l'ensemble en cours après le membre courant ; le rapport précédent est conservé.
+   */
+  function cancel(): void {
+    cancelled = true;
+  }
+
+  return {
+    scenario,
+    report,
+    completedRuns,
+    isRunning,
+    error,
+    loadScenarioFile,
+    run,
+    cancel,
+  };
+}
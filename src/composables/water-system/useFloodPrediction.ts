@@ -1,25 +1,218 @@
-import type { WeatherCondition } from '@/types/waterSystem';
-import { type Observable, interval, withLatestFrom } from 'rxjs';
-import { map, shareReplay } from 'rxjs/operators';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  FloodForecast,
+  RiverReach,
+  RiverReachState,
+  SimulationTick,
+  WaterSystemDependencies,
+  WeatherState,
+} from '@/types/waterSystem';
+import { interpolateCurve } from '@/utils/interpolation';
+import { everySimulated } from '@/utils/simulationClock';
+import { type Observable, withLatestFrom } from 'rxjs';
+import { scan, shareReplay } from 'rxjs/operators';
 
+/**
+ * Coefficients de Muskingum d'un tronçon pour un pas de routage.
+ *
+ * @param {number} k - Le temps de transit du tronçon (s)
+ * @param {number} x - Le facteur de pondération (0 à 0,5)
+ * @param {number} dt - Le pas de routage (s)
+ * @returns {[number, number, number]} Les coefficients C0, C1, C2, de somme 1
+ *
+ * @description
+ * Le débit sortant vaut O₂ = C0·I₂ + C1·I₁ + C2·O₁. Les trois coefficients sont positifs,
+ * donc le routage est stable et sans oscillation, si 2·K·X ≤ dt ≤ 2·K·(1 − X).
+ */
+export function muskingumCoefficients(k: number, x: number, dt: number): [number, number, number] {
+  const denominator = 2 * k * (1 - x) + dt;
+  return [
+    (dt - 2 * k * x) / denominator,
+    (dt + 2 * k * x) / denominator,
+    (2 * k * (1 - x) - dt) / denominator,
+  ];
+}
+
+/**
+ * Apport latéral d'un tronçon : débit de base des affluents et ruissellement de la pluie (m³/s).
+ * Une pluie de 1 mm/h sur 1 km² représente 1/3,6 m³/s.
+ */
+function lateralInflow(reach: RiverReach, precipitation: number): number {
+  return reach.baseFlow + (reach.runoffCoefficient * precipitation * reach.catchmentArea) / 3.6;
+}
+
+/**
+ * État de la rivière en régime permanent pour un lâcher et une pluie donnés.
+ */
+export function createRiverState(
+  release: number,
+  precipitation: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): RiverReachState[] {
+  let flow = release;
+  return config.FLOOD_REACHES.map((reach) => {
+    flow += lateralInflow(reach, precipitation);
+    return { inflow: flow, outflow: flow };
+  });
+}
+
+/**
+ * Route les débits d'un pas FLOOD_ROUTING_STEP le long des tronçons, de l'amont vers l'aval.
+ *
+ * @param {readonly RiverReachState[]} river - L'état des tronçons au pas précédent
+ * @param {number} release - Le débit restitué à la rivière par le barrage (m³/s)
+ * @param {number} precipitation - L'intensité de la pluie sur le bassin intermédiaire (mm/h)
+ * @param {WaterSystemConfig} config - La configuration (tronçons et pas de routage)
+ * @returns {RiverReachState[]} L'état des tronçons à la fin du pas
+ *
+ * @description
+ * Le débit entrant d'un tronçon est le débit sortant du tronçon amont (le lâcher du barrage
+ * pour le premier), augmenté de son apport latéral.
+ */
+export function routeRiver(
+  river: readonly RiverReachState[],
+  release: number,
+  precipitation: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): RiverReachState[] {
+  const dt = config.FLOOD_ROUTING_STEP / 1000;
+  let upstream = release;
+  return config.FLOOD_REACHES.map((reach, i) => {
+    const [c0, c1, c2] = muskingumCoefficients(reach.muskingumK, reach.muskingumX, dt);
+    const inflow = upstream + lateralInflow(reach, precipitation);
+    const outflow = Math.max(0, c0 * inflow + c1 * river[i].inflow + c2 * river[i].outflow);
+    upstream = outflow;
+    return { inflow, outflow };
+  });
+}
+
+/**
+ * Risque de crue d'un point de contrôle pour une hauteur d'eau : 0 à la cote normale, 50 à la
+ * cote de vigilance, 100 à la cote de danger, avec une interpolation linéaire entre ces cotes.
+ */
+export function checkpointRisk(stage: number, floodStages: RiverReach['floodStages']): number {
+  return interpolateCurve(
+    [
+      { stage: floodStages.normal, risk: 0 },
+      { stage: floodStages.warning, risk: 50 },
+      { stage: floodStages.danger, risk: 100 },
+    ],
+    'stage',
+    'risk',
+    stage,
+  );
+}
+
+/**
+ * Prévision des crues à partir de l'état actuel de la rivière.
+ *
+ * @param {RiverReachState[]} river - L'état actuel des tronçons
+ * @param {number} release - Le débit restitué à la rivière par le barrage (m³/s)
+ * @param {number} precipitation - L'intensité de la pluie (mm/h)
+ * @param {WaterSystemConfig} config - La configuration (tronçons et horizon de prévision)
+ * @returns {FloodForecast} Les hauteurs actuelles et prévues et le risque à chaque point de contrôle
+ *
+ * @description
+ * La rivière est routée sur FLOOD_FORECAST_HORIZON en supposant que le lâcher et la pluie
+ * actuels persistent. Le risque d'un point de contrôle découle de la hauteur maximale prévue
+ * (voir checkpointRisk) : l'exploitant voit la crue arriver avant qu'elle n'atteigne l'aval, et
+ * peut réduire les lâchers tant que l'onde est encore dans les tronçons amont.
+ */
+export function forecastFloods(
+  river: RiverReachState[],
+  release: number,
+  precipitation: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): FloodForecast {
+  const peaks = river.map(({ outflow }) => outflow);
+  let projected = river;
+  for (let t = 0; t < config.FLOOD_FORECAST_HORIZON; t += config.FLOOD_ROUTING_STEP) {
+    projected = routeRiver(projected, release, precipitation, config);
+    projected.forEach(({ outflow }, i) => {
+      peaks[i] = Math.max(peaks[i], outflow);
+    });
+  }
+
+  const checkpoints = config.FLOOD_REACHES.map((reach, i) => {
+    const forecastStage = interpolateCurve(reach.ratingCurve, 'flow', 'stage', peaks[i]);
+    return {
+      id: reach.id,
+      name: reach.name,
+      flow: river[i].outflow,
+      stage: interpolateCurve(reach.ratingCurve, 'flow', 'stage', river[i].outflow),
+      forecastStage,
+      risk: checkpointRisk(forecastStage, reach.floodStages),
+    };
+  });
+  return {
+    reaches: river,
+    checkpoints,
+    risk: Math.max(0, ...checkpoints.map(({ risk }) => risk)),
+  };
+}
+
+/**
+ * Prévision des crues d'une rivière en régime permanent (état initial du système).
+ */
+export function createFloodForecast(
+  release: number,
+  precipitation: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): FloodForecast {
+  return forecastFloods(
+    createRiverState(release, precipitation, config),
+    release,
+    precipitation,
+    config,
+  );
+}
+
+/**
+ * Composable pour la prévision des crues en aval du barrage.
+ *
+ * @param {Observable<number>} release$ - Observable du débit restitué à la rivière par le barrage (m³/s)
+ * @param {Observable<WeatherState>} weather$ - Observable de la météo (pluie sur le bassin intermédiaire)
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration du système (tronçons, pas de routage, horizon)
+ * @returns {Object} Un objet contenant l'observable de la prévision des crues
+ *
+ * @description
+ * Les lâchers du barrage et le ruissellement local sont routés le long des tronçons de
+ * FLOOD_REACHES par la méthode de Muskingum, à chaque pas FLOOD_ROUTING_STEP simulé (voir
+ * routeRiver). La hauteur d'eau de chaque point de contrôle est lue sur sa courbe de tarage, et
+ * le risque découle du dépassement des cotes de vigilance et de danger sur l'horizon de
+ * prévision (voir forecastFloods). La rivière part du régime permanent correspondant aux
+ * premières valeurs reçues.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Le pas de routage est fixe, indépendant de la durée des ticks : les coefficients de
+ *   Muskingum restent positifs et le routage est stable quelle que soit la vitesse de simulation.
+ */
 export function useFloodPrediction(
-  dam$: Observable<number>,
-  weatherSource$: Observable<WeatherCondition>,
+  release$: Observable<number>,
+  weather$: Observable<WeatherState>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
-  const floodPrediction$ = interval(1000).pipe(
-    withLatestFrom(dam$, weatherSource$),
-    map(([, waterLevel, weather]) => {
-      let risk = 0;
-      if (weather === 'pluvieux') risk += 20;
-      if (weather === 'orageux') risk += 40;
-      if (waterLevel > 80) risk += 30;
-      if (waterLevel > 90) risk += 20;
-      return Math.min(100, risk);
-    }),
+  const step = config.FLOOD_ROUTING_STEP;
+  const floodForecast$ = deps.clock.tick$.pipe(
+    everySimulated(step),
+    withLatestFrom(release$, weather$),
+    scan<[SimulationTick, number, WeatherState], FloodForecast, null>(
+      (forecast, [{ time, dt }, release, { precipitation }]) => {
+        let river = forecast?.reaches ?? createRiverState(release, precipitation, config);
+        const steps = Math.floor(time / step) - Math.floor((time - dt) / step);
+        for (let i = 0; i < steps; i++) {
+          river = routeRiver(river, release, precipitation, config);
+        }
+        return forecastFloods(river, release, precipitation, config);
+      },
+      null,
+    ),
     shareReplay(1),
   );
 
   return {
-    floodPrediction$,
+    floodForecast$,
   };
 }
@@ -0,0 +1,230 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  FloodForecast,
+  ForecastPoint,
+  OperatingPolicy,
+  ReservoirState,
+  RiverReachState,
+  SystemForecast,
+  WaterSystemDependencies,
+  WeatherCondition,
+  WeatherState,
+} from '@/types/waterSystem';
+import { interpolateCurve } from '@/utils/interpolation';
+import { everySimulated } from '@/utils/simulationClock';
+import { type Observable, withLatestFrom } from 'rxjs';
+import { map, shareReplay, startWith } from 'rxjs/operators';
+import { riverRelease, stepReservoir } from './useDamManagement';
+import { checkpointRisk, createRiverState, routeRiver } from './useFloodPrediction';
+import { expectedPrecipitation, mostLikelyWeather, propagateWeather } from './useWeatherSimulation';
+
+/**
+ * Situation de départ d'une prévision.
+ *
+ * @property {ReservoirState} reservoir - L'état actuel de la retenue, vannes et demande
+ * d'irrigation des exploitations comprises
+ * @property {RiverReachState[]} river - L'état actuel des tronçons en aval
+ * @property {WeatherState} weather - L'observation météorologique actuelle
+ * @property {number} riverInflow - Le débit actuel de la rivière (m³/s), supposé persistant
+ * @property {number} glacierInflow - Le débit actuel issu du glacier (m³/s), supposé persistant
+ * @property {OperatingPolicy} policy - La règle d'exploitation prévue
+ * @property {number} time - L'instant simulé d'émission (ms)
+ */
+export interface ForecastInputs {
+  reservoir: ReservoirState;
+  river: RiverReachState[];
+  weather: WeatherState;
+  riverInflow: number;
+  glacierInflow: number;
+  policy: OperatingPolicy;
+  time: number;
+}
+
+/**
+ * Instant où une grandeur franchit un seuil, interpolé entre deux échéances.
+ */
+function crossingTime(
+  points: readonly ForecastPoint[],
+  threshold: number,
+  crossed: (level: number) => boolean,
+): number | null {
+  const index = points.findIndex(({ waterLevel }) => crossed(waterLevel));
+  if (index <= 0) return index === 0 ? points[0].time : null;
+  const before = points[index - 1];
+  const after = points[index];
+  const ratio = (threshold - before.waterLevel) / (after.waterLevel - before.waterLevel);
+  return before.time + ratio * (after.time - before.time);
+}
+
+/**
+ * Risque de crue correspondant à l'état actuel des tronçons (voir checkpointRisk).
+ */
+function riverRisk(river: readonly RiverReachState[], config: Readonly<WaterSystemConfig>): number {
+  return Math.max(
+    0,
+    ...config.FLOOD_REACHES.map((reach, i) =>
+      checkpointRisk(
+        interpolateCurve(reach.ratingCurve, 'flow', 'stage', river[i].outflow),
+        reach.floodStages,
+      ),
+    ),
+  );
+}
+
+/**
+ * Projette le niveau de la retenue, ses apports et le risque de crue sur l'horizon de prévision.
+ *
+ * @param {ForecastInputs} inputs - La situation de départ
+ * @param {WaterSystemConfig} config - La configuration (pas et horizon de prévision)
+ * @returns {SystemForecast} Les échéances et les instants de franchissement des seuils de niveau
+ *
+ * @description
+ * À chaque pas FORECAST_STEP :
+ * - la météo suit la distribution de probabilité de la chaîne de Markov, partant de la
+ *   condition actuelle (voir propagateWeather) ; la pluie est l'intensité attendue
+ * - la retenue avance par son bilan de masse (voir stepReservoir), avec la règle d'exploitation
+ *   et les vannes actuelles, le débit de la rivière et du glacier ainsi que la demande
+ *   d'irrigation étant supposés persistants
+ * - les lâchers sont routés le long des tronçons en aval (voir routeRiver)
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Les exploitations demandent leur besoin, et non l'eau que la répartition leur a attribuée :
+ *   une retenue qui se vide ne voit pas pour autant la demande d'irrigation baisser.
+ * - La prévision suit l'espérance de la météo plutôt qu'une trajectoire tirée au hasard : elle
+ *   est déterministe et ne consomme pas le générateur aléatoire de la simulation.
+ */
+export function forecastSystem(
+  inputs: ForecastInputs,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): SystemForecast {
+  const weatherTransitions = Math.max(
+    1,
+    Math.round(config.FORECAST_STEP / config.WEATHER_CHANGE_INTERVAL),
+  );
+  const routingSteps = Math.max(1, Math.round(config.FORECAST_STEP / config.FLOOD_ROUTING_STEP));
+  const seconds = config.FORECAST_STEP / 1000;
+
+  let distribution = { ensoleillé: 0, nuageux: 0, pluvieux: 0, orageux: 0 } as Record<
+    WeatherCondition,
+    number
+  >;
+  distribution[inputs.weather.condition] = 1;
+  let { reservoir, river } = inputs;
+  const points: ForecastPoint[] = [];
+
+  for (
+    let time = inputs.time;
+    time < inputs.time + config.FORECAST_HORIZON;
+    time += config.FORECAST_STEP
+  ) {
+    for (let i = 0; i < weatherTransitions; i++) {
+      distribution = propagateWeather(distribution, time, config);
+    }
+    const weatherCondition = mostLikelyWeather(distribution);
+    const precipitation = expectedPrecipitation(distribution, config);
+
+    reservoir = stepReservoir(
+      reservoir,
+      {
+        riverInflow: inputs.riverInflow,
+        glacierInflow: inputs.glacierInflow,
+        irrigationDemand: inputs.reservoir.allocation.uses.irrigation.request,
+        weather: weatherCondition,
+        precipitation,
+        gates: inputs.reservoir.gates,
+        time,
+      },
+      seconds,
+      config,
+      inputs.policy,
+    );
+    for (let i = 0; i < routingSteps; i++) {
+      river = routeRiver(river, riverRelease(reservoir.outflows), precipitation, config);
+    }
+
+    points.push({
+      time: time + config.FORECAST_STEP,
+      waterLevel: reservoir.level,
+      inflow: reservoir.inflow,
+      floodRisk: riverRisk(river, config),
+      weatherCondition,
+      precipitation,
+    });
+  }
+
+  return {
+    issuedAt: inputs.time,
+    points,
+    veryHighAt:
+      inputs.reservoir.level >= config.VERY_HIGH_WATER_LEVEL
+        ? inputs.time
+        : crossingTime(
+            points,
+            config.VERY_HIGH_WATER_LEVEL,
+            (level) => level >= config.VERY_HIGH_WATER_LEVEL,
+          ),
+    criticalAt:
+      inputs.reservoir.level <= config.CRITICAL_WATER_LEVEL
+        ? inputs.time
+        : crossingTime(
+            points,
+            config.CRITICAL_WATER_LEVEL,
+            (level) => level <= config.CRITICAL_WATER_LEVEL,
+          ),
+  };
+}
+
+/**
+ * Composable pour la prévision à court terme du niveau de la retenue, des apports et des crues.
+ *
+ * @param {Observable<ReservoirState>} reservoir$ - Observable de l'état de la retenue, dont les
+ * apports de la rivière et du glacier servent de débits persistants
+ * @param {Observable<WeatherState>} weather$ - Observable des observations météorologiques
+ * @param {Observable<FloodForecast>} floodForecast$ - Observable de l'état de la rivière en aval, en
+ * régime permanent tant qu'aucun pas de routage n'a eu lieu
+ * @param {() => OperatingPolicy} getPolicy - Retourne la règle d'exploitation en vigueur
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (pas, horizon et fréquence de la prévision)
+ * @returns {Object} L'observable des prévisions
+ *
+ * @description
+ * Une prévision (voir forecastSystem) est émise dès la souscription, puis à chaque intervalle
+ * FORECAST_UPDATE_INTERVAL de temps simulé tant qu'elle est observée. Le plan de sécheresse en lit
+ * une à chacune de ses évaluations (voir useDroughtManagement) : une simulation en lot qui ne
+ * l'observe pas la calcule une fois par intervalle DROUGHT_EVALUATION_INTERVAL.
+ */
+export function useForecast(
+  reservoir$: Observable<ReservoirState>,
+  weather$: Observable<WeatherState>,
+  floodForecast$: Observable<FloodForecast>,
+  getPolicy: () => OperatingPolicy,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const forecast$: Observable<SystemForecast> = deps.clock.tick$.pipe(
+    everySimulated(config.FORECAST_UPDATE_INTERVAL),
+    startWith(null),
+    withLatestFrom(reservoir$, weather$, floodForecast$.pipe(startWith(null))),
+    map(([, reservoir, weather, flood]) =>
+      forecastSystem(
+        {
+          reservoir,
+          river:
+            flood?.reaches ??
+            createRiverState(riverRelease(reservoir.outflows), weather.precipitation, config),
+          weather,
+          riverInflow: reservoir.inflows.river + reservoir.inflows.upstream,
+          glacierInflow: reservoir.inflows.glacier,
+          policy: getPolicy(),
+          time: deps.getCurrentTime(),
+        },
+        config,
+      ),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  return {
+    forecast$,
+  };
+}
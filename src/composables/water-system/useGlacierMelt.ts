@@ -1,75 +1,159 @@
-import type { WeatherCondition } from '@/types/waterSystem';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type { GlacierState, WaterSystemDependencies, WeatherState } from '@/types/waterSystem';
 import { handleError } from '@/utils/errorHandler';
-import { type Observable, type Subject, interval, withLatestFrom } from 'rxjs';
-import { catchError, distinctUntilChanged, map, shareReplay, tap } from 'rxjs/operators';
+import { tickSeconds } from '@/utils/simulationClock';
+import { type Observable, withLatestFrom } from 'rxjs';
+import {
+  catchError,
+  distinctUntilChanged,
+  map,
+  scan,
+  shareReplay,
+  switchMap,
+} from 'rxjs/operators';
 
-// Constantes pour les taux de fonte selon les conditions météorologiques
-const MELT_RATE_SUNNY = 0.0001;
-const MELT_RATE_CLOUDY = 0.00005;
-const MELT_RATE_RAINY = 0.00015;
-const MELT_RATE_STORMY = 0.0002;
+/**
+ * Surface du glacier (m²) déduite de son volume par la relation V = c · S^γ.
+ */
+export function glacierArea(
+  volume: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  return (
+    (Math.max(0, volume) / config.GLACIER_VOLUME_AREA_COEFFICIENT) **
+    (1 / config.GLACIER_VOLUME_AREA_EXPONENT)
+  );
+}
 
-// Nouveau facteur pour simuler la perte d'eau (évaporation, infiltration, etc.)
-const WATER_LOSS_FACTOR = 0.95;
+/**
+ * Crée l'état d'un glacier au repos, sans fonte.
+ *
+ * @param {number} volume - Le volume de glace (m³)
+ * @param {WaterSystemConfig} config - La configuration (relation volume-surface, manteau initial)
+ * @param {number} temperature - La température de l'air à l'altitude du glacier (°C)
+ * @returns {GlacierState} L'état initial
+ */
+export function createGlacierState(
+  volume: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  temperature = 0,
+): GlacierState {
+  return {
+    volume,
+    area: glacierArea(volume, config),
+    snowpack: config.INITIAL_SNOWPACK,
+    temperature,
+    meltRate: 0,
+    waterFlow: 0,
+  };
+}
 
 /**
- * Composable pour simuler la fonte du glacier en fonction des conditions météorologiques.
- * @param {Observable<WeatherCondition>} weatherSource$ - Observable fournissant les conditions météorologiques.
- * @param {Subject<number>} glacierSource$ - Subject pour le volume du glacier.
+ * Fait avancer le glacier d'un pas de temps selon un modèle degré-jour.
+ *
+ * @param {GlacierState} state - L'état du glacier au début du pas
+ * @param {WeatherState} weather - La météo mesurée à la station
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (facteurs degré-jour, seuils, gradient)
+ * @returns {GlacierState} L'état du glacier à la fin du pas
+ *
+ * @description
+ * - La température de la station est ramenée à l'altitude du glacier par le gradient vertical.
+ * - Sous le seuil de neige, les précipitations s'accumulent dans le manteau neigeux ; au-dessus,
+ *   la pluie ruisselle directement sur le glacier.
+ * - Au-dessus du seuil de fonte, la neige fond d'abord (facteur neige), puis la glace mise à nu
+ *   fond pendant le reste du pas (facteur glace).
+ * - La surface, qui porte la fonte et la pluie, diminue avec le volume de glace.
+ */
+export function stepGlacier(
+  state: GlacierState,
+  weather: WeatherState,
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): GlacierState {
+  const temperature =
+    weather.temperature - config.GLACIER_LAPSE_RATE * config.GLACIER_ELEVATION_ABOVE_STATION;
+  if (seconds <= 0) return { ...state, temperature, meltRate: 0, waterFlow: 0 };
+
+  const area = glacierArea(state.volume, config);
+  const days = seconds / 86400;
+
+  // Précipitations du pas (mm), en neige ou en pluie selon la température
+  const precipitation = Math.max(0, weather.precipitation) * (seconds / 3600);
+  const snowfall = temperature < config.GLACIER_SNOW_THRESHOLD_TEMPERATURE ? precipitation : 0;
+  const rain = precipitation - snowfall;
+
+  // Fonte : la neige d'abord, puis la glace pendant le temps restant
+  const degreeDays = Math.max(0, temperature - config.GLACIER_MELT_THRESHOLD_TEMPERATURE) * days;
+  const snowMeltCapacity = config.GLACIER_DEGREE_DAY_FACTOR_SNOW * degreeDays;
+  const snowMelt = Math.min(state.snowpack + snowfall, snowMeltCapacity);
+  const bareFraction = snowMeltCapacity > 0 ? 1 - snowMelt / snowMeltCapacity : 0;
+  const iceMelt = Math.min(
+    state.volume,
+    ((config.GLACIER_DEGREE_DAY_FACTOR_ICE * degreeDays * bareFraction) / 1000) * area,
+  );
+
+  const volume = state.volume - iceMelt;
+  const meltRate = ((snowMelt / 1000) * area + iceMelt) / seconds;
+  return {
+    volume,
+    area: glacierArea(volume, config),
+    snowpack: state.snowpack + snowfall - snowMelt,
+    temperature,
+    meltRate,
+    waterFlow: meltRate + ((rain / 1000) * area) / seconds,
+  };
+}
+
+/**
+ * Composable pour simuler la fonte du glacier en fonction de la température.
+ * @param {Observable<WeatherState>} weatherSource$ - Observable fournissant les observations météorologiques.
+ * @param {Observable<number>} glacierSource$ - Observable du volume de glace à partir duquel (re)démarrer le modèle.
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée).
+ * @param {WaterSystemConfig} config - La configuration (facteurs degré-jour, seuils, relation volume-surface).
  * @returns {Object} - Objet contenant l'observable de la fonte du glacier.
  *
  * @description
- * Ce composable utilise RxJS pour simuler la fonte du glacier en fonction des conditions météorologiques.
- * Il prend en entrée un observable des conditions météorologiques et un subject pour le volume du glacier.
- * En sortie, il retourne un observable de la fonte du glacier.
+ * Ce composable fait avancer le modèle degré-jour (voir stepGlacier) à chaque tick de l'horloge
+ * de simulation, avec la dernière météo connue. Chaque nouveau volume reçu de glacierSource$
+ * redémarre le modèle depuis ce volume, sans manteau neigeux.
  */
 export function useGlacierMelt(
-  weatherSource$: Observable<WeatherCondition>,
-  glacierSource$: Subject<number>,
+  weatherSource$: Observable<WeatherState>,
+  glacierSource$: Observable<number>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
   /**
    * Observable de la fonte du glacier.
-   * @type {Observable<{ volume: number; meltRate: number; waterFlow: number }>}
+   * @type {Observable<GlacierState>}
    * @description
-   * Cet observable émet un objet à chaque émission de l'observable weatherSource$ et glacierSource$.
-   * L'objet contient les propriétés :
-   * - volume: le volume du glacier après la fonte.
-   * - meltRate: le taux de fonte du glacier.
-   * - waterFlow: le débit d'eau effectivement produit par la fonte du glacier.
+   * Cet observable émet l'état du glacier à chaque tick de l'horloge de simulation :
+   * volume de glace, surface, manteau neigeux, température, débit de fonte et débit d'eau
+   * produit (fonte et pluie).
+   *
+   * La fonte est intégrée sur la durée simulée du tick, ce qui la garde cohérente quel que
+   * soit le facteur d'accélération du temps.
    */
-  const glacierMelt$ = interval(1000).pipe(
-    // Prendre la valeur actuelle du volume du glacier
-    withLatestFrom(weatherSource$, glacierSource$),
-    // Calculer le taux de fonte du glacier en fonction des conditions météorologiques et du volume du glacier
-    map(([, weather, volume]) => {
-      let meltRate = 0;
-      switch (weather) {
-        case 'ensoleillé':
-          meltRate = volume * MELT_RATE_SUNNY;
-          break;
-        case 'nuageux':
-          meltRate = volume * MELT_RATE_CLOUDY;
-          break;
-        case 'pluvieux':
-          meltRate = volume * MELT_RATE_RAINY;
-          break;
-        case 'orageux':
-          meltRate = volume * MELT_RATE_STORMY;
-          break;
-      }
-      // Calculer le nouveau volume du glacier après la fonte
-      const newVolume = Math.max(0, volume - meltRate);
-      // Appliquer le facteur de perte d'eau au meltRate pour obtenir le débit d'eau effectif
-      const effectiveWaterFlow = meltRate * WATER_LOSS_FACTOR;
-      // Retourner l'objet contenant le nouveau volume, le taux de fonte et le débit d'eau effectif
-      return { volume: newVolume, meltRate, waterFlow: effectiveWaterFlow };
-    }),
+  const glacierMelt$: Observable<GlacierState> = glacierSource$.pipe(
+    switchMap((volume) =>
+      deps.clock.tick$.pipe(
+        withLatestFrom(weatherSource$),
+        map(([tick, weather]) => ({ seconds: tickSeconds(tick), weather })),
+        scan(
+          (state, { seconds, weather }) => stepGlacier(state, weather, seconds, config),
+          createGlacierState(volume, config),
+        ),
+      ),
+    ),
     // Éviter de re-émettre des valeurs identiques
     distinctUntilChanged(
-      (prev, curr) => prev.volume === curr.volume && prev.waterFlow === curr.waterFlow,
+      (prev, curr) =>
+        prev.volume === curr.volume &&
+        prev.snowpack === curr.snowpack &&
+        prev.temperature === curr.temperature &&
+        prev.waterFlow === curr.waterFlow,
     ),
-    // Mettre à jour le volume du glacier via le subject
-    tap(({ volume }) => glacierSource$.next(volume)),
     // Gérer les erreurs éventuelles
     catchError((error) => handleError(error, 'Simulation de fonte du glacier')),
     // Conserver la dernière valeur émise et permettre des réactivités multiples
@@ -1,25 +1,315 @@
-import type { WeatherCondition } from '@/types/waterSystem';
-import { type Observable, interval, withLatestFrom } from 'rxjs';
-import { distinctUntilChanged, map, scan, shareReplay } from 'rxjs/operators';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  CropGrowthStage,
+  CropType,
+  FieldState,
+  IrrigationState,
+  WaterSystemDependencies,
+  WeatherState,
+} from '@/types/waterSystem';
+import { dayOfYear } from '@/utils/simulationClock';
+import { BehaviorSubject, type Observable, merge, withLatestFrom } from 'rxjs';
+import { distinctUntilChanged, map, scan, shareReplay, startWith } from 'rxjs/operators';
 
+type IrrigatedFieldConfig = WaterSystemConfig['IRRIGATION_FIELDS'][number];
+
+const STAGES: CropGrowthStage[] = ['initial', 'development', 'mid', 'late'];
+
+/**
+ * Évapotranspiration de référence (gazon bien alimenté en eau) sous une observation météorologique.
+ *
+ * @param {WeatherState} weather - L'observation (température, condition, vent, humidité)
+ * @param {number} time - L'instant simulé (ms), qui fixe le rayonnement par ciel clair
+ * @param {WaterSystemConfig} config - La configuration (rayonnement, nébulosité, corrections)
+ * @returns {number} L'évapotranspiration de référence (mm/jour)
+ *
+ * @description
+ * Formule de Hargreaves : 0,0135 × (T + 17,8) × Rs / 2,45, où le rayonnement solaire Rs suit la
+ * saison et diminue avec la nébulosité. Le vent au-delà de 2 m/s et l'air sec (humidité sous
+ * 60 %) l'augmentent.
+ */
+export function referenceEvapotranspiration(
+  weather: WeatherState,
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  const { min, max } = config.IRRIGATION_CLEAR_SKY_RADIATION;
+  const season =
+    (1 + Math.cos((2 * Math.PI * (dayOfYear(time) - config.IRRIGATION_SUNNIEST_DAY)) / 365)) / 2;
+  const radiation =
+    (min + (max - min) * season) * config.IRRIGATION_CLOUD_FACTORS[weather.condition];
+  const hargreaves = (0.0135 * Math.max(0, weather.temperature + 17.8) * radiation) / 2.45;
+  const wind = Math.max(0, 1 + config.IRRIGATION_ET0_WIND_FACTOR * (weather.windSpeed - 2));
+  const dryness = Math.max(0, 1 + config.IRRIGATION_ET0_HUMIDITY_FACTOR * (60 - weather.humidity));
+  return hargreaves * wind * dryness;
+}
+
+/**
+ * Stade et coefficient cultural d'une parcelle à un instant simulé.
+ *
+ * @param {IrrigatedFieldConfig} field - La parcelle (culture, jour du semis)
+ * @param {number} time - L'instant simulé (ms)
+ * @param {WaterSystemConfig} config - La configuration (cultures)
+ * @returns {Object} Le stade (null hors saison) et le coefficient cultural (0 hors saison)
+ *
+ * @description
+ * Le coefficient est constant pendant l'installation et la mi-saison, et varie linéairement
+ * pendant la croissance et l'arrière-saison (FAO-56). Hors saison, la parcelle est nue : sa
+ * réserve reçoit la pluie sans être consommée.
+ */
+export function cropDevelopment(
+  field: IrrigatedFieldConfig,
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): { stage: CropGrowthStage | null; cropCoefficient: number } {
+  const crop = config.IRRIGATION_CROPS[field.crop as CropType];
+  const { initial, mid, end } = crop.cropCoefficients;
+  let day = (dayOfYear(time) - field.plantingDay + 365) % 365;
+  for (const stage of STAGES) {
+    const duration = crop.stageDurations[stage];
+    if (day < duration) {
+      const progress = day / duration;
+      const coefficients: Record<CropGrowthStage, number> = {
+        initial,
+        development: initial + (mid - initial) * progress,
+        mid,
+        late: mid + (end - mid) * progress,
+      };
+      return { stage, cropCoefficient: coefficients[stage] };
+    }
+    day -= duration;
+  }
+  return { stage: null, cropCoefficient: 0 };
+}
+
+/**
+ * Réserve utile de la zone racinaire d'une parcelle (mm) et seuil de déclenchement de
+ * l'irrigation : la part de la réserve que la culture consomme sans stress.
+ */
+function soilOf(field: IrrigatedFieldConfig, config: Readonly<WaterSystemConfig>) {
+  const crop = config.IRRIGATION_CROPS[field.crop as CropType];
+  const capacity = config.IRRIGATION_SOIL_WATER_CAPACITY * crop.rootDepth;
+  return { capacity, threshold: (1 - crop.depletionFraction) * capacity };
+}
+
+/**
+ * Stress hydrique (FAO-56) : nul tant que la réserve reste au-dessus du seuil, puis croissant
+ * jusqu'à 1 lorsque la réserve est vide. Une parcelle hors saison n'est jamais en stress.
+ */
+function waterStress(moisture: number, threshold: number, inSeason: boolean): number {
+  if (!inSeason || threshold <= 0) return 0;
+  return 1 - Math.min(1, moisture / threshold);
+}
+
+/**
+ * Débit demandé par une parcelle en cours d'arrosage (m³/s), selon la dose maximale.
+ */
+function applicationFlow(field: IrrigatedFieldConfig, config: Readonly<WaterSystemConfig>): number {
+  return (config.IRRIGATION_APPLICATION_RATE / 1000 / 3600) * field.area;
+}
+
+/**
+ * Regroupe l'état des parcelles : demande totale, débits reçus, volume depuis le démarrage.
+ */
+function irrigationState(
+  fields: FieldState[],
+  inputs: { referenceEvapotranspiration: number; raw: number; recycled: number },
+  volume: number,
+  duration: number,
+): IrrigationState {
+  return {
+    fields,
+    referenceEvapotranspiration: inputs.referenceEvapotranspiration,
+    demand: fields.reduce((acc, { demand }) => acc + demand, 0),
+    raw: inputs.raw,
+    recycled: inputs.recycled,
+    volume,
+    duration,
+  };
+}
+
+/**
+ * Crée l'état d'une exploitation agricole à un instant, réserves au remplissage initial.
+ *
+ * @param {number} time - L'instant simulé (ms), qui fixe le stade des cultures
+ * @param {WaterSystemConfig} config - La configuration (parcelles, cultures, sol)
+ * @returns {IrrigationState} L'état initial, les parcelles sous le seuil demandant déjà de l'eau
+ */
+export function createIrrigationState(
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): IrrigationState {
+  const fields = config.IRRIGATION_FIELDS.map((field): FieldState => {
+    const { stage, cropCoefficient } = cropDevelopment(field, time, config);
+    const { capacity, threshold } = soilOf(field, config);
+    const soilMoisture = capacity * config.IRRIGATION_INITIAL_SOIL_MOISTURE;
+    const irrigating = stage !== null && soilMoisture < threshold;
+    return {
+      id: field.id,
+      name: field.name,
+      crop: field.crop as CropType,
+      area: field.area,
+      stage,
+      cropCoefficient,
+      evapotranspiration: 0,
+      soilMoisture,
+      soilCapacity: capacity,
+      irrigating,
+      demand: irrigating ? applicationFlow(field, config) : 0,
+      delivered: 0,
+      stress: waterStress(soilMoisture, threshold, stage !== null),
+    };
+  });
+  return irrigationState(fields, { referenceEvapotranspiration: 0, raw: 0, recycled: 0 }, 0, 0);
+}
+
+/**
+ * Fait avancer le bilan hydrique des parcelles d'un pas de temps.
+ *
+ * @param {IrrigationState} state - L'état de l'exploitation au début du pas
+ * @param {Object} inputs - L'instant de fin du pas (ms), la météo, les débits d'eau brute et
+ * d'eau réutilisée reçus (m³/s) et la part de la demande autorisée par les restrictions
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (parcelles, cultures, sol, arrosage)
+ * @returns {IrrigationState} L'état à la fin du pas, avec la demande du pas suivant
+ *
+ * @description
+ * La réserve de chaque parcelle est un réservoir (modèle « bucket ») :
+ * - elle reçoit la pluie et la part efficace de l'eau livrée, répartie entre les parcelles au
+ *   prorata de leur demande ; ce qui dépasse la réserve utile s'infiltre en profondeur
+ * - elle perd l'évapotranspiration de la culture, coefficient cultural × évapotranspiration de
+ *   référence, réduite par le stress hydrique lorsque la réserve passe sous le seuil
+ *
+ * Le programmateur déclenche l'arrosage d'une parcelle dès que sa réserve passe sous le seuil
+ * de sa culture, et l'arrête lorsque la réserve utile est reconstituée ; hors saison, il
+ * n'arrose pas. Une parcelle en cours d'arrosage demande la dose maximale, réduite par les
+ * restrictions.
+ */
+export function stepIrrigation(
+  state: IrrigationState,
+  inputs: { time: number; weather: WeatherState; raw: number; recycled: number; limit: number },
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): IrrigationState {
+  if (seconds <= 0) return { ...state, duration: 0 };
+
+  const et0 = referenceEvapotranspiration(inputs.weather, inputs.time, config);
+  const raw = Math.max(0, inputs.raw);
+  const recycled = Math.max(0, inputs.recycled);
+  const rain = (Math.max(0, inputs.weather.precipitation) / 3600) * seconds; // mm
+
+  const fields = config.IRRIGATION_FIELDS.map((field, i): FieldState => {
+    const previous = state.fields[i];
+    const { stage, cropCoefficient } = cropDevelopment(field, inputs.time, config);
+    const { capacity, threshold } = soilOf(field, config);
+    const delivered = state.demand > 0 ? ((raw + recycled) * previous.demand) / state.demand : 0;
+    const irrigation = ((delivered * seconds) / field.area) * 1000 * config.IRRIGATION_EFFICIENCY;
+    const evapotranspiration =
+      cropCoefficient * et0 * (1 - waterStress(previous.soilMoisture, threshold, stage !== null));
+    const soilMoisture = Math.min(
+      capacity,
+      Math.max(
+        0,
+        previous.soilMoisture + rain + irrigation - (evapotranspiration * seconds) / 86400,
+      ),
+    );
+    const irrigating =
+      stage !== null &&
+      (soilMoisture < threshold || (previous.irrigating && soilMoisture < capacity));
+
+    return {
+      ...previous,
+      stage,
+      cropCoefficient,
+      evapotranspiration,
+      soilMoisture,
+      soilCapacity: capacity,
+      irrigating,
+      demand: irrigating ? applicationFlow(field, config) * Math.max(0, inputs.limit) : 0,
+      delivered,
+      stress: waterStress(soilMoisture, threshold, stage !== null),
+    };
+  });
+
+  return irrigationState(
+    fields,
+    { referenceEvapotranspiration: et0, raw, recycled },
+    state.volume + (raw + recycled) * seconds,
+    seconds,
+  );
+}
+
+/**
+ * Composable pour une exploitation agricole irriguée.
+ *
+ * @param {Observable<Object>} supply$ - Les volumes d'eau brute et d'eau réutilisée reçus sur
+ * chaque pas (m³) et la durée du pas (s)
+ * @param {Observable<WeatherState>} weatherSource$ - Observable de la météo (évapotranspiration, pluie)
+ * @param {Observable<number>} irrigationLimit$ - La part de la demande autorisée par les
+ * restrictions en cas de sécheresse
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (parcelles, cultures, sol, arrosage)
+ * @returns {Object} L'état des parcelles, le volume reçu depuis le démarrage (m³) et la remise
+ * à zéro des réserves
+ *
+ * @description
+ * Chaque lot reçu fait avancer le bilan des parcelles (voir stepIrrigation). L'état initial est
+ * publié dès la souscription et à chaque remise à zéro (reset) : la demande du prochain pas est
+ * toujours disponible pour la retenue et la station d'épuration qui alimentent l'exploitation.
+ */
 export function useIrrigation(
-  purificationPlant$: Observable<number>,
-  weatherSource$: Observable<WeatherCondition>,
+  supply$: Observable<{ raw: number; recycled: number; duration: number }>,
+  weatherSource$: Observable<WeatherState>,
+  irrigationLimit$: Observable<number>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
-  const irrigation$ = interval(1000).pipe(
-    withLatestFrom(purificationPlant$, weatherSource$),
-    map(([, water, weather]) => {
-      let irrigationNeed = water * 0.3;
-      if (weather === 'ensoleillé') irrigationNeed *= 1.2;
-      if (weather === 'pluvieux') irrigationNeed *= 0.5;
-      return irrigationNeed;
-    }),
-    scan((acc, value) => acc + value, 0),
+  const restart = new BehaviorSubject<void>(undefined);
+
+  // La remise à zéro publie l'état initial, puis chaque lot fait avancer le bilan
+  const farm$: Observable<IrrigationState> = merge(
+    restart.pipe(map(() => null)),
+    supply$.pipe(withLatestFrom(weatherSource$, irrigationLimit$.pipe(startWith(1)))),
+  ).pipe(
+    scan<
+      [{ raw: number; recycled: number; duration: number }, WeatherState, number] | null,
+      IrrigationState
+    >(
+      (state, inputs) => {
+        if (!inputs) return createIrrigationState(deps.getCurrentTime(), config);
+        const [{ raw, recycled, duration }, weather, limit] = inputs;
+        return stepIrrigation(
+          state,
+          {
+            time: deps.getCurrentTime(),
+            weather,
+            raw: duration > 0 ? raw / duration : 0,
+            recycled: duration > 0 ? recycled / duration : 0,
+            limit,
+          },
+          duration,
+          config,
+        );
+      },
+      createIrrigationState(deps.getCurrentTime(), config),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  const irrigation$ = farm$.pipe(
+    map(({ volume }) => volume),
     distinctUntilChanged(),
     shareReplay({ bufferSize: 1, refCount: true }),
   );
 
+  /**
+   * Ramène les réserves des parcelles à leur remplissage initial.
+   */
+  const reset = () => restart.next();
+
   return {
+    farm$,
     irrigation$,
+    reset,
   };
 }
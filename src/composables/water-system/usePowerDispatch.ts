@@ -0,0 +1,141 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DispatchReport,
+  OperatingPolicy,
+  PowerPlantState,
+  ReservoirState,
+  WaterSystemDependencies,
+} from '@/types/waterSystem';
+import { type Observable, zip } from 'rxjs';
+import { filter, scan, shareReplay } from 'rxjs/operators';
+import { gateRelease } from './useDamManagement';
+import { turbineFlowForPower } from './usePowerPlant';
+
+/**
+ * Demande électrique (MW) à un instant simulé.
+ *
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @param {WaterSystemConfig} config - La configuration (pointe, profils horaire et hebdomadaire)
+ * @returns {number} La demande, interpolée linéairement entre deux heures du profil
+ */
+export function electricityDemand(
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  const date = new Date(time);
+  const hourly = config.ELECTRICITY_DEMAND_HOURLY_PROFILE;
+  const hour = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
+  const lower = Math.floor(hour) % hourly.length;
+  const upper = (lower + 1) % hourly.length;
+  const hourFactor = hourly[lower] + (hour - Math.floor(hour)) * (hourly[upper] - hourly[lower]);
+  const dayFactor = config.ELECTRICITY_DEMAND_DAILY_PROFILE[date.getUTCDay()];
+  return config.ELECTRICITY_DEMAND_PEAK * hourFactor * dayFactor;
+}
+
+/**
+ * Enveloppe une règle d'exploitation pour que le turbinage suive la demande électrique.
+ *
+ * @param {OperatingPolicy} policy - La règle d'exploitation de la retenue (courbes guides)
+ * @param {number} demandShare - Part de la demande servie par les centrales de cette retenue
+ * @param {WaterSystemConfig} config - La configuration de la centrale alimentée par la retenue
+ * @returns {OperatingPolicy} La règle dont le turbinage est limité au besoin de la demande
+ *
+ * @description
+ * Le lâcher vers les turbines est réduit au débit nécessaire pour servir la demande, sans jamais
+ * dépasser ce que la règle d'exploitation accorde : les seuils de la règle (culot mort, tranche
+ * tampon) restent prioritaires sur la demande. En tranche de crue, l'eau excédentaire est
+ * turbinée au maximum plutôt que d'être évacuée par les vannes.
+ */
+export function createDispatchPolicy(
+  policy: OperatingPolicy,
+  demandShare: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): OperatingPolicy {
+  return (context) => {
+    const decision = policy(context);
+    if (decision.zone === 'flood-control') return decision;
+    const demand = electricityDemand(context.time, config) * demandShare;
+    return {
+      ...decision,
+      turbines: Math.min(
+        decision.turbines,
+        turbineFlowForPower(demand, context.state.elevation, config),
+      ),
+    };
+  };
+}
+
+const NO_DISPATCH: DispatchReport = {
+  demand: 0,
+  generation: 0,
+  unmet: 0,
+  unmetEnergy: 0,
+  spilledEnergy: 0,
+};
+
+/**
+ * Composable pour le suivi de l'équilibre offre-demande d'une centrale.
+ *
+ * @param {Observable<PowerPlantState>} hydropower$ - L'état de la centrale
+ * @param {Observable<ReservoirState>} reservoir$ - L'état de la retenue qui l'alimente
+ * @param {number} demandShare - Part de la demande servie par la centrale
+ * @param {number} releaseShare - Part du turbinage de la retenue qui passe par la centrale
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration de la centrale
+ * @returns {Object} L'observable du bilan offre-demande
+ *
+ * @description
+ * À chaque pas, la production est comparée à la demande du début du pas (celle qu'a vue la règle
+ * de dispatching). L'énergie perdue par les vannes est celle que l'eau évacuée aurait produite
+ * dans la capacité de turbinage restée libre. La centrale compte la part de l'eau évacuée qui lui
+ * revient dans le turbinage de sa retenue, indépendamment de sa part de la demande du système.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - zip associe chaque pas de la centrale au pas de la retenue qui l'a produit, quel que soit
+ *   l'ordre dans lequel les deux flux sont notifiés.
+ */
+export function usePowerDispatch(
+  hydropower$: Observable<PowerPlantState>,
+  reservoir$: Observable<ReservoirState>,
+  demandShare: number,
+  releaseShare: number,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const turbineCapacity = config.POWER_PLANT_UNITS.reduce((acc, unit) => acc + unit.ratedFlow, 0);
+
+  const dispatch$: Observable<DispatchReport> = zip(
+    hydropower$,
+    reservoir$.pipe(filter(({ duration }) => duration > 0)),
+  ).pipe(
+    scan((report, [plant, reservoir]) => {
+      const hours = plant.duration / 3600;
+      const startTime = deps.getCurrentTime() - plant.duration * 1000;
+      const demand = electricityDemand(startTime, config) * demandShare;
+      const unmet = Math.max(0, demand - plant.power);
+      const spillable = Math.min(
+        gateRelease(reservoir.outflows) * releaseShare,
+        Math.max(0, turbineCapacity - plant.flow),
+      );
+      const spilledPower =
+        (config.WATER_DENSITY *
+          config.GRAVITY *
+          spillable *
+          plant.netHead *
+          config.POWER_DISPATCH_EFFICIENCY) /
+        1e6;
+      return {
+        demand,
+        generation: plant.power,
+        unmet,
+        unmetEnergy: report.unmetEnergy + unmet * hours,
+        spilledEnergy: report.spilledEnergy + spilledPower * hours,
+      };
+    }, NO_DISPATCH),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  return {
+    dispatch$,
+  };
+}
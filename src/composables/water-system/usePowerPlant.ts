@@ -1,19 +1,235 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  PowerPlantState,
+  ReservoirState,
+  TurbineUnit,
+  TurbineUnitState,
+  WaterSystemDependencies,
+} from '@/types/waterSystem';
+import { interpolateCurve } from '@/utils/interpolation';
 import type { Observable } from 'rxjs';
 import { distinctUntilChanged, filter, map, scan, shareReplay } from 'rxjs/operators';
 
-export function usePowerPlant(dam$: Observable<number>) {
-  const powerPlant$ = dam$.pipe(
-    filter((level) => level > 30),
-    map((water) => {
-      const efficiency = 0.7 + Math.random() * 0.2; // Rendement entre 70% et 90%
-      return water * 0.4 * efficiency * 10;
-    }),
-    scan((acc, value) => acc + value, 0), // Accumuler la production d'énergie
+/**
+ * Crée l'état d'une centrale à l'arrêt : tous les groupes sont arrêtés et peuvent démarrer.
+ *
+ * @param {readonly TurbineUnit[]} units - Les groupes de la centrale
+ * @returns {PowerPlantState} L'état initial, sans production
+ */
+export function createPowerPlantState(units: readonly TurbineUnit[]): PowerPlantState {
+  return {
+    units: units.map(() => ({
+      running: false,
+      flow: 0,
+      efficiency: 0,
+      power: 0,
+      timeInState: Number.POSITIVE_INFINITY,
+    })),
+    netHead: 0,
+    flow: 0,
+    bypass: 0,
+    power: 0,
+    energy: 0,
+    duration: 0,
+  };
+}
+
+/**
+ * Puissance installée de la centrale (MW) : tous les groupes à leur meilleur rendement,
+ * sous la chute brute de la retenue pleine.
+ */
+export function installedCapacity(config: Readonly<WaterSystemConfig> = waterSystemConfig): number {
+  const curve = config.DAM_STAGE_STORAGE_CURVE;
+  const grossHead = curve[curve.length - 1].elevation - config.POWER_PLANT_TAILWATER_ELEVATION;
+  return config.POWER_PLANT_UNITS.reduce((acc, unit) => {
+    const bestEfficiency = Math.max(...unit.efficiencyCurve.map(({ efficiency }) => efficiency));
+    return (
+      acc +
+      (config.WATER_DENSITY * config.GRAVITY * unit.ratedFlow * grossHead * bestEfficiency) / 1e6
+    );
+  }, 0);
+}
+
+/**
+ * Débit à turbiner (m³/s) pour produire une puissance donnée sous la cote de la retenue.
+ *
+ * @param {number} power - La puissance visée (MW)
+ * @param {number} elevation - La cote du plan d'eau (m)
+ * @param {WaterSystemConfig} config - La configuration (canal de fuite, pertes de charge, rendement de dispatching)
+ * @returns {number} Le débit estimé, infini si la chute ne permet aucune production
+ *
+ * @description
+ * Inverse P = ρ · g · Q · H_nette · η avec le rendement prudent POWER_DISPATCH_EFFICIENCY. La chute
+ * nette dépendant du débit (pertes de charge), l'estimation est affinée par quelques itérations.
+ */
+export function turbineFlowForPower(
+  power: number,
+  elevation: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  if (power <= 0) return 0;
+  let flow = 0;
+  for (let i = 0; i < 5; i++) {
+    const netHead =
+      elevation -
+      config.POWER_PLANT_TAILWATER_ELEVATION -
+      config.POWER_PLANT_HEAD_LOSS_COEFFICIENT * flow ** 2;
+    if (netHead <= 0) return Number.POSITIVE_INFINITY;
+    flow =
+      (power * 1e6) /
+      (config.WATER_DENSITY * config.GRAVITY * netHead * config.POWER_DISPATCH_EFFICIENCY);
+  }
+  return flow;
+}
+
+/**
+ * Choisit les groupes en marche pour un débit donné, en respectant les durées minimales.
+ *
+ * @returns {Set<number>} Les indices des groupes en marche
+ *
+ * @description
+ * - Un groupe démarré depuis moins de POWER_PLANT_MIN_RUN_TIME reste en marche.
+ * - Un groupe arrêté depuis moins de POWER_PLANT_MIN_STOP_TIME ne peut pas redémarrer.
+ * - Les groupes déjà en marche sont conservés en priorité, puis les groupes arrêtés sont démarrés
+ *   dans l'ordre, tant que le débit dépasse la capacité des groupes retenus et que chacun
+ *   garde au moins son débit minimal.
+ */
+function commitUnits(
+  units: readonly TurbineUnit[],
+  previous: readonly TurbineUnitState[],
+  flow: number,
+  config: Readonly<WaterSystemConfig>,
+): Set<number> {
+  const committed = new Set<number>();
+  const candidates: number[] = [];
+  units.forEach((_, i) => {
+    const { running, timeInState } = previous[i];
+    if (running && timeInState < config.POWER_PLANT_MIN_RUN_TIME) committed.add(i);
+    else if (running) candidates.unshift(i);
+    else if (timeInState >= config.POWER_PLANT_MIN_STOP_TIME) candidates.push(i);
+  });
+
+  const total = (indices: Iterable<number>, key: 'ratedFlow' | 'minFlow') =>
+    [...indices].reduce((acc, i) => acc + units[i][key], 0);
+
+  for (const candidate of candidates) {
+    if (total(committed, 'ratedFlow') >= flow) break;
+    if (flow < total([...committed, candidate], 'minFlow')) break;
+    committed.add(candidate);
+  }
+  return committed;
+}
+
+/**
+ * Fait avancer la centrale d'un pas de temps.
+ *
+ * @param {PowerPlantState} state - L'état de la centrale au début du pas
+ * @param {Object} inputs - Le débit reçu de la retenue (m³/s) et la cote de son plan d'eau (m)
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (groupes, canal de fuite, pertes de charge)
+ * @returns {PowerPlantState} L'état de la centrale à la fin du pas
+ *
+ * @description
+ * Puissance d'un groupe (MW) = ρ · g · Q · H_nette · η(charge) / 10⁶, avec :
+ * - Q le débit du groupe, réparti entre les groupes en marche au prorata de leur débit nominal
+ * - H_nette = cote de la retenue − cote du canal de fuite − pertes de charge (k · Q_turbiné²)
+ * - η lu sur la courbe de rendement du groupe pour sa charge Q / Q_nominal
+ *
+ * Le débit que les groupes ne peuvent pas absorber (groupes arrêtés, débit sous le minimum
+ * technique) passe par la vanne de décharge sans produire. L'énergie (MWh) est intégrée sur la
+ * durée simulée du pas.
+ */
+export function stepPowerPlant(
+  state: PowerPlantState,
+  inputs: { flow: number; elevation: number },
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): PowerPlantState {
+  if (seconds <= 0) return { ...state, duration: 0 };
+
+  const units = config.POWER_PLANT_UNITS;
+  const flow = Math.max(0, inputs.flow);
+  const committed = commitUnits(units, state.units, flow, config);
+  const committedRated = [...committed].reduce((acc, i) => acc + units[i].ratedFlow, 0);
+  const flows = units.map((unit, i) =>
+    committed.has(i) ? Math.min(unit.ratedFlow, (flow * unit.ratedFlow) / committedRated) : 0,
+  );
+  const turbined = flows.reduce((acc, q) => acc + q, 0);
+  const netHead = Math.max(
+    0,
+    inputs.elevation -
+      config.POWER_PLANT_TAILWATER_ELEVATION -
+      config.POWER_PLANT_HEAD_LOSS_COEFFICIENT * turbined ** 2,
+  );
+
+  const unitStates: TurbineUnitState[] = units.map((unit, i) => {
+    const running = committed.has(i);
+    const efficiency = running
+      ? interpolateCurve(unit.efficiencyCurve, 'load', 'efficiency', flows[i] / unit.ratedFlow)
+      : 0;
+    const previous = state.units[i];
+    return {
+      running,
+      flow: flows[i],
+      efficiency,
+      power: (config.WATER_DENSITY * config.GRAVITY * flows[i] * netHead * efficiency) / 1e6,
+      timeInState: running === previous.running ? previous.timeInState + seconds : seconds,
+    };
+  });
+  const power = unitStates.reduce((acc, unit) => acc + unit.power, 0);
+
+  return {
+    units: unitStates,
+    netHead,
+    flow,
+    bypass: flow - turbined,
+    power,
+    energy: state.energy + (power * seconds) / 3600,
+    duration: seconds,
+  };
+}
+
+/**
+ * Composable pour la centrale hydroélectrique.
+ *
+ * @param {Observable<ReservoirState>} reservoir$ - L'état de la retenue qui alimente les turbines
+ * @param {WaterSystemDependencies} _deps - Dépendances de simulation
+ * @param {WaterSystemConfig} config - La configuration (groupes, canal de fuite, pertes de charge)
+ * @returns {Object} L'état de la centrale, l'énergie produite (MWh) et la puissance instantanée (MW)
+ *
+ * @description
+ * La centrale turbine le débit effectivement lâché par la retenue sur chaque pas, sous la chute
+ * donnée par la cote de la retenue (voir stepPowerPlant).
+ */
+export function usePowerPlant(
+  reservoir$: Observable<ReservoirState>,
+  _deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const hydropower$: Observable<PowerPlantState> = reservoir$.pipe(
+    filter(({ duration }) => duration > 0),
+    scan(
+      (state, { outflows, elevation, duration }) =>
+        stepPowerPlant(state, { flow: outflows.turbines, elevation }, duration, config),
+      createPowerPlantState(config.POWER_PLANT_UNITS),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  const powerPlant$ = hydropower$.pipe(
+    map(({ energy }) => energy),
     distinctUntilChanged(),
     shareReplay({ bufferSize: 1, refCount: true }),
   );
 
+  const power$ = hydropower$.pipe(
+    map(({ power }) => power),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
   return {
+    hydropower$,
     powerPlant$,
+    power$,
   };
 }
@@ -0,0 +1,137 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DataSources,
+  TimeSeries,
+  WaterSystemDependencies,
+  WeatherCondition,
+  WeatherState,
+} from '@/types/waterSystem';
+import { everySimulated } from '@/utils/simulationClock';
+import { sampleTimeSeries, timeSeriesColumns } from '@/utils/timeSeries';
+import { type Observable, type Subscription, defer } from 'rxjs';
+import { map, shareReplay, startWith } from 'rxjs/operators';
+import { createWeatherState } from './useWeatherSimulation';
+
+/**
+ * Condition météorologique correspondant à une intensité de pluie mesurée (mm/h).
+ */
+function conditionFromPrecipitation(
+  precipitation: number,
+  config: Readonly<WaterSystemConfig>,
+): WeatherCondition {
+  const rates = config.WEATHER_PRECIPITATION_RATES;
+  if (precipitation <= 0) return 'ensoleillé';
+  if (precipitation < rates.pluvieux / 4) return 'nuageux';
+  if (precipitation < rates.orageux) return 'pluvieux';
+  return 'orageux';
+}
+
+/**
+ * Composable pour rejouer une série chronologique enregistrée comme entrées de la simulation.
+ *
+ * @param {TimeSeries} series - La série enregistrée (débit, pluie, température, consommation)
+ * @param {DataSources} dataSources - Les sources de données alimentées par le rejeu
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (intervalle des entrées, climatologie)
+ * @returns {Object} La météo rejouée et les fonctions pour démarrer, arrêter et rembobiner le
+ * rejeu
+ *
+ * @description
+ * La série est rejouée depuis son premier échantillon à partir de l'instant simulé où elle est
+ * chargée, ou du dernier rembobinage (rewindReplay). Arrêter puis relancer le rejeu le reprend à
+ * l'instant simulé courant, sans revenir au début de la série. À chaque intervalle SIMULATION_INPUT_INTERVAL, les grandeurs sont lues par
+ * interpolation (voir sampleTimeSeries) :
+ * - le débit alimente waterSource$, la consommation userConsumptionSource$ (la demande générée
+ *   est recalée sur ce total)
+ * - la pluie et la température forment la météo rejouée (weather$) ; la condition est déduite
+ *   de l'intensité de la pluie, l'humidité et le vent sont ceux de la condition
+ *
+ * Une grandeur absente de la série n'est pas poussée : la source garde sa dernière valeur.
+ * weather$ vaut null si la série ne contient ni pluie ni température.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Les sources de données restent les seules entrées du modèle : un rejeu remplace le
+ *   générateur aléatoire sans modifier les sous-systèmes, ce qui permet de caler le modèle
+ *   sur des années enregistrées.
+ */
+export function useReplayDataSource(
+  series: TimeSeries,
+  dataSources: DataSources,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const columns = timeSeriesColumns(series);
+  let replaySubscription: Subscription | null = null;
+  // Décalage entre la série et le temps simulé, recalé au chargement et à chaque rembobinage
+  const alignedOffset = () => (series.length > 0 ? series[0].time - deps.getCurrentTime() : 0);
+  let offset = alignedOffset();
+
+  // Instant de la série correspondant à un instant simulé
+  const seriesTime = (time: number) => time + offset;
+
+  function replayedWeather(time: number): WeatherState {
+    const precipitation = Math.max(
+      0,
+      sampleTimeSeries(series, 'precipitation', seriesTime(time)) ?? 0,
+    );
+    const weather = createWeatherState(
+      conditionFromPrecipitation(precipitation, config),
+      time,
+      config,
+    );
+    return {
+      ...weather,
+      precipitation,
+      temperature: sampleTimeSeries(series, 'temperature', seriesTime(time)) ?? weather.temperature,
+    };
+  }
+
+  const weather$: Observable<WeatherState> | null =
+    columns.includes('precipitation') || columns.includes('temperature')
+      ? defer(() =>
+          deps.clock.tick$.pipe(
+            everySimulated(config.SIMULATION_INPUT_INTERVAL),
+            map(({ time }) => replayedWeather(time)),
+            startWith(replayedWeather(deps.getCurrentTime())),
+          ),
+        ).pipe(shareReplay({ bufferSize: 1, refCount: true }))
+      : null;
+
+  function pushInputs(time: number) {
+    const inflow = sampleTimeSeries(series, 'inflow', seriesTime(time));
+    if (inflow !== undefined) dataSources.waterSource$.next(Math.max(0, inflow));
+    const consumption = sampleTimeSeries(series, 'consumption', seriesTime(time));
+    if (consumption !== undefined)
+      dataSources.userConsumptionSource$.next(Math.max(0, consumption));
+  }
+
+  function startReplay() {
+    if (replaySubscription) return;
+    pushInputs(deps.getCurrentTime());
+    replaySubscription = deps.clock.tick$
+      .pipe(everySimulated(config.SIMULATION_INPUT_INTERVAL))
+      .subscribe(({ time }) => pushInputs(time));
+  }
+
+  function stopReplay() {
+    if (replaySubscription) {
+      replaySubscription.unsubscribe();
+      replaySubscription = null;
+    }
+  }
+
+  /**
+   * Reprend la série depuis son premier échantillon à l'instant simulé courant.
+   */
+  function rewindReplay() {
+    offset = alignedOffset();
+  }
+
+  return {
+    columns,
+    weather$,
+    startReplay,
+    stopReplay,
+    rewindReplay,
+  };
+}
@@ -1,42 +1,41 @@
-import type { DataSources, WeatherCondition } from '@/types/waterSystem';
-import { type Observable, take, BehaviorSubject } from 'rxjs';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type { DataSources, WaterSystemDependencies, WeatherState } from '@/types/waterSystem';
+import { everySimulated } from '@/utils/simulationClock';
+import { type Observable, type Subscription, take } from 'rxjs';
 import { ref } from 'vue';
 
 export function useSimulation(
   dataSources: DataSources,
-  weatherSimulation$: Observable<WeatherCondition>,
+  weatherSimulation$: Observable<WeatherState>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
   const isAutoMode = ref(true);
-  let simulationInterval: number | null = null;
-  const currentGlacierVolume = new BehaviorSubject<number>(1000000); // Valeur initiale arbitraire
+  let simulationSubscription: Subscription | null = null;
 
   function startSimulation() {
-    if (simulationInterval) return;
-    simulationInterval = window.setInterval(() => {
-      if (isAutoMode.value) {
-        const baseWaterInput = 40 + (Math.random() * 60 - 30);
-        const seasonalFactor = 1 + 0.5 * Math.sin(Date.now() / (1000 * 60 * 60 * 24 * 30));
-        dataSources.waterSource$.next(baseWaterInput * seasonalFactor);
+    if (simulationSubscription) return;
+    simulationSubscription = deps.clock.tick$
+      .pipe(everySimulated(config.SIMULATION_INPUT_INTERVAL))
+      .subscribe(() => {
+        if (isAutoMode.value) {
+          const baseWaterInput = 40 + (deps.getRandomNumber() * 60 - 30);
+          const seasonalFactor =
+            1 + 0.5 * Math.sin(deps.getCurrentTime() / (1000 * 60 * 60 * 24 * 30));
+          dataSources.waterSource$.next(baseWaterInput * seasonalFactor);
 
-        const glacierMeltRate = 0.00001 + Math.random() * 0.00009;
-        const newGlacierVolume = Math.max(
-          0,
-          currentGlacierVolume.getValue() * (1 - glacierMeltRate),
-        );
-        currentGlacierVolume.next(newGlacierVolume);
-        dataSources.glacierSource$.next(newGlacierVolume);
-
-        weatherSimulation$.pipe(take(1)).subscribe((weather) => {
-          dataSources.weatherSource$.next(weather);
-        });
-      }
-    }, 2000);
+          weatherSimulation$.pipe(take(1)).subscribe((weather) => {
+            dataSources.weatherSource$.next(weather.condition);
+            dataSources.weatherDataSource$.next(weather);
+          });
+        }
+      });
   }
 
   function stopSimulation() {
-    if (simulationInterval) {
-      window.clearInterval(simulationInterval);
-      simulationInterval = null;
+    if (simulationSubscription) {
+      simulationSubscription.unsubscribe();
+      simulationSubscription = null;
     }
   }
 
@@ -54,6 +53,5 @@ export function useSimulation(
     startSimulation,
     stopSimulation,
     toggleAutoMode,
-    currentGlacierVolume, // Exposer cette valeur si nécessaire
   };
 }
@@ -1,29 +1,247 @@
-import type { WeatherCondition } from '@/types/waterSystem';
-import { type Observable, interval, withLatestFrom } from 'rxjs';
-import { map, scan, shareReplay } from 'rxjs/operators';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DemandSegment,
+  DrinkingWaterSegment,
+  WaterDemandState,
+  WaterSystemDependencies,
+  WeatherState,
+} from '@/types/waterSystem';
+import { tickSeconds } from '@/utils/simulationClock';
+import { type Observable, combineLatest, defer, withLatestFrom } from 'rxjs';
+import { distinctUntilChanged, map, scan, shareReplay, startWith } from 'rxjs/operators';
 
-const DAILY_RESET_VALUE = 1000; // Valeur arbitraire, à ajuster selon les besoins
+const YEAR = 365.25 * 24 * 60 * 60 * 1000;
 
+/**
+ * Segments d'eau potable dont une configuration décrit le profil.
+ *
+ * @param {WaterSystemConfig} config - La configuration (profils des segments)
+ * @returns {DrinkingWaterSegment[]} Les segments, dans l'ordre de la configuration
+ */
+export function drinkingWaterSegments(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): DrinkingWaterSegment[] {
+  return Object.keys(config.DEMAND_SEGMENTS) as DrinkingWaterSegment[];
+}
+
+/**
+ * Facteur d'un profil horaire à un instant, interpolé linéairement entre deux heures (UTC).
+ */
+function hourlyFactor(profile: readonly number[], date: Date): number {
+  const hour = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
+  const lower = Math.floor(hour) % profile.length;
+  const upper = (lower + 1) % profile.length;
+  return profile[lower] + (hour - Math.floor(hour)) * (profile[upper] - profile[lower]);
+}
+
+/**
+ * Demande de chaque segment d'eau potable à un instant simulé.
+ *
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @param {number} temperature - La température de l'air (°C)
+ * @param {WaterSystemConfig} config - La configuration (profils des segments, température de référence)
+ * @returns {Record<DrinkingWaterSegment, number>} La demande de chaque segment (m³/s)
+ *
+ * @description
+ * La demande de référence d'un segment est modulée par son profil horaire et son profil
+ * hebdomadaire, croît chaque année depuis l'instant de départ de la simulation, et augmente
+ * avec la chaleur au-delà de DEMAND_REFERENCE_TEMPERATURE.
+ */
+export function segmentDemands(
+  time: number,
+  temperature: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): Record<DrinkingWaterSegment, number> {
+  const date = new Date(time);
+  const years = (time - config.SIMULATION_START_TIME) / YEAR;
+  const heat = Math.max(0, temperature - config.DEMAND_REFERENCE_TEMPERATURE);
+  const demands = {} as Record<DrinkingWaterSegment, number>;
+  for (const segment of drinkingWaterSegments(config)) {
+    const profile = config.DEMAND_SEGMENTS[segment];
+    demands[segment] =
+      profile.baseDemand *
+      hourlyFactor(profile.hourlyProfile, date) *
+      profile.weeklyProfile[date.getUTCDay()] *
+      (1 + profile.growthRate) ** years *
+      (1 + profile.temperatureSensitivity * heat);
+  }
+  return demands;
+}
+
+/**
+ * Part de la demande de référence des segments desservis par le réseau de distribution que
+ * représente la demande courante : elle module la demande de chaque quartier.
+ *
+ * @param {WaterDemandState} demand - La demande des usagers
+ * @param {WaterSystemConfig} config - La configuration (profils des segments)
+ * @returns {number} Le rapport entre la demande en eau potable et sa valeur de référence
+ */
+export function drinkingWaterDemandFactor(
+  demand: WaterDemandState,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  const reference = drinkingWaterSegments(config).reduce(
+    (acc, segment) => acc + config.DEMAND_SEGMENTS[segment].baseDemand,
+    0,
+  );
+  return reference > 0 ? demand.drinkingWater / reference : 0;
+}
+
+/**
+ * Regroupe la demande des segments : total, part desservie par le réseau de distribution.
+ */
+function demandState(
+  segments: Record<DemandSegment, number>,
+  volume: number,
+  duration: number,
+  config: Readonly<WaterSystemConfig>,
+): WaterDemandState {
+  const drinkingWater = drinkingWaterSegments(config).reduce(
+    (acc, segment) => acc + segments[segment],
+    0,
+  );
+  return {
+    segments,
+    total: drinkingWater + segments.agricultural,
+    drinkingWater,
+    volume,
+    duration,
+  };
+}
+
+/**
+ * Crée l'état de la demande à un instant, sous la température de référence, sans volume demandé
+ * ni irrigation.
+ *
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @param {WaterSystemConfig} config - La configuration (profils des segments)
+ * @returns {WaterDemandState} L'état initial de la demande
+ */
+export function createWaterDemandState(
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterDemandState {
+  return demandState(
+    { ...segmentDemands(time, config.DEMAND_REFERENCE_TEMPERATURE, config), agricultural: 0 },
+    0,
+    0,
+    config,
+  );
+}
+
+/**
+ * Fait avancer la demande des usagers d'un pas de temps.
+ *
+ * @param {WaterDemandState} state - La demande au début du pas
+ * @param {Object} inputs - L'instant de fin du pas (ms), la température de l'air (°C), la
+ * consommation d'eau potable mesurée (m³/s, null sans mesure), le débit demandé par les
+ * exploitations agricoles (m³/s) et le facteur appliqué à chaque segment d'eau potable
+ * (scénario, restrictions)
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (profils des segments, température de référence)
+ * @returns {WaterDemandState} La demande à la fin du pas
+ *
+ * @description
+ * Une consommation mesurée (rejeu d'une série enregistrée) remplace la demande en eau potable
+ * générée : la demande de chaque segment est recalée sur la mesure en gardant la répartition
+ * générée, avant application des facteurs de chaque segment.
+ *
+ * La demande agricole est celle des exploitations : elle est déjà restreinte par la limite
+ * d'irrigation en cas de sécheresse, et n'est pas comptée une seconde fois par un profil.
+ */
+export function stepWaterDemand(
+  state: WaterDemandState,
+  inputs: {
+    time: number;
+    temperature: number;
+    measured: number | null;
+    irrigation: number;
+    factors: Record<DrinkingWaterSegment, number>;
+  },
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterDemandState {
+  const generated = segmentDemands(inputs.time, inputs.temperature, config);
+  const segmentIds = drinkingWaterSegments(config);
+  const total = segmentIds.reduce((acc, segment) => acc + generated[segment], 0);
+  const scale = inputs.measured === null ? 1 : total > 0 ? Math.max(0, inputs.measured) / total : 0;
+  const segments = {} as Record<DemandSegment, number>;
+  for (const segment of segmentIds) {
+    segments[segment] = generated[segment] * scale * inputs.factors[segment];
+  }
+  segments.agricultural = Math.max(0, inputs.irrigation);
+  const duration = Math.max(0, seconds);
+  const demand = demandState(segments, 0, duration, config);
+  return { ...demand, volume: state.volume + demand.total * duration };
+}
+
+/**
+ * Composable générant la demande en eau des usagers sur l'horloge de simulation.
+ *
+ * @param {Observable<WeatherState>} weather$ - Observable de la météo, dont la température module
+ * la demande ; la température de référence s'applique tant qu'aucune observation n'est reçue
+ * @param {Observable<number | null>} userConsumptionSource$ - La consommation d'eau potable
+ * mesurée (m³/s), ou null sans mesure
+ * @param {Observable<number>} irrigationDemand$ - Le débit demandé par les exploitations
+ * agricoles (m³/s), qui forme la demande du segment agricole
+ * @param {Observable<Record<DrinkingWaterSegment, number>>} demandFactors$ - Le facteur appliqué
+ * à la demande de chaque segment d'eau potable (scénario, restrictions en cas de sécheresse)
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (profils des segments, température de référence)
+ * @returns {Object} La demande de chaque segment et le volume demandé depuis le démarrage (m³)
+ *
+ * @description
+ * La demande est publiée dès la souscription, puis recalculée à la fin de chaque tick (voir
+ * stepWaterDemand) : les consommateurs qui la lisent avec withLatestFrom disposent toujours
+ * d'une valeur.
+ */
 export function useUserWaterManagement(
-  userConsumptionSource$: Observable<number>,
-  waterQualityControl$: Observable<number>,
-  weatherSource$: Observable<WeatherCondition>,
+  weather$: Observable<WeatherState>,
+  userConsumptionSource$: Observable<number | null>,
+  irrigationDemand$: Observable<number>,
+  demandFactors$: Observable<Record<DrinkingWaterSegment, number>>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
-  const userWaterManagement$ = interval(1000).pipe(
-    withLatestFrom(userConsumptionSource$, waterQualityControl$, weatherSource$),
-    map(([, consumption, quality, weather]) => {
-      let adjustedConsumption = consumption;
-      if (quality < 50) adjustedConsumption *= 0.8;
-      if (weather === 'ensoleillé') adjustedConsumption *= 1.2;
-      return adjustedConsumption;
-    }),
-    scan((acc, value) => acc + value, 0),
-    map((total) => Math.max(0, total - DAILY_RESET_VALUE)),
+  const waterDemand$: Observable<WaterDemandState> = defer(() => {
+    const initial = createWaterDemandState(deps.getCurrentTime(), config);
+    return deps.clock.tick$.pipe(
+      withLatestFrom(
+        combineLatest([
+          weather$.pipe(startWith(null)),
+          userConsumptionSource$.pipe(startWith(null)),
+          irrigationDemand$.pipe(startWith(0)),
+          demandFactors$,
+        ]),
+      ),
+      scan(
+        (state, [tick, [weather, measured, irrigation, factors]]) =>
+          stepWaterDemand(
+            state,
+            {
+              time: tick.time,
+              temperature: weather?.temperature ?? config.DEMAND_REFERENCE_TEMPERATURE,
+              measured,
+              irrigation,
+              factors,
+            },
+            tickSeconds(tick),
+            config,
+          ),
+        initial,
+      ),
+      startWith(initial),
+    );
+  }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
+
+  const userWaterManagement$ = waterDemand$.pipe(
+    map(({ volume }) => volume),
+    distinctUntilChanged(),
     shareReplay(1),
-    // measureObservablePerformance('userWaterManagement$'),
   );
 
   return {
+    waterDemand$,
     userWaterManagement$,
   };
 }
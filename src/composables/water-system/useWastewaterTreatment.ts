@@ -1,18 +1,186 @@
-import type { Observable } from 'rxjs';
-import { distinctUntilChanged, map, scan, shareReplay } from 'rxjs/operators';
-
-export function useWastewaterTreatment(wastewaterSource$: Observable<number>) {
-  const wastewaterTreatment$ = wastewaterSource$.pipe(
-    map((wastewater) => {
-      const efficiency = 0.6 + Math.random() * 0.3; // Efficacité entre 60% et 90%
-      return wastewater * efficiency;
-    }),
-    scan((acc, value) => acc + value, 0),
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  EffluentParameter,
+  EffluentQuality,
+  WastewaterPlantState,
+  WaterBatch,
+  WeatherState,
+} from '@/types/waterSystem';
+import { type Observable, of, withLatestFrom } from 'rxjs';
+import { distinctUntilChanged, map, scan, shareReplay, startWith } from 'rxjs/operators';
+
+/**
+ * Paramètres des eaux usées suivis par une configuration.
+ */
+function effluentParameters(config: Readonly<WaterSystemConfig>): EffluentParameter[] {
+  return Object.keys(config.WASTEWATER_SEWAGE_QUALITY) as EffluentParameter[];
+}
+
+/**
+ * Vérifie que toutes les concentrations suivies respectent des limites de qualité.
+ */
+export function meetsLimits(quality: EffluentQuality, limits: EffluentQuality): boolean {
+  return (Object.keys(quality) as EffluentParameter[]).every(
+    (parameter) => quality[parameter] <= limits[parameter],
+  );
+}
+
+/**
+ * Crée l'état d'une station d'épuration à l'arrêt : rien n'est reçu ni rejeté.
+ *
+ * @param {WaterSystemConfig} config - La configuration (capacité et qualité des eaux usées)
+ * @returns {WastewaterPlantState} L'état initial, sans débit
+ */
+export function createWastewaterPlantState(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WastewaterPlantState {
+  const influentQuality = { ...config.WASTEWATER_SEWAGE_QUALITY };
+  const effluentQuality = { ...influentQuality };
+  for (const parameter of effluentParameters(config)) {
+    effluentQuality[parameter] *= 1 - config.WASTEWATER_REMOVAL[parameter];
+  }
+  return {
+    sewage: 0,
+    stormwater: 0,
+    inflow: 0,
+    capacity: config.WASTEWATER_CAPACITY,
+    treated: 0,
+    overflow: 0,
+    reused: 0,
+    discharged: 0,
+    influentQuality,
+    effluentQuality,
+    compliant: meetsLimits(effluentQuality, config.WASTEWATER_DISCHARGE_LIMITS),
+    volume: 0,
+    overflowVolume: 0,
+    duration: 0,
+  };
+}
+
+/**
+ * Fait avancer la station d'épuration d'un pas de temps.
+ *
+ * @param {WastewaterPlantState} state - L'état de la station au début du pas
+ * @param {Object} inputs - Le débit des eaux usées reçues (m³/s), l'intensité de la pluie (mm/h)
+ * et le débit d'eau réutilisée demandé par les exploitations agricoles (m³/s, sans limite par défaut)
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (capacité, réseau unitaire, rendements, limites)
+ * @returns {WastewaterPlantState} L'état de la station à la fin du pas
+ *
+ * @description
+ * - Le réseau unitaire collecte, en plus des eaux usées, la pluie ruisselant sur la surface
+ *   imperméabilisée ; la qualité des eaux arrivant à la station est le mélange des deux.
+ * - Le débit au-delà de la capacité hydraulique est déversé sans traitement (déversoir d'orage).
+ * - Au-delà du débit de dimensionnement, le temps de séjour raccourcit : la part de pollution
+ *   non éliminée croît en proportion du débit traité.
+ * - L'eau traitée n'est réutilisée pour l'irrigation, dans la limite de WASTEWATER_REUSE_CAPACITY
+ *   et de la demande, que si elle respecte les limites de réutilisation ; le reste est rejeté à
+ *   l'exutoire.
+ */
+export function stepWastewaterPlant(
+  state: WastewaterPlantState,
+  inputs: { sewage: number; precipitation: number; reuseDemand?: number },
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WastewaterPlantState {
+  if (seconds <= 0) return { ...state, duration: 0 };
+
+  const sewage = Math.max(0, inputs.sewage);
+  const stormwater =
+    (Math.max(0, inputs.precipitation) / 1000 / 3600) *
+    config.WASTEWATER_IMPERVIOUS_AREA *
+    config.WASTEWATER_RUNOFF_COEFFICIENT;
+  const inflow = sewage + stormwater;
+  const treated = Math.min(inflow, config.WASTEWATER_CAPACITY);
+  const overload = Math.max(1, treated / config.WASTEWATER_DESIGN_FLOW);
+
+  const influentQuality = { ...config.WASTEWATER_SEWAGE_QUALITY };
+  const effluentQuality = { ...config.WASTEWATER_SEWAGE_QUALITY };
+  for (const parameter of effluentParameters(config)) {
+    if (inflow > 0) {
+      influentQuality[parameter] =
+        (sewage * config.WASTEWATER_SEWAGE_QUALITY[parameter] +
+          stormwater * config.WASTEWATER_STORMWATER_QUALITY[parameter]) /
+        inflow;
+    }
+    const residual = Math.min(1, (1 - config.WASTEWATER_REMOVAL[parameter]) * overload);
+    effluentQuality[parameter] = influentQuality[parameter] * residual;
+  }
+
+  const reused = meetsLimits(effluentQuality, config.WASTEWATER_REUSE_LIMITS)
+    ? Math.min(
+        treated,
+        config.WASTEWATER_REUSE_CAPACITY,
+        Math.max(0, inputs.reuseDemand ?? Number.POSITIVE_INFINITY),
+      )
+    : 0;
+  const overflow = inflow - treated;
+
+  return {
+    sewage,
+    stormwater,
+    inflow,
+    capacity: config.WASTEWATER_CAPACITY,
+    treated,
+    overflow,
+    reused,
+    discharged: treated - reused,
+    influentQuality,
+    effluentQuality,
+    compliant: meetsLimits(effluentQuality, config.WASTEWATER_DISCHARGE_LIMITS),
+    volume: state.volume + treated * seconds,
+    overflowVolume: state.overflowVolume + overflow * seconds,
+    duration: seconds,
+  };
+}
+
+/**
+ * Composable pour une station d'épuration.
+ *
+ * @param {Observable<WaterBatch>} sewage$ - Les eaux usées reçues sur chaque pas
+ * @param {Observable<WeatherState>} weather$ - Observable de la météo, dont la pluie rejoint le
+ * réseau unitaire ; il ne pleut pas tant qu'aucune observation n'est reçue
+ * @param {WaterSystemConfig} config - La configuration (capacité, réseau unitaire, rendements, limites)
+ * @param {Observable<number>} reuseDemand$ - Le débit d'eau réutilisée demandé par les exploitations
+ * agricoles (m³/s) ; sans demande, la réutilisation n'est limitée que par sa capacité
+ * @returns {Object} L'état de la station et le volume d'eau usée traité depuis le démarrage (m³)
+ *
+ * @description
+ * Chaque lot d'eaux usées est traité en un pas de la durée du lot (voir stepWastewaterPlant).
+ */
+export function useWastewaterTreatment(
+  sewage$: Observable<WaterBatch>,
+  weather$: Observable<WeatherState>,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+  reuseDemand$: Observable<number | undefined> = of(undefined),
+) {
+  const wastewater$: Observable<WastewaterPlantState> = sewage$.pipe(
+    withLatestFrom(weather$.pipe(startWith(null)), reuseDemand$),
+    scan(
+      (state, [{ volume, duration }, weather, reuseDemand]) =>
+        stepWastewaterPlant(
+          state,
+          {
+            sewage: duration > 0 ? volume / duration : 0,
+            precipitation: weather?.precipitation ?? 0,
+            reuseDemand,
+          },
+          duration,
+          config,
+        ),
+      createWastewaterPlantState(config),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  const wastewaterTreatment$ = wastewater$.pipe(
+    map(({ volume }) => volume),
     distinctUntilChanged(),
     shareReplay({ bufferSize: 1, refCount: true }),
   );
 
   return {
+    wastewater$,
     wastewaterTreatment$,
   };
 }
@@ -0,0 +1,195 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  ReservoirState,
+  WaterAllocationState,
+  WaterUse,
+  WaterUseAllocation,
+} from '@/types/waterSystem';
+import { type Observable, combineLatest, of } from 'rxjs';
+import { map, shareReplay } from 'rxjs/operators';
+import { drinkingWaterSegments } from './useUserWaterManagement';
+
+/**
+ * Usages dont une configuration fixe le droit d'eau.
+ */
+function waterUses(config: Readonly<WaterSystemConfig>): WaterUse[] {
+  return Object.keys(config.WATER_ALLOCATION_RIGHTS) as WaterUse[];
+}
+
+/**
+ * Regroupe la part de chaque usage : rang, déficit de chacun et déficit total.
+ */
+function allocationState(
+  supply: number,
+  requests: Record<WaterUse, number>,
+  allocations: Record<WaterUse, number>,
+  config: Readonly<WaterSystemConfig>,
+): WaterAllocationState {
+  const uses = {} as Record<WaterUse, WaterUseAllocation>;
+  let deficit = 0;
+  for (const use of waterUses(config)) {
+    uses[use] = {
+      priority: config.WATER_ALLOCATION_RIGHTS[use].priority,
+      request: requests[use],
+      allocation: allocations[use],
+      deficit: Math.max(0, requests[use] - allocations[use]),
+    };
+    deficit += uses[use].deficit;
+  }
+  return { supply, uses, deficit };
+}
+
+/**
+ * Crée une répartition vide : aucune demande, aucune ressource.
+ *
+ * @param {WaterSystemConfig} config - La configuration (droits d'eau)
+ * @returns {WaterAllocationState} La répartition initiale
+ */
+export function createWaterAllocationState(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterAllocationState {
+  const none = {} as Record<WaterUse, number>;
+  for (const use of waterUses(config)) none[use] = 0;
+  return allocationState(0, none, none, config);
+}
+
+/**
+ * Demande de chaque usage d'après les lâchers demandés à une retenue.
+ *
+ * @param {Object} releases - Les débits demandés pour la purification et les turbines (règle
+ * d'exploitation), pour l'irrigation (exploitations agricoles) et le débit réservé (m³/s)
+ * @param {WaterSystemConfig} config - La configuration (segments de la demande)
+ * @returns {Record<WaterUse, number>} La demande de chaque usage (m³/s)
+ *
+ * @description
+ * L'industrie est desservie par le réseau d'eau potable : le lâcher vers la purification est
+ * partagé entre l'eau potable et l'industrie selon la part du segment industriel dans la
+ * demande de référence en eau potable.
+ */
+export function waterUseRequests(
+  releases: { purification: number; turbines: number; irrigation: number; environment: number },
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): Record<WaterUse, number> {
+  const reference = drinkingWaterSegments(config).reduce(
+    (acc, segment) => acc + config.DEMAND_SEGMENTS[segment].baseDemand,
+    0,
+  );
+  const industrialShare =
+    reference > 0 ? config.DEMAND_SEGMENTS.industrial.baseDemand / reference : 0;
+  const purification = Math.max(0, releases.purification);
+  const industry = purification * industrialShare;
+  return {
+    drinkingWater: purification - industry,
+    environment: Math.max(0, releases.environment),
+    industry,
+    irrigation: Math.max(0, releases.irrigation),
+    hydropower: Math.max(0, releases.turbines),
+  };
+}
+
+/**
+ * Répartit une ressource limitée entre les usages selon leur priorité et leur droit d'eau.
+ *
+ * @param {number} supply - Le débit disponible (m³/s)
+ * @param {Record<WaterUse, number>} requests - La demande de chaque usage (m³/s)
+ * @param {WaterSystemConfig} config - La configuration (droits d'eau)
+ * @returns {WaterAllocationState} La part attribuée à chaque usage et son déficit
+ *
+ * @description
+ * Les rangs de priorité sont servis dans l'ordre. Chaque usage reçoit au plus sa demande,
+ * plafonnée par son droit d'eau ; si l'eau restante ne suffit pas à un rang, ses usages se la
+ * partagent au prorata et les rangs suivants ne reçoivent rien.
+ */
+export function allocateWater(
+  supply: number,
+  requests: Record<WaterUse, number>,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterAllocationState {
+  const rights = config.WATER_ALLOCATION_RIGHTS;
+  const uses = waterUses(config);
+  const ranks = [...new Set(uses.map((use) => rights[use].priority))].sort((a, b) => a - b);
+  const allocations = {} as Record<WaterUse, number>;
+  let remaining = Math.max(0, supply);
+  for (const rank of ranks) {
+    const group = uses.filter((use) => rights[use].priority === rank);
+    const entitled = group.map((use) =>
+      Math.min(Math.max(0, requests[use]), Math.max(0, rights[use].right)),
+    );
+    const total = entitled.reduce((acc, flow) => acc + flow, 0);
+    const ratio = total > 0 ? Math.min(1, remaining / total) : 0;
+    group.forEach((use, i) => {
+      allocations[use] = entitled[i] * ratio;
+    });
+    remaining = Math.max(0, remaining - total * ratio);
+  }
+  return allocationState(Math.max(0, supply), requests, allocations, config);
+}
+
+/**
+ * Part de sa demande qu'un usage a reçue (1 s'il ne demande rien).
+ *
+ * @param {WaterAllocationState} allocation - La répartition
+ * @param {WaterUse} use - L'usage
+ * @returns {number} Le rapport entre le débit attribué et le débit demandé
+ */
+export function supplyRatio(allocation: WaterAllocationState, use: WaterUse): number {
+  const { request, allocation: allocated } = allocation.uses[use];
+  return request > 0 ? Math.min(1, allocated / request) : 1;
+}
+
+/**
+ * Cumule les répartitions de plusieurs retenues.
+ */
+function sumAllocations(
+  allocations: readonly WaterAllocationState[],
+  config: Readonly<WaterSystemConfig>,
+): WaterAllocationState {
+  const requests = {} as Record<WaterUse, number>;
+  const allocated = {} as Record<WaterUse, number>;
+  for (const use of waterUses(config)) {
+    requests[use] = allocations.reduce((acc, { uses }) => acc + uses[use].request, 0);
+    allocated[use] = allocations.reduce((acc, { uses }) => acc + uses[use].allocation, 0);
+  }
+  return allocationState(
+    allocations.reduce((acc, { supply }) => acc + supply, 0),
+    requests,
+    allocated,
+    config,
+  );
+}
+
+/**
+ * Composable publiant la répartition de l'eau entre les usages sur l'ensemble des retenues.
+ *
+ * @param {Observable<ReservoirState>[]} reservoirs - Les états des retenues, dont chacune répartit
+ * sa ressource à chaque pas (voir allocateWater)
+ * @param {WaterSystemConfig} config - La configuration (droits d'eau)
+ * @returns {Object} La répartition cumulée : demande, part attribuée et déficit de chaque usage
+ *
+ * @description
+ * Chaque retenue applique les droits d'eau à sa propre ressource : l'eau d'une retenue n'est
+ * jamais attribuée à un usage desservi par une autre.
+ */
+export function useWaterAllocation(
+  reservoirs: readonly Observable<ReservoirState>[],
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const allocation$: Observable<WaterAllocationState> = (
+    reservoirs.length > 0
+      ? combineLatest(
+          reservoirs.map((reservoir$) => reservoir$.pipe(map(({ allocation }) => allocation))),
+        )
+      : of([])
+  ).pipe(
+    map((allocations) =>
+      allocations.length > 0
+        ? sumAllocations(allocations, config)
+        : createWaterAllocationState(config),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  return {
+    allocation$,
+  };
+}
@@ -1,21 +1,206 @@
-import type { Observable } from 'rxjs';
-import { map, scan, shareReplay } from 'rxjs/operators';
-
-const DAILY_RESET_VALUE = 1000; // Valeur arbitraire, à ajuster selon les besoins
-
-export function useWaterDistribution(dam$: Observable<number>) {
-  const waterDistribution$ = dam$.pipe(
-    map((level) => {
-      if (level > 70) return level * 0.8;
-      if (level > 30) return level * 0.5;
-      return level * 0.2;
-    }),
-    scan((acc, value) => acc + value, 0),
-    map((total) => Math.max(0, total - DAILY_RESET_VALUE)),
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DistributionNetworkState,
+  DistrictState,
+  PressureStatus,
+  WaterBatch,
+  WaterSystemDependencies,
+} from '@/types/waterSystem';
+import { BehaviorSubject, type Observable, merge, withLatestFrom } from 'rxjs';
+import { distinctUntilChanged, filter, map, scan, shareReplay } from 'rxjs/operators';
+
+/**
+ * Crée l'état d'un réseau de distribution au repos : réservoirs remplis à
+ * DISTRIBUTION_INITIAL_TANK_FILL, aucune demande, rien de livré.
+ *
+ * @param {WaterSystemConfig} config - La configuration (quartiers et remplissage initial)
+ * @returns {DistributionNetworkState} L'état initial du réseau
+ */
+export function createDistributionNetworkState(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): DistributionNetworkState {
+  return {
+    districts: config.DISTRIBUTION_DISTRICTS.map(({ id, name, tankCapacity }) => ({
+      id,
+      name,
+      demand: 0,
+      intake: 0,
+      supplied: 0,
+      shortfall: 0,
+      leakage: 0,
+      tankVolume: tankCapacity * config.DISTRIBUTION_INITIAL_TANK_FILL,
+      tankCapacity,
+      pressure: 'normal',
+    })),
+    offered: 0,
+    intake: 0,
+    rejected: 0,
+    demand: 0,
+    supplied: 0,
+    shortfall: 0,
+    leakage: 0,
+    nonRevenueWater: 0,
+    volume: 0,
+    duration: 0,
+  };
+}
+
+/**
+ * Pression de service d'un quartier selon la part de la demande satisfaite.
+ */
+function pressureStatus(
+  supplied: number,
+  demand: number,
+  config: Readonly<WaterSystemConfig>,
+): PressureStatus {
+  const ratio = demand > 0 ? supplied / demand : 1;
+  if (ratio >= config.DISTRIBUTION_LOW_PRESSURE_RATIO) return 'normal';
+  return ratio >= config.DISTRIBUTION_OUTAGE_RATIO ? 'low' : 'outage';
+}
+
+/**
+ * Fait avancer un réseau de distribution d'un pas de temps.
+ *
+ * @param {DistributionNetworkState} state - L'état du réseau au début du pas
+ * @param {Object} inputs - Le volume d'eau potable proposé sur le pas (m³) et la demande de
+ * chaque quartier (m³/s), dans l'ordre de DISTRIBUTION_DISTRICTS
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (quartiers et seuils de pression)
+ * @returns {DistributionNetworkState} L'état du réseau à la fin du pas
+ *
+ * @description
+ * - Chaque réservoir demande de quoi se remplir et couvrir le pompage du pas, dans la limite de
+ *   la capacité de sa conduite ; l'eau proposée est partagée au prorata de ces besoins, et le
+ *   reste est refusé.
+ * - Chaque station de pompage puise dans son réservoir de quoi livrer la demande, fuites
+ *   comprises, dans la limite de sa capacité et du volume disponible.
+ * - Les fuites sont une part fixe de l'eau pompée : c'est l'eau non facturée du réseau.
+ */
+export function stepDistributionNetwork(
+  state: DistributionNetworkState,
+  inputs: { supply: number; demands: readonly number[] },
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): DistributionNetworkState {
+  if (seconds <= 0) return { ...state, duration: 0 };
+
+  const supply = Math.max(0, inputs.supply);
+  const plans = config.DISTRIBUTION_DISTRICTS.map((district, i) => {
+    const demand = Math.max(0, inputs.demands[i] ?? 0);
+    const pumping = Math.min(district.pumpCapacity, demand / (1 - district.leakageRate));
+    const wanted = Math.min(
+      district.pipeCapacity * seconds,
+      district.tankCapacity - state.districts[i].tankVolume + pumping * seconds,
+    );
+    return { district, demand, wanted: Math.max(0, wanted) };
+  });
+  const totalWanted = plans.reduce((acc, { wanted }) => acc + wanted, 0);
+  const share = totalWanted > supply ? supply / totalWanted : 1;
+
+  const districts: DistrictState[] = plans.map(({ district, demand, wanted }, i) => {
+    const intake = wanted * share;
+    const available = state.districts[i].tankVolume + intake;
+    const pumped = Math.min(
+      available,
+      district.pumpCapacity * seconds,
+      (demand / (1 - district.leakageRate)) * seconds,
+    );
+    const leakage = pumped * district.leakageRate;
+    const supplied = (pumped - leakage) / seconds;
+    return {
+      id: district.id,
+      name: district.name,
+      demand,
+      intake: intake / seconds,
+      supplied,
+      shortfall: Math.max(0, demand - supplied),
+      leakage: leakage / seconds,
+      tankVolume: available - pumped,
+      tankCapacity: district.tankCapacity,
+      pressure: pressureStatus(supplied, demand, config),
+    };
+  });
+
+  const sum = (field: 'demand' | 'intake' | 'supplied' | 'shortfall' | 'leakage') =>
+    districts.reduce((acc, district) => acc + district[field], 0);
+  const intake = sum('intake');
+  const supplied = sum('supplied');
+  const leakage = sum('leakage');
+
+  return {
+    districts,
+    offered: supply / seconds,
+    intake,
+    rejected: supply / seconds - intake,
+    demand: sum('demand'),
+    supplied,
+    shortfall: sum('shortfall'),
+    leakage,
+    nonRevenueWater: supplied + leakage > 0 ? leakage / (supplied + leakage) : 0,
+    volume: state.volume + supplied * seconds,
+    duration: seconds,
+  };
+}
+
+/**
+ * Composable pour un réseau de distribution d'eau potable.
+ *
+ * @param {Observable<WaterBatch>} supply$ - L'eau potable proposée par la station de purification
+ * sur chaque pas
+ * @param {Observable<number[]>} demand$ - La demande de chaque quartier (m³/s)
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (quartiers et seuils de pression)
+ * @returns {Object} L'état du réseau, le volume livré aux usagers depuis le démarrage (m³) et
+ * la remise à zéro des réservoirs
+ *
+ * @description
+ * Chaque lot d'eau potable fait avancer le réseau d'un pas de la durée du lot (voir
+ * stepDistributionNetwork). L'état initial est publié dès la souscription, puis à chaque
+ * remise à zéro (reset), avec une durée nulle.
+ */
+export function useWaterDistribution(
+  supply$: Observable<WaterBatch>,
+  demand$: Observable<readonly number[]>,
+  _deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const restart = new BehaviorSubject<void>(undefined);
+
+  // Une remise à zéro ne se réabonne pas à l'eau proposée, qui rejouerait le dernier lot
+  const distribution$: Observable<DistributionNetworkState> = merge(
+    restart.pipe(map(() => null)),
+    supply$.pipe(withLatestFrom(demand$)),
+  ).pipe(
+    scan<[WaterBatch, readonly number[]] | null, DistributionNetworkState>(
+      (state, input) =>
+        input
+          ? stepDistributionNetwork(
+              state,
+              { supply: input[0].volume, demands: input[1] },
+              input[0].duration,
+              config,
+            )
+          : createDistributionNetworkState(config),
+      createDistributionNetworkState(config),
+    ),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  const waterDistribution$ = distribution$.pipe(
+    filter(({ duration }) => duration > 0),
+    map(({ volume }) => volume),
+    distinctUntilChanged(),
     shareReplay(1),
   );
 
+  /**
+   * Ramène les réservoirs des quartiers à leur remplissage initial.
+   */
+  const reset = () => restart.next();
+
   return {
+    distribution$,
     waterDistribution$,
+    reset,
   };
 }
@@ -0,0 +1,177 @@
+import type {
+  SimulationTick,
+  WaterBalanceReport,
+  WaterNode,
+  WaterSystemDependencies,
+  WaterTransfer,
+} from '@/types/waterSystem';
+import { type Observable, Subject } from 'rxjs';
+
+/**
+ * Nœud frontière toujours présent : pluie, évaporation, eau consommée et fuites des réseaux.
+ */
+export const ATMOSPHERE_NODE: WaterNode = 'atmosphere';
+
+// Tolérance (en m³) absorbant les erreurs d'arrondi des calculs en virgule flottante
+const VOLUME_TOLERANCE = 1e-6;
+
+/**
+ * Composable du bilan hydrique : registre central des transferts d'eau entre les nœuds du système.
+ *
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horodatage simulé)
+ * @param {Iterable<WaterNode>} boundaryNodes - Les nœuds extérieurs au système (sources et exutoires),
+ * dont le stock n'est pas suivi ; l'atmosphère en fait toujours partie
+ * @returns {Object} Les fonctions d'enregistrement et l'observable des bilans par tick
+ *
+ * @description
+ * Chaque sous-système déclare l'eau qu'il déplace (glacier → barrage → purification →
+ * distribution/irrigation → eaux usées → aval). Le registre :
+ * - tient le stock de chaque nœud interne
+ * - refuse tout transfert supérieur au volume disponible dans le nœud de départ
+ * - publie à chaque clôture de tick un bilan : entrées − sorties − variation de stock
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Un registre unique évite que plusieurs sous-systèmes comptent la même eau.
+ * - reconcile() confronte le stock tenu par le registre à celui calculé par un sous-système :
+ *   tout écart apparaît comme une perte non comptabilisée dans le bilan.
+ */
+export function useWaterLedger(deps: WaterSystemDependencies, boundaryNodes: Iterable<WaterNode>) {
+  const boundaries = new Set<WaterNode>([ATMOSPHERE_NODE, ...boundaryNodes]);
+  const storage = new Map<WaterNode, number>();
+  const balanceSubject = new Subject<WaterBalanceReport>();
+
+  let openingStorage = 0;
+  let inflow = 0;
+  let outflow = 0;
+  let transfers: WaterTransfer[] = [];
+  let rejectedTransfers: WaterTransfer[] = [];
+
+  /**
+   * Observable des bilans hydriques, émis à chaque clôture de tick.
+   */
+  const balance$: Observable<WaterBalanceReport> = balanceSubject.asObservable();
+
+  /**
+   * Indique si un nœud est une frontière du système (source ou exutoire extérieur).
+   */
+  function isBoundaryNode(node: WaterNode): boolean {
+    return boundaries.has(node);
+  }
+
+  function getStorage(node: WaterNode): number {
+    return storage.get(node) ?? 0;
+  }
+
+  function totalStorage(): number {
+    let total = 0;
+    for (const volume of storage.values()) {
+      total += volume;
+    }
+    return total;
+  }
+
+  /**
+   * Fixe le stock d'un nœud interne (état initial ou forçage manuel).
+   * Le changement est reporté sur le stock d'ouverture : il n'entre pas dans le bilan du tick.
+   */
+  function setStorage(node: WaterNode, volume: number): void {
+    if (isBoundaryNode(node)) return;
+    const newVolume = Math.max(0, volume);
+    openingStorage += newVolume - getStorage(node);
+    storage.set(node, newVolume);
+  }
+
+  /**
+   * Enregistre un transfert d'eau entre deux nœuds.
+   *
+   * @param {WaterNode} from - Le nœud de départ
+   * @param {WaterNode} to - Le nœud d'arrivée
+   * @param {number} volume - Le volume transféré (m³)
+   * @returns {boolean} false si le transfert dépasse le volume disponible et a été refusé
+   */
+  function transfer(from: WaterNode, to: WaterNode, volume: number): boolean {
+    if (volume <= 0) return true;
+
+    const record: WaterTransfer = { from, to, volume };
+    const fromBoundary = isBoundaryNode(from);
+    const toBoundary = isBoundaryNode(to);
+
+    if (!fromBoundary && volume > getStorage(from) + VOLUME_TOLERANCE) {
+      rejectedTransfers.push(record);
+      return false;
+    }
+
+    if (!fromBoundary) storage.set(from, Math.max(0, getStorage(from) - volume));
+    if (!toBoundary) storage.set(to, getStorage(to) + volume);
+    if (fromBoundary && !toBoundary) inflow += volume;
+    if (!fromBoundary && toBoundary) outflow += volume;
+
+    transfers.push(record);
+    return true;
+  }
+
+  /**
+   * Aligne le stock d'un nœud sur le volume observé par le sous-système qui le gère.
+   * L'écart éventuel apparaît dans le bilan comme une perte non comptabilisée.
+   */
+  function reconcile(node: WaterNode, observedVolume: number): void {
+    if (isBoundaryNode(node)) return;
+    storage.set(node, Math.max(0, observedVolume));
+  }
+
+  /**
+   * Clôture le tick : calcule et publie le bilan, puis ouvre le tick suivant.
+   *
+   * @param {SimulationTick} tick - Le tick clôturé
+   * @returns {WaterBalanceReport} Le bilan hydrique du tick
+   */
+  function closeTick(tick: SimulationTick): WaterBalanceReport {
+    const closingStorage = totalStorage();
+    const storageChange = closingStorage - openingStorage;
+    const unaccountedLoss = inflow - outflow - storageChange;
+
+    const report: WaterBalanceReport = {
+      tick: tick.index,
+      time: deps.getCurrentTime(),
+      inflow,
+      outflow,
+      storage: Object.fromEntries(storage),
+      storageChange,
+      unaccountedLoss: Math.abs(unaccountedLoss) > VOLUME_TOLERANCE ? unaccountedLoss : 0,
+      transfers,
+      rejectedTransfers,
+    };
+
+    openingStorage = closingStorage;
+    inflow = 0;
+    outflow = 0;
+    transfers = [];
+    rejectedTransfers = [];
+
+    balanceSubject.next(report);
+    return report;
+  }
+
+  /**
+   * Vide le registre (stocks et transferts du tick en cours).
+   */
+  function reset(): void {
+    storage.clear();
+    openingStorage = 0;
+    inflow = 0;
+    outflow = 0;
+    transfers = [];
+    rejectedTransfers = [];
+  }
+
+  return {
+    balance$,
+    isBoundaryNode,
+    getStorage,
+    setStorage,
+    transfer,
+    reconcile,
+    closeTick,
+    reset,
+  };
+}
@@ -0,0 +1,892 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  DamGate,
+  DispatchReport,
+  DistributionNetworkState,
+  GateSetting,
+  IrrigationState,
+  OperatingPolicy,
+  PowerPlantState,
+  PurificationPlantState,
+  ReservoirState,
+  SimulationTick,
+  TopologyLink,
+  TopologyNode,
+  TopologyNodeKind,
+  WastewaterPlantState,
+  WaterBatch,
+  WaterDemandState,
+  WaterQualitySample,
+  WaterSystemDependencies,
+  WaterSystemTopology,
+  WeatherState,
+} from '@/types/waterSystem';
+import { createRuleCurvePolicy } from '@/utils/operatingPolicy';
+import {
+  BehaviorSubject,
+  type Observable,
+  Subject,
+  type Subscription,
+  combineLatest,
+  merge,
+  of,
+  zip,
+} from 'rxjs';
+import { filter, map, shareReplay, tap, withLatestFrom } from 'rxjs/operators';
+import { useDamManagement } from './useDamManagement';
+import { useIrrigation } from './useIrrigation';
+import { createDispatchPolicy, usePowerDispatch } from './usePowerDispatch';
+import { usePowerPlant } from './usePowerPlant';
+import { drinkingWaterDemandFactor } from './useUserWaterManagement';
+import { useWastewaterTreatment } from './useWastewaterTreatment';
+import { useWaterAllocation } from './useWaterAllocation';
+import { useWaterDistribution } from './useWaterDistribution';
+import type { useWaterLedger } from './useWaterLedger';
+import { useWaterPurification } from './useWaterPurification';
+
+type WaterLedger = ReturnType<typeof useWaterLedger>;
+type GlacierMelt = { volume: number; meltRate: number; waterFlow: number };
+
+/**
+ * Échanges d'une exploitation agricole avec les nœuds qui l'alimentent.
+ *
+ * @property {BehaviorSubject<number>} demand - Le débit demandé pour le prochain pas (m³/s)
+ * @property {BehaviorSubject<number>} recycled - Le débit d'eau réutilisée reçu au dernier
+ * traitement des stations d'épuration (m³/s), déduit de la demande d'eau brute
+ * @property {Map<string, number>} recycledRates - Ce même débit, par station d'épuration
+ * @property {number} raw - Le volume d'eau brute reçu de la retenue sur le dernier pas (m³)
+ * @property {number} pendingRecycled - Le volume d'eau réutilisée reçu et pas encore apporté
+ * aux parcelles (m³)
+ */
+interface FarmSupply {
+  demand: BehaviorSubject<number>;
+  recycled: BehaviorSubject<number>;
+  recycledRates: Map<string, number>;
+  raw: number;
+  pendingRecycled: number;
+}
+
+/**
+ * Types de nœuds qu'un lien peut atteindre, selon le type du nœud de départ.
+ */
+const ALLOWED_TARGETS: Record<TopologyNodeKind, readonly TopologyNodeKind[]> = {
+  glacier: ['reservoir'],
+  river: ['reservoir'],
+  reservoir: ['reservoir', 'powerPlant', 'purificationPlant', 'farm', 'outlet'],
+  powerPlant: ['reservoir', 'outlet'],
+  purificationPlant: ['district', 'wastewaterPlant'],
+  farm: [],
+  district: ['wastewaterPlant'],
+  wastewaterPlant: ['outlet', 'farm'],
+  outlet: [],
+};
+
+/**
+ * Nombre exact de liens imposé pour certains types de nœuds : [types concernés, nombre, libellé].
+ */
+const REQUIRED_OUTGOING: Partial<
+  Record<TopologyNodeKind, [readonly TopologyNodeKind[], number, string][]>
+> = {
+  reservoir: [[['reservoir', 'outlet'], 1, 'un lit aval (retenue ou exutoire)']],
+  powerPlant: [[['reservoir', 'outlet'], 1, 'un canal de fuite (retenue ou exutoire)']],
+  purificationPlant: [[['wastewaterPlant'], 1, "une station d'épuration pour ses rejets"]],
+  district: [[['wastewaterPlant'], 1, "une station d'épuration"]],
+  wastewaterPlant: [[['outlet'], 1, 'un exutoire']],
+};
+
+/**
+ * Alimentation unique imposée pour certains types de nœuds : [types d'origine, libellé]. Une
+ * exploitation agricole peut recevoir en plus l'eau réutilisée d'une station d'épuration.
+ */
+const REQUIRED_INCOMING: Partial<Record<TopologyNodeKind, [readonly TopologyNodeKind[], string]>> =
+  {
+    powerPlant: [['reservoir'], 'une retenue'],
+    purificationPlant: [['reservoir'], 'une retenue'],
+    farm: [['reservoir'], 'une retenue'],
+    district: [['purificationPlant'], 'une station de purification'],
+  };
+
+/**
+ * Nœuds frontières de la topologie (sources et exutoires), dont le stock n'est pas suivi.
+ */
+export function boundaryNodeIds(topology: WaterSystemTopology): string[] {
+  return topology.nodes
+    .filter(({ kind }) => kind === 'glacier' || kind === 'river' || kind === 'outlet')
+    .map(({ id }) => id);
+}
+
+/**
+ * Vérifie qu'une topologie est cohérente avant de construire le réseau.
+ *
+ * @param {WaterSystemTopology} topology - La topologie à vérifier
+ * @throws {Error} Si la topologie est invalide ; le message liste toutes les anomalies
+ *
+ * @description
+ * Les règles vérifiées :
+ * - identifiants uniques et liens entre nœuds existants
+ * - liens autorisés selon le type des nœuds (voir ALLOWED_TARGETS)
+ * - liens obligatoires : lit aval d'une retenue, rejets d'une usine, exutoire d'une station d'épuration
+ * - au moins une retenue, et aucune boucle entre retenues
+ */
+export function validateTopology(topology: WaterSystemTopology): void {
+  const errors: string[] = [];
+  const nodes = new Map<string, TopologyNode>();
+
+  for (const node of topology.nodes) {
+    if (nodes.has(node.id)) errors.push(`identifiant en double « ${node.id} »`);
+    nodes.set(node.id, node);
+  }
+  if (!topology.nodes.some(({ kind }) => kind === 'reservoir')) {
+    errors.push('aucune retenue');
+  }
+
+  const validLinks: TopologyLink[] = [];
+  for (const link of topology.links) {
+    const from = nodes.get(link.from);
+    const to = nodes.get(link.to);
+    if (!from || !to) {
+      errors.push(`lien ${link.from} → ${link.to} vers un nœud inconnu`);
+    } else if (!ALLOWED_TARGETS[from.kind].includes(to.kind)) {
+      errors.push(`lien ${link.from} → ${link.to} interdit (${from.kind} → ${to.kind})`);
+    } else if (link.capacity !== undefined && link.capacity < 0) {
+      errors.push(`lien ${link.from} → ${link.to} de capacité négative`);
+    } else {
+      validLinks.push(link);
+    }
+  }
+
+  for (const node of topology.nodes) {
+    const targets = validLinks
+      .filter(({ from }) => from === node.id)
+      .map(({ to }) => nodes.get(to)?.kind);
+    for (const [kinds, count, label] of REQUIRED_OUTGOING[node.kind] ?? []) {
+      const found = targets.filter((kind) => kind && kinds.includes(kind)).length;
+      if (found !== count) errors.push(`« ${node.id} » doit être relié à ${label}`);
+    }
+
+    const required = REQUIRED_INCOMING[node.kind];
+    if (required) {
+      const [kinds, label] = required;
+      const sources = validLinks.filter(
+        ({ from, to }) => to === node.id && kinds.includes(nodes.get(from)?.kind ?? 'outlet'),
+      );
+      if (sources.length !== 1) {
+        errors.push(`« ${node.id} » doit être alimenté par exactement ${label}`);
+      }
+    }
+
+    if ((node.kind === 'glacier' || node.kind === 'river') && targets.length === 0) {
+      errors.push(`la source « ${node.id} » n'alimente aucune retenue`);
+    }
+  }
+
+  // Détection des boucles entre ouvrages (retenues et centrales)
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const hasCycle = (id: string): boolean => {
+    if (visiting.has(id)) return true;
+    if (visited.has(id)) return false;
+    visiting.add(id);
+    const cycle = validLinks
+      .filter(({ from }) => from === id)
+      .some(({ to }) => {
+        const kind = nodes.get(to)?.kind;
+        return (kind === 'reservoir' || kind === 'powerPlant') && hasCycle(to);
+      });
+    visiting.delete(id);
+    visited.add(id);
+    return cycle;
+  };
+  if (topology.nodes.some(({ kind, id }) => kind === 'reservoir' && hasCycle(id))) {
+    errors.push('boucle entre retenues');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Topologie invalide : ${errors.join(' ; ')}`);
+  }
+}
+
+/**
+ * Part d'un débit dans un total (0 si le total est nul, par exemple pour des liens de capacité nulle).
+ */
+function shareOf(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+/**
+ * Somme des dernières valeurs de plusieurs observables (0 si la liste est vide).
+ */
+function sumLatest(streams: Observable<number>[]): Observable<number> {
+  if (streams.length === 0) return of(0);
+  return combineLatest(streams).pipe(map((values) => values.reduce((acc, v) => acc + v, 0)));
+}
+
+/**
+ * Additionne champ à champ les derniers bilans offre-demande de plusieurs centrales.
+ */
+function sumReports(reports: Observable<DispatchReport>[]): Observable<DispatchReport> {
+  if (reports.length === 0) {
+    return of({ demand: 0, generation: 0, unmet: 0, unmetEnergy: 0, spilledEnergy: 0 });
+  }
+  return combineLatest(reports).pipe(
+    map((latest) =>
+      latest.reduce((acc, report) => ({
+        demand: acc.demand + report.demand,
+        generation: acc.generation + report.generation,
+        unmet: acc.unmet + report.unmet,
+        unmetEnergy: acc.unmetEnergy + report.unmetEnergy,
+        spilledEnergy: acc.spilledEnergy + report.spilledEnergy,
+      })),
+    ),
+  );
+}
+
+/**
+ * Pipelines d'une retenue du réseau.
+ */
+export interface ReservoirNetworkNode {
+  id: string;
+  initialLevel: number;
+  reservoir$: Observable<ReservoirState>;
+  dam$: Observable<number>;
+  setInitialWaterLevel: (level: number) => void;
+  setGate: (gate: DamGate, setting: Partial<GateSetting>) => void;
+  resetGates: () => void;
+  setOperatingPolicy: (policy: OperatingPolicy) => void;
+  getOperatingPolicy: () => OperatingPolicy;
+}
+
+/**
+ * Composable construisant le graphe RxJS du système d'eau à partir d'une topologie déclarative.
+ *
+ * @param {WaterSystemTopology} topology - Les nœuds et liens du système
+ * @param {Object} sources - Les sources partagées : débit de rivière, météo, fonte du glacier,
+ * qualité de l'eau brute, demande des usagers et part de l'allocation d'irrigation maintenue par
+ * les restrictions
+ * @param {WaterLedger} ledger - Le bilan hydrique dans lequel chaque nœud enregistre ses transferts
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée, aléa)
+ * @param {WaterSystemConfig} config - La configuration du système
+ * @returns {Object} Les pipelines par nœud et les agrégats utilisés par le moteur
+ *
+ * @description
+ * Chaque nœud est confié au composable du sous-système correspondant :
+ * - retenue : useDamManagement, avec ses propres courbe, niveau initial et lâchers (capacités des
+ *   liens) ; elle répartit sa ressource entre la purification, les turbines, les exploitations
+ *   agricoles et le débit réservé selon les droits d'eau, et useWaterAllocation cumule ces
+ *   répartitions sur toutes les retenues
+ * - centrale : usePowerPlant, alimentée par la part des turbines de sa retenue, avec ses propres
+ *   groupes et cote de canal de fuite ; usePowerDispatch suit sa part de la demande électrique,
+ *   et la règle d'exploitation de sa retenue limite le turbinage à cette demande
+ * - station de purification : useWaterPurification, alimentée par la part de purification de sa
+ *   retenue, avec sa propre capacité de traitement et des dosages réglés sur la qualité de l'eau brute
+ * - exploitation agricole : useIrrigation, avec ses propres parcelles, qui demandent de l'eau
+ *   selon la réserve de leur sol, dans la limite laissée par les restrictions en cas de
+ *   sécheresse ; l'eau réutilisée par les stations d'épuration reliées est servie en premier, le
+ *   reste est prélevé en eau brute dans sa retenue, plafonné par la capacité du lien
+ * - secteur desservi : useWaterDistribution, qui se voit proposer l'eau purifiée, plafonnée par
+ *   la capacité du lien, et la répartit entre les réservoirs de ses propres quartiers, dont la
+ *   demande suit celle des usagers desservis par le réseau
+ * - station d'épuration : useWastewaterTreatment, qui reçoit les rejets des stations de
+ *   purification et les retours des secteurs desservis, avec sa propre capacité hydraulique ;
+ *   l'eau traitée conforme est réutilisée, à la demande, par les exploitations agricoles qui lui
+ *   sont reliées
+ *
+ * Les sources (rivière, glacier) répartissent leur débit à parts égales entre leurs liens, après
+ * application de leur part `inflowShare`. Une retenue en aval d'une autre retenue ou d'une centrale
+ * est recalculée à chaque lot d'eau reçu de l'amont.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Les sous-systèmes restent identiques quel que soit le nombre de vallées modélisées.
+ * - Chaque nœud enregistre ses transferts dans le bilan hydrique dès qu'il a calculé son pas,
+ *   avant que les nœuds en aval ne le traitent : l'ordre du bilan suit le trajet de l'eau.
+ * - Une exploitation agricole calcule sa demande à la fin de son pas : la retenue et les stations
+ *   d'épuration qui l'alimentent la servent au pas suivant, et irrigationDemand$ en fait la
+ *   demande du segment agricole des usagers. L'eau réutilisée, traitée en fin de
+ *   tick, est apportée aux parcelles au pas suivant ; l'eau livrée quitte le système géré.
+ */
+export function useWaterNetwork(
+  topology: WaterSystemTopology,
+  sources: {
+    waterSource$: Observable<number>;
+    weather$: Observable<WeatherState>;
+    glacierMelt$: Observable<GlacierMelt>;
+    rawWaterQuality$: Observable<WaterQualitySample>;
+    waterDemand$: Observable<WaterDemandState>;
+    irrigationLimit$: Observable<number>;
+  },
+  ledger: WaterLedger,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  validateTopology(topology);
+
+  const nodes = new Map(topology.nodes.map((node) => [node.id, node]));
+  const kindOf = (id: string) => nodes.get(id)?.kind;
+  const outgoing = (id: string) => topology.links.filter(({ from }) => from === id);
+  const incoming = (id: string) => topology.links.filter(({ to }) => to === id);
+  const linksTo = (id: string, kinds: readonly TopologyNodeKind[]) =>
+    outgoing(id).filter(({ to }) => kinds.includes(kindOf(to) as TopologyNodeKind));
+
+  // Flux à maintenir abonnés pour que chaque nœud calcule et enregistre son pas
+  const recorders: Observable<unknown>[] = [];
+  const reservoirs = new Map<string, ReservoirNetworkNode>();
+  const downstreamBatches = new Map<string, Observable<WaterBatch>>();
+  const purificationTotals: Observable<number>[] = [];
+  const purificationPlants = new Map<string, Observable<PurificationPlantState>>();
+  const powerTotals: Observable<number>[] = [];
+  const powerOutputs: Observable<number>[] = [];
+  const powerPlants = new Map<string, Observable<PowerPlantState>>();
+  const dispatchReports: Observable<DispatchReport>[] = [];
+  const irrigationTotals: Observable<number>[] = [];
+  const irrigationDemands: Observable<number>[] = [];
+  const farms = new Map<string, Observable<IrrigationState>>();
+  const farmSupplies = new Map<string, FarmSupply>();
+  const farmResets: (() => void)[] = [];
+  const distributionTotals: Observable<number>[] = [];
+  const distributionNetworks = new Map<string, Observable<DistributionNetworkState>>();
+  const distributionResets: (() => void)[] = [];
+  const wastewaterPlants = new Map<string, Observable<WastewaterPlantState>>();
+  const wastewaterTotals: Observable<number>[] = [];
+  const sewageInlets = new Map<string, { sewage$: Subject<WaterBatch>; outlet: string }>();
+
+  // Part de la demande électrique servie par chaque lien de turbinage, au prorata de sa capacité
+  const turbineCapacityOf = (link: TopologyLink) => link.capacity ?? config.DAM_TURBINE_RELEASE;
+  const allTurbineLinks = topology.links.filter(({ to }) => kindOf(to) === 'powerPlant');
+  const totalTurbineCapacity = allTurbineLinks.reduce(
+    (acc, link) => acc + turbineCapacityOf(link),
+    0,
+  );
+  const demandShareOf = (link: TopologyLink) =>
+    shareOf(turbineCapacityOf(link), totalTurbineCapacity);
+
+  /**
+   * Configuration propre à une centrale : ses groupes et la cote de son canal de fuite.
+   */
+  function plantConfig(plant: TopologyNode): Readonly<WaterSystemConfig> {
+    return {
+      ...config,
+      POWER_PLANT_UNITS: plant.turbineUnits ?? config.POWER_PLANT_UNITS,
+      POWER_PLANT_TAILWATER_ELEVATION:
+        plant.tailwaterElevation ?? config.POWER_PLANT_TAILWATER_ELEVATION,
+    };
+  }
+
+  /**
+   * Configuration propre à un secteur desservi : ses quartiers.
+   */
+  function districtConfig(district: TopologyNode): Readonly<WaterSystemConfig> {
+    return {
+      ...config,
+      DISTRIBUTION_DISTRICTS: district.districts ?? config.DISTRIBUTION_DISTRICTS,
+    };
+  }
+
+  /**
+   * Configuration propre à une exploitation agricole : ses parcelles.
+   */
+  function farmConfig(farm: TopologyNode): Readonly<WaterSystemConfig> {
+    return {
+      ...config,
+      IRRIGATION_FIELDS: farm.fields ?? config.IRRIGATION_FIELDS,
+    };
+  }
+
+  /**
+   * Échanges d'une exploitation agricole, créés au premier nœud qui les utilise.
+   */
+  function farmSupply(id: string): FarmSupply {
+    let supply = farmSupplies.get(id);
+    if (!supply) {
+      supply = {
+        demand: new BehaviorSubject(0),
+        recycled: new BehaviorSubject(0),
+        recycledRates: new Map(),
+        raw: 0,
+        pendingRecycled: 0,
+      };
+      farmSupplies.set(id, supply);
+    }
+    return supply;
+  }
+
+  /**
+   * Débit (m³/s) apporté par un lien depuis une source, selon la dernière valeur de la source.
+   */
+  const latestSourceFlows = new Map<TopologyLink, number>();
+  function sourceLinkFlow$(link: TopologyLink): Observable<number> {
+    const source = nodes.get(link.from) as TopologyNode;
+    const share = (source.inflowShare ?? 1) / outgoing(source.id).length;
+    const flow$ =
+      source.kind === 'river'
+        ? sources.waterSource$
+        : sources.glacierMelt$.pipe(map(({ waterFlow }) => waterFlow));
+    return flow$.pipe(
+      map((flow) => Math.min(Math.max(0, flow) * share, link.capacity ?? Number.POSITIVE_INFINITY)),
+      tap((flow) => latestSourceFlows.set(link, flow)),
+      shareReplay(1),
+    );
+  }
+
+  function buildReservoir(node: TopologyNode): ReservoirNetworkNode {
+    const existing = reservoirs.get(node.id);
+    if (existing) return existing;
+
+    const purificationLinks = linksTo(node.id, ['purificationPlant']);
+    const turbineLinks = linksTo(node.id, ['powerPlant']);
+    const farmLinks = linksTo(node.id, ['farm']);
+    const [bedLink] = linksTo(node.id, ['reservoir', 'outlet']);
+    const releaseOf = (links: TopologyLink[], fallback: number) =>
+      links.map((link) => link.capacity ?? fallback);
+    const purificationReleases = releaseOf(purificationLinks, config.DAM_PURIFICATION_RELEASE);
+    const turbineReleases = releaseOf(turbineLinks, config.DAM_TURBINE_RELEASE);
+    const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+    const nodeConfig: Readonly<WaterSystemConfig> = {
+      ...config,
+      DAM_STAGE_STORAGE_CURVE: node.stageStorageCurve ?? config.DAM_STAGE_STORAGE_CURVE,
+      INITIAL_DAM_WATER_LEVEL: node.initialLevel ?? config.INITIAL_DAM_WATER_LEVEL,
+      DAM_PURIFICATION_RELEASE: sum(purificationReleases),
+      DAM_TURBINE_RELEASE: sum(turbineReleases),
+    };
+
+    const sourceLinks = incoming(node.id).filter(({ from }) => {
+      const kind = kindOf(from);
+      return kind === 'river' || kind === 'glacier';
+    });
+    const riverLinks = sourceLinks.filter(({ from }) => kindOf(from) === 'river');
+    const glacierLinks = sourceLinks.filter(({ from }) => kindOf(from) === 'glacier');
+    const riverFlows = riverLinks.map(sourceLinkFlow$);
+    const glacierFlows = glacierLinks.map(sourceLinkFlow$);
+
+    // Lots restitués par les ouvrages en amont, alignés tick par tick
+    const upstreamBatches = incoming(node.id)
+      .filter(({ from }) => kindOf(from) === 'reservoir' || kindOf(from) === 'powerPlant')
+      .map(({ from }) => {
+        const upstream = nodes.get(from) as TopologyNode;
+        if (upstream.kind === 'reservoir') buildReservoir(upstream);
+        else buildReservoir(nodes.get(incoming(from)[0].from) as TopologyNode);
+        return downstreamBatches.get(from) as Observable<WaterBatch>;
+      });
+    const upstream$ =
+      upstreamBatches.length > 0
+        ? zip(upstreamBatches).pipe(
+            map((batches) => ({
+              duration: batches[0].duration,
+              volume: batches.reduce((acc, { volume }) => acc + volume, 0),
+            })),
+          )
+        : undefined;
+
+    // Eau brute demandée par les exploitations : leur demande, moins l'eau réutilisée reçue
+    const latestRawDemands = new Map<TopologyLink, number>();
+    const rawDemands = farmLinks.map((link) => {
+      const { demand, recycled } = farmSupply(link.to);
+      return combineLatest([demand, recycled]).pipe(
+        map(([wanted, reused]) =>
+          Math.min(Math.max(0, wanted - reused), link.capacity ?? Number.POSITIVE_INFINITY),
+        ),
+        tap((flow) => latestRawDemands.set(link, flow)),
+      );
+    });
+
+    const dam = useDamManagement(
+      sumLatest(riverFlows),
+      sources.weather$,
+      sumLatest(glacierFlows).pipe(map((waterFlow) => ({ volume: 0, meltRate: 0, waterFlow }))),
+      deps,
+      nodeConfig,
+      upstream$,
+      sumLatest(rawDemands),
+    );
+    if (turbineLinks.length > 0) {
+      // Le turbinage de la retenue suit la part de demande électrique de ses centrales
+      dam.setOperatingPolicy(
+        createDispatchPolicy(
+          createRuleCurvePolicy(nodeConfig),
+          turbineLinks.reduce((acc, link) => acc + demandShareOf(link), 0),
+          plantConfig(nodes.get(turbineLinks[0].to) as TopologyNode),
+        ),
+      );
+    }
+
+    // Enregistrer le pas de la retenue dans le bilan avant que l'aval ne le traite
+    const reservoir$ = dam.reservoir$.pipe(
+      tap((reservoir) => {
+        if (reservoir.duration === 0) {
+          ledger.setStorage(node.id, reservoir.volume);
+          return;
+        }
+        const { outflows, duration } = reservoir;
+        for (const link of sourceLinks) {
+          ledger.transfer(link.from, node.id, (latestSourceFlows.get(link) ?? 0) * duration);
+        }
+        ledger.transfer('atmosphere', node.id, reservoir.inflows.precipitation * duration);
+        ledger.transfer(node.id, 'atmosphere', outflows.evaporation * duration);
+        ledger.transfer(
+          node.id,
+          bedLink.to,
+          (outflows.spillway + outflows.outlet + outflows.environment + outflows.seepage) *
+            duration,
+        );
+        turbineLinks.forEach((link, i) => {
+          const volume =
+            outflows.turbines *
+            shareOf(turbineReleases[i], nodeConfig.DAM_TURBINE_RELEASE) *
+            duration;
+          ledger.transfer(node.id, link.to, volume);
+          ledger.transfer(link.to, outgoing(link.to)[0].to, volume);
+        });
+        purificationLinks.forEach((link, i) => {
+          const volume =
+            outflows.purification *
+            shareOf(purificationReleases[i], nodeConfig.DAM_PURIFICATION_RELEASE) *
+            duration;
+          ledger.transfer(node.id, link.to, volume);
+        });
+        // Eau brute répartie au prorata de la demande de chaque exploitation
+        const requested = farmLinks.map((link) => latestRawDemands.get(link) ?? 0);
+        const totalRequested = requested.reduce((acc, v) => acc + v, 0);
+        farmLinks.forEach((link, i) => {
+          const volume =
+            totalRequested > 0
+              ? (outflows.irrigation * requested[i] * duration) / totalRequested
+              : 0;
+          farmSupply(link.to).raw = volume;
+          ledger.transfer(node.id, link.to, volume);
+          ledger.transfer(link.to, 'atmosphere', volume);
+        });
+        ledger.reconcile(node.id, reservoir.volume);
+      }),
+      shareReplay(1),
+    );
+    recorders.push(reservoir$);
+
+    const released$ = reservoir$.pipe(filter(({ duration }) => duration > 0));
+    downstreamBatches.set(
+      node.id,
+      released$.pipe(
+        map(({ outflows, duration }) => ({
+          duration,
+          volume:
+            (outflows.spillway + outflows.outlet + outflows.environment + outflows.seepage) *
+            duration,
+        })),
+      ),
+    );
+
+    turbineLinks.forEach((link, i) => {
+      const share = shareOf(turbineReleases[i], nodeConfig.DAM_TURBINE_RELEASE);
+      const turbined$ = reservoir$.pipe(
+        map((reservoir) => ({
+          ...reservoir,
+          outflows: { ...reservoir.outflows, turbines: reservoir.outflows.turbines * share },
+        })),
+      );
+      const plant = nodes.get(link.to) as TopologyNode;
+      const { hydropower$, powerPlant$, power$ } = usePowerPlant(
+        turbined$,
+        deps,
+        plantConfig(plant),
+      );
+      powerPlants.set(plant.id, hydropower$);
+      powerTotals.push(powerPlant$);
+      powerOutputs.push(power$);
+      dispatchReports.push(
+        usePowerDispatch(
+          hydropower$,
+          reservoir$,
+          demandShareOf(link),
+          share,
+          deps,
+          plantConfig(plant),
+        ).dispatch$,
+      );
+      downstreamBatches.set(
+        link.to,
+        turbined$.pipe(
+          filter(({ duration }) => duration > 0),
+          map(({ outflows, duration }) => ({ duration, volume: outflows.turbines * duration })),
+        ),
+      );
+    });
+
+    purificationLinks.forEach((link, i) => {
+      const share = shareOf(purificationReleases[i], nodeConfig.DAM_PURIFICATION_RELEASE);
+      buildPurificationPlant(
+        nodes.get(link.to) as TopologyNode,
+        reservoir$.pipe(
+          map((reservoir) => ({
+            ...reservoir,
+            outflows: {
+              ...reservoir.outflows,
+              purification: reservoir.outflows.purification * share,
+            },
+          })),
+        ),
+      );
+    });
+
+    for (const link of farmLinks) {
+      buildFarm(nodes.get(link.to) as TopologyNode, reservoir$);
+    }
+
+    const network: ReservoirNetworkNode = {
+      id: node.id,
+      initialLevel: nodeConfig.INITIAL_DAM_WATER_LEVEL,
+      reservoir$,
+      dam$: dam.dam$,
+      setInitialWaterLevel: dam.setInitialWaterLevel,
+      setGate: dam.setGate,
+      resetGates: dam.resetGates,
+      setOperatingPolicy: dam.setOperatingPolicy,
+      getOperatingPolicy: dam.getOperatingPolicy,
+    };
+    reservoirs.set(node.id, network);
+    return network;
+  }
+
+  function buildPurificationPlant(node: TopologyNode, intake$: Observable<ReservoirState>) {
+    const [wastewaterLink] = linksTo(node.id, ['wastewaterPlant']);
+    const districtLinks = linksTo(node.id, ['district']);
+    const wastewaterPlant = wastewaterLink.to;
+
+    const { purification$, purificationBatch$, purificationPlant$ } = useWaterPurification(
+      intake$,
+      sources.rawWaterQuality$,
+      deps,
+      { ...config, PURIFICATION_CAPACITY: node.treatmentCapacity ?? config.PURIFICATION_CAPACITY },
+    );
+    purificationPlants.set(node.id, purification$);
+    purificationTotals.push(purificationPlant$);
+
+    const batch$ = purificationBatch$.pipe(
+      tap(({ rejected }) => ledger.transfer(node.id, wastewaterPlant, rejected)),
+      shareReplay(1),
+    );
+    recorders.push(batch$);
+
+    // Les secteurs desservis se partagent l'eau purifiée ; le surplus part vers la station d'épuration
+    const allocation$ = batch$.pipe(
+      map(({ purified, duration }) => {
+        const supplies = districtLinks.map((link) =>
+          Math.min(
+            purified / districtLinks.length,
+            (link.capacity ?? Number.POSITIVE_INFINITY) * duration,
+          ),
+        );
+        return {
+          supplies,
+          surplus: purified - supplies.reduce((acc, v) => acc + v, 0),
+          duration,
+        };
+      }),
+      tap(({ surplus }) => ledger.transfer(node.id, wastewaterPlant, surplus)),
+      shareReplay(1),
+    );
+    recorders.push(allocation$);
+
+    // Chaque secteur remplit les réservoirs de ses quartiers ; l'eau refusée part vers la station
+    // d'épuration, les fuites et l'eau consommée vers l'atmosphère
+    districtLinks.forEach((link, i) => {
+      const [returnLink] = linksTo(link.to, ['wastewaterPlant']);
+      const networkConfig = districtConfig(nodes.get(link.to) as TopologyNode);
+      const { distribution$, waterDistribution$, reset } = useWaterDistribution(
+        allocation$.pipe(map(({ supplies, duration }) => ({ volume: supplies[i], duration }))),
+        sources.waterDemand$.pipe(
+          map((usage) => {
+            const factor = drinkingWaterDemandFactor(usage, config);
+            return networkConfig.DISTRIBUTION_DISTRICTS.map(({ demand }) => demand * factor);
+          }),
+        ),
+        deps,
+        networkConfig,
+      );
+      const recorded$ = distribution$.pipe(
+        tap(({ districts, intake, rejected, supplied, leakage, duration }) => {
+          const tanks = districts.reduce((acc, { tankVolume }) => acc + tankVolume, 0);
+          if (duration === 0) {
+            ledger.setStorage(link.to, tanks);
+            return;
+          }
+          const returned = supplied * duration * config.WASTEWATER_RETURN_RATIO;
+          ledger.transfer(node.id, link.to, intake * duration);
+          ledger.transfer(node.id, wastewaterPlant, rejected * duration);
+          ledger.transfer(link.to, returnLink.to, returned);
+          ledger.transfer(link.to, 'atmosphere', (supplied + leakage) * duration - returned);
+          ledger.reconcile(link.to, tanks);
+        }),
+        shareReplay(1),
+      );
+      recorders.push(recorded$);
+      distributionNetworks.set(link.to, recorded$);
+      distributionTotals.push(waterDistribution$);
+      distributionResets.push(reset);
+    });
+  }
+
+  function buildFarm(node: TopologyNode, reservoir$: Observable<ReservoirState>) {
+    const supply = farmSupply(node.id);
+    // Chaque pas apporte l'eau brute du pas et l'eau réutilisée reçue depuis le pas précédent
+    const { farm$, irrigation$, reset } = useIrrigation(
+      reservoir$.pipe(
+        filter(({ duration }) => duration > 0),
+        map(({ duration }) => {
+          const recycled = supply.pendingRecycled;
+          supply.pendingRecycled = 0;
+          return { raw: supply.raw, recycled, duration };
+        }),
+      ),
+      sources.weather$,
+      sources.irrigationLimit$,
+      deps,
+      farmConfig(node),
+    );
+    const recorded$ = farm$.pipe(
+      tap(({ demand }) => supply.demand.next(demand)),
+      shareReplay(1),
+    );
+    recorders.push(recorded$);
+    farms.set(node.id, recorded$);
+    irrigationTotals.push(irrigation$);
+    irrigationDemands.push(supply.demand);
+    // L'eau reçue avant la remise à zéro n'est plus appliquée aux parcelles
+    farmResets.push(() => {
+      supply.raw = 0;
+      supply.pendingRecycled = 0;
+      reset();
+    });
+  }
+
+  function buildWastewaterPlant(node: TopologyNode) {
+    const [outletLink] = linksTo(node.id, ['outlet']);
+    const reuseLinks = linksTo(node.id, ['farm']);
+    const reuseCapacities = reuseLinks.map(
+      (link) => link.capacity ?? config.WASTEWATER_REUSE_CAPACITY,
+    );
+    const reuseCapacity = reuseCapacities.reduce((acc, v) => acc + v, 0);
+    const sewage$ = new Subject<WaterBatch>();
+    sewageInlets.set(node.id, { sewage$, outlet: outletLink.to });
+
+    // Eau réutilisée demandée par chaque exploitation, partagée entre les stations qui l'alimentent
+    const latestReuseDemands = new Map<TopologyLink, number>();
+    const reuseDemands = reuseLinks.map((link, i) => {
+      const feeders = incoming(link.to).filter(
+        ({ from }) => kindOf(from) === 'wastewaterPlant',
+      ).length;
+      return farmSupply(link.to).demand.pipe(
+        map((demand) => Math.min(demand / feeders, reuseCapacities[i])),
+        tap((flow) => latestReuseDemands.set(link, flow)),
+      );
+    });
+
+    const { wastewater$, wastewaterTreatment$ } = useWastewaterTreatment(
+      sewage$,
+      sources.weather$,
+      {
+        ...config,
+        WASTEWATER_CAPACITY: node.treatmentCapacity ?? config.WASTEWATER_CAPACITY,
+        WASTEWATER_REUSE_CAPACITY: reuseCapacity,
+      },
+      sumLatest(reuseDemands),
+    );
+
+    // Eaux pluviales reçues et eau réutilisée, répartie au prorata de la demande des exploitations
+    const recorded$ = wastewater$.pipe(
+      tap(({ stormwater, reused, duration }) => {
+        ledger.transfer('atmosphere', node.id, stormwater * duration);
+        const requested = reuseLinks.map((link) => latestReuseDemands.get(link) ?? 0);
+        const totalRequested = requested.reduce((acc, v) => acc + v, 0);
+        reuseLinks.forEach((link, i) => {
+          const rate = totalRequested > 0 ? (reused * requested[i]) / totalRequested : 0;
+          const supply = farmSupply(link.to);
+          supply.pendingRecycled += rate * duration;
+          supply.recycledRates.set(node.id, rate);
+          supply.recycled.next([...supply.recycledRates.values()].reduce((acc, v) => acc + v, 0));
+          ledger.transfer(node.id, link.to, rate * duration);
+          ledger.transfer(link.to, 'atmosphere', rate * duration);
+        });
+      }),
+      shareReplay(1),
+    );
+    recorders.push(recorded$);
+    wastewaterPlants.set(node.id, recorded$);
+    wastewaterTotals.push(wastewaterTreatment$);
+  }
+
+  for (const node of topology.nodes) {
+    if (node.kind === 'reservoir') buildReservoir(node);
+    if (node.kind === 'wastewaterPlant') buildWastewaterPlant(node);
+  }
+
+  // Les retenues amont sont construites avant l'aval : la retenue principale est la première
+  // déclarée dans la topologie, pas la première construite
+  const primaryNode = topology.nodes.find(({ kind }) => kind === 'reservoir') as TopologyNode;
+  const primary = reservoirs.get(primaryNode.id) as ReservoirNetworkNode;
+  const { allocation$ } = useWaterAllocation(
+    [...reservoirs.values()].map(({ reservoir$ }) => reservoir$),
+    config,
+  );
+
+  /**
+   * Démarre les pipelines de tous les nœuds.
+   *
+   * @returns {Subscription} La souscription à résilier pour arrêter le réseau
+   */
+  function connect(): Subscription {
+    return merge(...recorders).subscribe();
+  }
+
+  /**
+   * Clôture le tick côté réseau : chaque station d'épuration traite les eaux usées reçues au
+   * cours du tick, puis rejette à son exutoire tout ce qui n'a pas été réutilisé, y compris le
+   * débit déversé par temps de pluie.
+   *
+   * @param {SimulationTick} tick - Le tick à clôturer
+   */
+  function settleTick(tick: SimulationTick): void {
+    for (const [plant, { sewage$, outlet }] of sewageInlets) {
+      sewage$.next({ volume: ledger.getStorage(plant), duration: tick.dt / 1000 });
+      ledger.transfer(plant, outlet, ledger.getStorage(plant));
+    }
+  }
+
+  /**
+   * Ramène chaque retenue à son niveau initial, vannes en pilotage automatique, les réservoirs
+   * des quartiers et les réserves des parcelles à leur remplissage initial.
+   */
+  function reset(): void {
+    for (const reservoir of reservoirs.values()) {
+      reservoir.resetGates();
+      reservoir.setInitialWaterLevel(reservoir.initialLevel);
+    }
+    for (const resetDistribution of distributionResets) {
+      resetDistribution();
+    }
+    for (const resetFarm of farmResets) {
+      resetFarm();
+    }
+  }
+
+  return {
+    topology,
+    primary,
+    reservoirs,
+    purificationPlants,
+    purificationPlant$: sumLatest(purificationTotals),
+    powerPlants,
+    powerPlant$: sumLatest(powerTotals),
+    powerOutput$: sumLatest(powerOutputs),
+    powerDispatch$: sumReports(dispatchReports),
+    farms,
+    irrigation$: sumLatest(irrigationTotals),
+    irrigationDemand$: sumLatest(irrigationDemands),
+    distributionNetworks,
+    waterDistribution$: sumLatest(distributionTotals),
+    wastewaterPlants,
+    wastewaterTreatment$: sumLatest(wastewaterTotals),
+    allocation$,
+    connect,
+    settleTick,
+    reset,
+  };
+}
@@ -1,24 +1,246 @@
-import { type Observable, interval } from 'rxjs';
-import { filter, map, mergeMap, scan, shareReplay, take } from 'rxjs/operators';
-
-export function useWaterPurification(dam$: Observable<number>) {
-  const purificationPlant$ = dam$.pipe(
-    filter((level) => level > 20),
-    map((water) => {
-      const efficiency = 0.5 + Math.random() * 0.3; // Efficacité entre 50% et 80%
-      return water * efficiency;
-    }),
-    mergeMap((water) =>
-      interval(1000).pipe(
-        take(5),
-        map(() => water / 5),
-      ),
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  PurificationPlantState,
+  PurificationStageState,
+  ReservoirState,
+  WaterQualitySample,
+  WaterSystemDependencies,
+} from '@/types/waterSystem';
+import { interpolateCurve } from '@/utils/interpolation';
+import { type Observable, withLatestFrom } from 'rxjs';
+import { distinctUntilChanged, filter, map, scan, shareReplay, startWith } from 'rxjs/operators';
+
+/**
+ * Crée l'état d'une station à l'arrêt : toutes les étapes sont en service, rien n'est traité.
+ *
+ * @param {WaterSystemConfig} config - La configuration (capacité et étapes de traitement)
+ * @returns {PurificationPlantState} L'état initial, sans production
+ */
+export function createPurificationPlantState(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): PurificationPlantState {
+  return {
+    stages: config.PURIFICATION_STAGES.map(({ id, name }) => ({
+      id,
+      name,
+      online: true,
+      repairRemaining: 0,
+    })),
+    capacity: config.PURIFICATION_CAPACITY,
+    intake: 0,
+    throughput: 0,
+    produced: 0,
+    losses: 0,
+    overflow: 0,
+    backwashing: 0,
+    coagulantDemand: 0,
+    coagulantDose: 0,
+    chlorineDose: 0,
+    volume: 0,
+    duration: 0,
+  };
+}
+
+/**
+ * Durée (ms) pendant laquelle des fenêtres périodiques recouvrent l'intervalle [start, end].
+ */
+function scheduledOverlap(
+  start: number,
+  end: number,
+  period: number,
+  duration: number,
+  offset: number,
+): number {
+  let overlap = 0;
+  for (
+    let from = offset + Math.floor((start - offset) / period) * period;
+    from < end;
+    from += period
+  ) {
+    overlap += Math.max(0, Math.min(end, from + duration) - Math.max(start, from));
+  }
+  return overlap;
+}
+
+/**
+ * Fait avancer les étapes de traitement d'un pas : une étape en service tombe en panne selon sa
+ * fréquence de pannes, une étape en panne revient en service une fois sa réparation terminée.
+ */
+function stepStages(
+  stages: readonly PurificationStageState[],
+  seconds: number,
+  random: () => number,
+  config: Readonly<WaterSystemConfig>,
+): PurificationStageState[] {
+  return config.PURIFICATION_STAGES.map((stage, i) => {
+    const state = stages[i];
+    if (!state.online) {
+      const repairRemaining = Math.max(0, state.repairRemaining - seconds);
+      return { ...state, online: repairRemaining === 0, repairRemaining };
+    }
+    const failure = 1 - Math.exp((-stage.failureRate * seconds) / 86400);
+    return random() < failure
+      ? { ...state, online: false, repairRemaining: stage.repairTime * 3600 }
+      : state;
+  });
+}
+
+/**
+ * Fait avancer la station de purification d'un pas de temps.
+ *
+ * @param {PurificationPlantState} state - L'état de la station au début du pas
+ * @param {Object} inputs - Le débit reçu de la retenue (m³/s), la qualité de l'eau brute et
+ * l'instant de fin du pas (ms)
+ * @param {number} seconds - La durée du pas (s)
+ * @param {() => number} random - Le générateur aléatoire des pannes
+ * @param {WaterSystemConfig} config - La configuration (capacité, filtres, étapes, dosages)
+ * @returns {PurificationPlantState} L'état de la station à la fin du pas
+ *
+ * @description
+ * - Les filtres sont lavés à tour de rôle, décalés régulièrement dans PURIFICATION_BACKWASH_INTERVAL :
+ *   un filtre en lavage ne traite pas, et chaque lavage consomme PURIFICATION_BACKWASH_VOLUME
+ *   d'eau traitée.
+ * - Le débit reçu au-delà de la capacité disponible n'est pas traité.
+ * - Le coagulant est dosé selon la turbidité de l'eau brute, dans la limite de la dose
+ *   maximale ; la coagulation évacue une part du débit traité avec les boues.
+ * - Le chlore est dosé pour couvrir la demande de l'eau brute et laisser le résiduel visé en
+ *   sortie de station, dans la limite de la dose maximale.
+ * - Une étape en panne est court-circuitée : la station continue de produire, mais l'étape ne
+ *   traite plus l'eau (voir treatWater) et ses réactifs ne sont plus injectés.
+ */
+export function stepPurificationPlant(
+  state: PurificationPlantState,
+  inputs: { intake: number; raw: WaterQualitySample; time: number },
+  seconds: number,
+  random: () => number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): PurificationPlantState {
+  if (seconds <= 0) return { ...state, duration: 0 };
+
+  const stages = stepStages(state.stages, seconds, random, config);
+  const online = (id: string) => stages.some((stage) => stage.id === id && stage.online);
+
+  const filters = config.PURIFICATION_FILTERS;
+  const interval = config.PURIFICATION_BACKWASH_INTERVAL;
+  const start = inputs.time - seconds * 1000;
+  let washingTime = 0;
+  let washes = 0;
+  for (let i = 0; i < filters; i++) {
+    const offset = (i * interval) / filters;
+    washingTime += scheduledOverlap(
+      start,
+      inputs.time,
+      interval,
+      config.PURIFICATION_BACKWASH_DURATION,
+      offset,
+    );
+    washes +=
+      Math.floor((inputs.time - offset) / interval) - Math.floor((start - offset) / interval);
+  }
+  const backwashing = washingTime / (seconds * 1000);
+
+  const intake = Math.max(0, inputs.intake);
+  const capacity = config.PURIFICATION_CAPACITY * (1 - backwashing / filters);
+  const throughput = Math.min(intake, capacity);
+  const sludge = online('coagulation') ? throughput * config.PURIFICATION_SLUDGE_RATIO : 0;
+  const backwash = Math.min(
+    throughput - sludge,
+    (washes * config.PURIFICATION_BACKWASH_VOLUME) / seconds,
+  );
+  const produced = throughput - sludge - backwash;
+
+  const coagulantDemand = interpolateCurve(
+    config.PURIFICATION_COAGULANT_DOSE_CURVE,
+    'turbidity',
+    'dose',
+    inputs.raw.turbidity,
+  );
+
+  return {
+    stages,
+    capacity,
+    intake,
+    throughput,
+    produced,
+    losses: sludge + backwash,
+    overflow: intake - throughput,
+    backwashing,
+    coagulantDemand,
+    coagulantDose: online('coagulation')
+      ? Math.min(coagulantDemand, config.PURIFICATION_MAX_COAGULANT_DOSE)
+      : 0,
+    chlorineDose: online('disinfection')
+      ? Math.min(
+          config.PURIFICATION_MAX_CHLORINE_DOSE,
+          config.PURIFICATION_CHLORINE_RESIDUAL +
+            config.WATER_CHLORINE_DEMAND * inputs.raw.turbidity,
+        )
+      : 0,
+    volume: state.volume + produced * seconds,
+    duration: seconds,
+  };
+}
+
+/**
+ * Composable pour la station de purification.
+ *
+ * @param {Observable<ReservoirState>} reservoir$ - L'état de la retenue, dont la part de
+ * purification est reçue par la station
+ * @param {Observable<WaterQualitySample>} rawWaterQuality$ - La qualité de l'eau brute, qui fixe
+ * les dosages ; l'eau est supposée à sa qualité par temps sec tant qu'aucune mesure n'est reçue
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge, aléa des pannes)
+ * @param {WaterSystemConfig} config - La configuration (capacité, filtres, étapes, dosages)
+ * @returns {Object} L'état de la station, les volumes traités sur chaque pas et le volume
+ * d'eau potable produit depuis le démarrage (m³)
+ *
+ * @description
+ * La station traite l'eau effectivement lâchée par la retenue sur chaque pas (voir
+ * stepPurificationPlant). Chaque lot indique l'eau potable produite et l'eau rejetée vers la
+ * station d'épuration : boues, eaux de lavage et débit excédentaire.
+ */
+export function useWaterPurification(
+  reservoir$: Observable<ReservoirState>,
+  rawWaterQuality$: Observable<WaterQualitySample>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const purification$: Observable<PurificationPlantState> = reservoir$.pipe(
+    // Ne traiter que l'eau effectivement lâchée par le barrage sur le dernier pas
+    filter(({ duration }) => duration > 0),
+    withLatestFrom(rawWaterQuality$.pipe(startWith(config.RAW_WATER_QUALITY))),
+    scan(
+      (state, [{ outflows, duration }, raw]) =>
+        stepPurificationPlant(
+          state,
+          { intake: outflows.purification, raw, time: deps.getCurrentTime() },
+          duration,
+          deps.getRandomNumber,
+          config,
+        ),
+      createPurificationPlantState(config),
     ),
-    scan((acc, value) => acc + value, 0),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  // Volumes traités sur le dernier tick (m³) : eau potable produite et eau rejetée vers les eaux usées
+  const purificationBatch$ = purification$.pipe(
+    map(({ produced, losses, overflow, duration }) => ({
+      purified: produced * duration,
+      rejected: (losses + overflow) * duration,
+      duration,
+    })),
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+
+  const purificationPlant$ = purification$.pipe(
+    map(({ volume }) => volume),
+    distinctUntilChanged(),
     shareReplay({ bufferSize: 1, refCount: true }),
   );
 
   return {
+    purification$,
+    purificationBatch$,
     purificationPlant$,
   };
 }
@@ -1,19 +1,280 @@
-import type { WeatherCondition } from '@/types/waterSystem';
-import { type Observable, interval, withLatestFrom } from 'rxjs';
-import { map, shareReplay } from 'rxjs/operators';
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  PurificationPlantState,
+  SimulationTick,
+  WaterQualityNode,
+  WaterQualityParameter,
+  WaterQualityReport,
+  WaterQualitySample,
+  WaterQualityStandard,
+  WaterQualityViolation,
+  WaterSystemDependencies,
+  WeatherState,
+} from '@/types/waterSystem';
+import { type Observable, withLatestFrom } from 'rxjs';
+import { map, scan, shareReplay, startWith } from 'rxjs/operators';
+import { createPurificationPlantState } from './useWaterPurification';
 
+/**
+ * Paramètres de qualité suivis par une configuration.
+ */
+function qualityParameters(config: Readonly<WaterSystemConfig>): WaterQualityParameter[] {
+  return Object.keys(config.RAW_WATER_QUALITY) as WaterQualityParameter[];
+}
+
+/**
+ * Points de prélèvement soumis aux limites de qualité de l'eau potable.
+ */
+const DRINKING_WATER_NODES: readonly WaterQualityNode[] = ['treated', 'tap'];
+
+/**
+ * Qualité vers laquelle tend l'eau brute pour une météo donnée : valeurs par temps sec augmentées
+ * de la réponse au ruissellement, et température de l'eau suivant celle de l'air sans descendre
+ * sous celle du fond de la retenue.
+ */
+function rawWaterEquilibrium(
+  weather: WeatherState,
+  config: Readonly<WaterSystemConfig>,
+): WaterQualitySample {
+  const equilibrium = { ...config.RAW_WATER_QUALITY };
+  for (const parameter of qualityParameters(config)) {
+    equilibrium[parameter] += config.RAW_WATER_STORM_RESPONSE[parameter] * weather.precipitation;
+  }
+  equilibrium.temperature = Math.max(config.RAW_WATER_QUALITY.temperature, weather.temperature);
+  return equilibrium;
+}
+
+/**
+ * Qualité de l'eau brute à l'équilibre avec la météo (état initial du système).
+ */
+export function createRawWaterQuality(
+  weather: WeatherState,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterQualitySample {
+  return rawWaterEquilibrium(weather, config);
+}
+
+/**
+ * Fait évoluer la qualité de l'eau brute de la retenue sur un pas de temps.
+ *
+ * @param {WaterQualitySample} raw - La qualité de l'eau brute au début du pas
+ * @param {WeatherState} weather - La météo sur le pas (pluie et température de l'air)
+ * @param {number} seconds - La durée du pas (s)
+ * @param {WaterSystemConfig} config - La configuration (réponse à la pluie et constantes de temps)
+ * @returns {WaterQualitySample} La qualité de l'eau brute à la fin du pas
+ *
+ * @description
+ * Chaque paramètre tend exponentiellement vers son équilibre pour la météo du pas. Un écart au
+ * temps sec qui se creuse (ruissellement d'un orage) s'établit en RAW_WATER_RISE_TIME, un écart
+ * qui se résorbe (décantation) en RAW_WATER_SETTLING_TIME : la turbidité monte en quelques heures
+ * et redescend en quelques jours. La température suit l'air avec l'inertie de la retenue.
+ */
+export function stepRawWaterQuality(
+  raw: WaterQualitySample,
+  weather: WeatherState,
+  seconds: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterQualitySample {
+  const equilibrium = rawWaterEquilibrium(weather, config);
+  const next = { ...raw };
+  for (const parameter of qualityParameters(config)) {
+    const dry = config.RAW_WATER_QUALITY[parameter];
+    const timeConstant =
+      parameter === 'temperature'
+        ? config.RAW_WATER_THERMAL_TIME
+        : Math.abs(equilibrium[parameter] - dry) > Math.abs(raw[parameter] - dry)
+          ? config.RAW_WATER_RISE_TIME
+          : config.RAW_WATER_SETTLING_TIME;
+    const relaxation = 1 - Math.exp((-seconds * 1000) / timeConstant);
+    next[parameter] = raw[parameter] + (equilibrium[parameter] - raw[parameter]) * relaxation;
+  }
+  return next;
+}
+
+/**
+ * Qualité de l'eau en sortie de la station de purification.
+ *
+ * @param {WaterQualitySample} raw - La qualité de l'eau brute prélevée
+ * @param {PurificationPlantState} plant - L'état de la station : étapes en service et dosages
+ * @param {WaterSystemConfig} config - La configuration (étapes, demande en chlore, correction du pH)
+ * @returns {WaterQualitySample} La qualité de l'eau produite
+ *
+ * @description
+ * Chaque étape en service élimine sa fraction de la turbidité, des E. coli et des nitrates
+ * (PURIFICATION_STAGES), pondérée par son efficacité :
+ * - la coagulation au prorata de la dose de coagulant injectée sur la dose requise
+ * - la désinfection seulement s'il subsiste du chlore libre, une fois la demande de l'eau brute
+ *   (WATER_CHLORINE_DEMAND par NTU) consommée
+ *
+ * Le pH est ramené vers la consigne. Les E. coli sont un comptage : l'eau produite en contient un
+ * nombre entier par 100 mL.
+ */
+export function treatWater(
+  raw: WaterQualitySample,
+  plant: PurificationPlantState,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterQualitySample {
+  const chlorine = Math.max(0, plant.chlorineDose - config.WATER_CHLORINE_DEMAND * raw.turbidity);
+  const effectiveness: Record<string, number> = {
+    coagulation: plant.coagulantDemand > 0 ? plant.coagulantDose / plant.coagulantDemand : 1,
+    disinfection: chlorine > 0 ? 1 : 0,
+  };
+  const treated = {
+    ...raw,
+    ph: raw.ph + (config.WATER_PH_SETPOINT - raw.ph) * config.WATER_PH_CORRECTION,
+    chlorine,
+  };
+  config.PURIFICATION_STAGES.forEach(({ id, removal }, i) => {
+    if (!plant.stages[i].online) return;
+    const efficiency = effectiveness[id] ?? 1;
+    treated.turbidity *= 1 - removal.turbidity * efficiency;
+    treated.eColi *= 1 - removal.eColi * efficiency;
+    treated.nitrates *= 1 - removal.nitrates * efficiency;
+  });
+  treated.eColi = Math.round(treated.eColi);
+  return treated;
+}
+
+/**
+ * Qualité de l'eau au robinet : le chlore libre décroît au premier ordre pendant le séjour
+ * dans le réseau.
+ */
+export function distributeWater(
+  treated: WaterQualitySample,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterQualitySample {
+  return {
+    ...treated,
+    chlorine:
+      treated.chlorine *
+      Math.exp(-config.NETWORK_CHLORINE_DECAY_RATE * config.NETWORK_RESIDENCE_TIME),
+  };
+}
+
+/**
+ * Indice de qualité d'un paramètre : 100 à la valeur guide, 50 à la limite de qualité, 0 à
+ * deux fois l'écart entre la valeur guide et la limite. Une limite égale à la valeur guide ne
+ * tolère aucun écart.
+ */
+export function parameterIndex(value: number, standard: WaterQualityStandard): number {
+  const limit = value < standard.target ? standard.min : standard.max;
+  if (limit === undefined || value === standard.target) return 100;
+  if (limit === standard.target) return 0;
+  const ratio = (value - standard.target) / (limit - standard.target);
+  return Math.max(0, Math.min(100, 100 - 50 * ratio));
+}
+
+/**
+ * Limite de qualité dépassée par une valeur, ou null si la valeur est conforme.
+ */
+function exceededLimit(value: number, standard: WaterQualityStandard): number | null {
+  if (standard.min !== undefined && value < standard.min) return standard.min;
+  if (standard.max !== undefined && value > standard.max) return standard.max;
+  return null;
+}
+
+/**
+ * Bilan de la qualité de l'eau, de la retenue au robinet.
+ *
+ * @param {WaterQualitySample} raw - La qualité de l'eau brute de la retenue
+ * @param {PurificationPlantState} plant - L'état de la station de purification
+ * @param {WaterSystemConfig} config - La configuration (traitement et exigences de l'eau potable)
+ * @returns {WaterQualityReport} Les mesures à chaque point, les indices, les dépassements et l'indice global
+ *
+ * @description
+ * La conformité est vérifiée en sortie de station et au robinet, contre les limites de
+ * DRINKING_WATER_STANDARDS.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - L'indice global est celui du paramètre le plus dégradé, comme pour l'indice de qualité de
+ *   l'air : une eau non conforme a toujours un indice inférieur à 50 (CRITICAL_WATER_QUALITY),
+ *   quelle que soit la qualité des autres paramètres.
+ */
+export function assessWaterQuality(
+  raw: WaterQualitySample,
+  plant: PurificationPlantState,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WaterQualityReport {
+  const treated = treatWater(raw, plant, config);
+  const samples = { raw, treated, tap: distributeWater(treated, config) };
+  const parameters = qualityParameters(config);
+  const indices = {} as Record<WaterQualityParameter, number>;
+  const violations: WaterQualityViolation[] = [];
+
+  for (const parameter of parameters) {
+    const standard: WaterQualityStandard = config.DRINKING_WATER_STANDARDS[parameter];
+    indices[parameter] = 100;
+    for (const node of DRINKING_WATER_NODES) {
+      const value = samples[node][parameter];
+      indices[parameter] = Math.min(indices[parameter], parameterIndex(value, standard));
+      const limit = exceededLimit(value, standard);
+      if (limit !== null) violations.push({ node, parameter, value, limit });
+    }
+  }
+
+  return {
+    samples,
+    indices,
+    violations,
+    score: Math.min(...parameters.map((parameter) => indices[parameter])),
+  };
+}
+
+/**
+ * Composable pour la qualité de l'eau brute de la retenue.
+ *
+ * @param {Observable<WeatherState>} weather$ - Observable de la météo (pluie et température)
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée)
+ * @param {WaterSystemConfig} config - La configuration (qualité par temps sec, réponse à la pluie)
+ * @returns {Object} Un objet contenant l'observable de la qualité de l'eau brute
+ *
+ * @description
+ * À chaque tick, la qualité de l'eau brute évolue avec la météo (voir stepRawWaterQuality), en
+ * partant de l'équilibre correspondant à la première météo reçue.
+ */
+export function useRawWaterQuality(
+  weather$: Observable<WeatherState>,
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const rawWaterQuality$ = deps.clock.tick$.pipe(
+    withLatestFrom(weather$),
+    scan<[SimulationTick, WeatherState], WaterQualitySample, null>(
+      (raw, [{ dt }, weather]) =>
+        raw
+          ? stepRawWaterQuality(raw, weather, dt / 1000, config)
+          : createRawWaterQuality(weather, config),
+      null,
+    ),
+    shareReplay(1),
+  );
+
+  return {
+    rawWaterQuality$,
+  };
+}
+
+/**
+ * Composable pour le suivi de la qualité de l'eau, de la retenue au robinet.
+ *
+ * @param {Observable<WaterQualitySample>} rawWaterQuality$ - Observable de la qualité de l'eau brute
+ * @param {Observable<PurificationPlantState>} purification$ - Observable de l'état de la station
+ * de purification, en service et à l'arrêt tant qu'aucun pas n'a été traité
+ * @param {WaterSystemConfig} config - La configuration (traitement et exigences de l'eau potable)
+ * @returns {Object} Un objet contenant l'observable du bilan de qualité
+ *
+ * @description
+ * Un bilan est établi à chaque nouvelle mesure de l'eau brute, avec l'état le plus récent de la
+ * station (voir assessWaterQuality).
+ */
 export function useWaterQualityControl(
-  purificationPlant$: Observable<number>,
-  wastewaterTreatment$: Observable<number>,
-  weatherSource$: Observable<WeatherCondition>,
+  rawWaterQuality$: Observable<WaterQualitySample>,
+  purification$: Observable<PurificationPlantState>,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
 ) {
-  const waterQualityControl$ = interval(1000).pipe(
-    withLatestFrom(purificationPlant$, wastewaterTreatment$, weatherSource$),
-    map(([, purified, treated, weather]) => {
-      let qualityScore = (purified / (purified + treated)) * 100;
-      if (weather === 'orageux') qualityScore *= 0.9; // La qualité diminue lors des orages
-      return Math.max(0, Math.min(100, qualityScore));
-    }),
+  const waterQualityControl$ = rawWaterQuality$.pipe(
+    withLatestFrom(purification$.pipe(startWith(createPurificationPlantState(config)))),
+    map(([raw, plant]) => assessWaterQuality(raw, plant, config)),
     shareReplay(1),
   );
 
@@ -1,13 +1,18 @@
 import { waterSystemConfig } from '@/config/waterSystemConfig';
-import type { WaterSourceLogEntry, WeatherCondition } from '@/types/waterSystem';
+import type {
+  WaterSourceLogEntry,
+  WaterSystemDependencies,
+  WeatherCondition,
+} from '@/types/waterSystem';
 import { type Observable, Subject } from 'rxjs';
 import { ref } from 'vue';
 
 /**
  * Composable pour la gestion des logs des sources d'eau
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horodatage simulé)
  * @returns {Object} Fonctions et observables pour la gestion des logs
  */
-export function useWaterSourceLogging() {
+export function useWaterSourceLogging(deps: WaterSystemDependencies) {
   const logs = ref<WaterSourceLogEntry[]>([]);
   const logSubject = new Subject<WaterSourceLogEntry>();
 
@@ -37,7 +42,7 @@ export function useWaterSourceLogging() {
     return (amount: number, weather?: WeatherCondition, flowRate?: number, quality?: number, temperature?: number) => {
       if (waterSystemConfig.enableDetailedWaterSourceLogs) {
         addLogEntry({
-          timestamp: Date.now(),
+          timestamp: deps.getCurrentTime(),
           source,
           amount,
           weather,
@@ -1,19 +1,239 @@
-import type { WeatherCondition } from '@/types/waterSystem';
-import { type Observable, interval } from 'rxjs';
-import { distinctUntilChanged, map, shareReplay } from 'rxjs/operators';
-
-export function useWeatherSimulation() {
-  const weatherSimulation$: Observable<WeatherCondition> = interval(10000).pipe(
-    map(() => {
-      const conditions: WeatherCondition[] = ['ensoleillé', 'nuageux', 'pluvieux', 'orageux'];
-      const randomIndex = Math.floor(Math.random() * conditions.length);
-      return conditions[randomIndex];
-    }),
-    distinctUntilChanged(),
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type { WaterSystemDependencies, WeatherCondition, WeatherState } from '@/types/waterSystem';
+import { dayOfYear, everySimulated } from '@/utils/simulationClock';
+import type { Observable } from 'rxjs';
+import { map, scan, shareReplay, startWith } from 'rxjs/operators';
+
+const WEATHER_CONDITIONS: readonly WeatherCondition[] = [
+  'ensoleillé',
+  'nuageux',
+  'pluvieux',
+  'orageux',
+];
+const WET_CONDITIONS: readonly WeatherCondition[] = ['pluvieux', 'orageux'];
+
+/**
+ * Retourne le jour de l'année (fractionnaire) et l'heure UTC d'un instant simulé.
+ */
+function calendar(time: number): { day: number; hour: number } {
+  const day = dayOfYear(time);
+  return { day, hour: (day % 1) * 24 };
+}
+
+/**
+ * Probabilités de transition depuis une condition, à un instant donné.
+ *
+ * @param {WeatherCondition} current - La condition actuelle
+ * @param {number} time - L'instant simulé (en millisecondes), qui fixe la saison
+ * @param {WaterSystemConfig} config - La configuration (matrice de transition, saisonnalité)
+ * @returns {Record<WeatherCondition, number>} La probabilité de chaque condition suivante
+ *
+ * @description
+ * La ligne de la matrice correspondant à la condition actuelle donne les probabilités de
+ * transition. Celles vers la pluie et l'orage sont modulées par la saison (maximum au jour
+ * WEATHER_WET_SEASON_PEAK_DAY), puis la ligne est renormalisée.
+ */
+export function transitionProbabilities(
+  current: WeatherCondition,
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): Record<WeatherCondition, number> {
+  const { day } = calendar(time);
+  const wetness =
+    1 +
+    config.WEATHER_WET_SEASON_AMPLITUDE *
+      Math.cos((2 * Math.PI * (day - config.WEATHER_WET_SEASON_PEAK_DAY)) / 365);
+  const row = config.WEATHER_TRANSITION_MATRIX[current];
+  const weights = WEATHER_CONDITIONS.map(
+    (condition) => row[condition] * (WET_CONDITIONS.includes(condition) ? wetness : 1),
+  );
+  const total = weights.reduce((acc, weight) => acc + weight, 0);
+  return Object.fromEntries(
+    WEATHER_CONDITIONS.map((condition, i) => [condition, weights[i] / total]),
+  ) as Record<WeatherCondition, number>;
+}
+
+/**
+ * Tire la condition suivante de la chaîne de Markov (voir transitionProbabilities).
+ *
+ * @param {WeatherCondition} current - La condition actuelle
+ * @param {number} time - L'instant simulé (en millisecondes), qui fixe la saison
+ * @param {() => number} random - Le générateur aléatoire
+ * @param {WaterSystemConfig} config - La configuration (matrice de transition, saisonnalité)
+ * @returns {WeatherCondition} La condition suivante
+ */
+export function nextWeatherCondition(
+  current: WeatherCondition,
+  time: number,
+  random: () => number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WeatherCondition {
+  const probabilities = transitionProbabilities(current, time, config);
+  let threshold = random();
+  for (const condition of WEATHER_CONDITIONS) {
+    threshold -= probabilities[condition];
+    if (threshold < 0) return condition;
+  }
+  return current;
+}
+
+/**
+ * Fait avancer d'une transition la distribution de probabilité des conditions.
+ *
+ * @param {Record<WeatherCondition, number>} distribution - La probabilité actuelle de chaque condition
+ * @param {number} time - L'instant simulé (en millisecondes), qui fixe la saison
+ * @param {WaterSystemConfig} config - La configuration (matrice de transition, saisonnalité)
+ * @returns {Record<WeatherCondition, number>} La distribution après la transition
+ *
+ * @description
+ * Sert à la prévision : au lieu de tirer une trajectoire, on suit la probabilité de chaque
+ * condition, qui converge vers le climat de la saison à mesure que l'échéance s'éloigne.
+ */
+export function propagateWeather(
+  distribution: Record<WeatherCondition, number>,
+  time: number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): Record<WeatherCondition, number> {
+  const next = Object.fromEntries(WEATHER_CONDITIONS.map((condition) => [condition, 0])) as Record<
+    WeatherCondition,
+    number
+  >;
+  for (const from of WEATHER_CONDITIONS) {
+    if (distribution[from] === 0) continue;
+    const probabilities = transitionProbabilities(from, time, config);
+    for (const to of WEATHER_CONDITIONS) {
+      next[to] += distribution[from] * probabilities[to];
+    }
+  }
+  return next;
+}
+
+/**
+ * Intensité de pluie attendue (mm/h) pour une distribution de probabilité des conditions.
+ */
+export function expectedPrecipitation(
+  distribution: Record<WeatherCondition, number>,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): number {
+  return WEATHER_CONDITIONS.reduce(
+    (sum, condition) =>
+      sum + distribution[condition] * config.WEATHER_PRECIPITATION_RATES[condition],
+    0,
+  );
+}
+
+/**
+ * Condition la plus probable d'une distribution.
+ */
+export function mostLikelyWeather(
+  distribution: Record<WeatherCondition, number>,
+): WeatherCondition {
+  return WEATHER_CONDITIONS.reduce((best, condition) =>
+    distribution[condition] > distribution[best] ? condition : best,
+  );
+}
+
+/**
+ * Tire les grandeurs continues associées à une condition.
+ *
+ * @param {WeatherCondition} condition - La condition météorologique
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @param {() => number} random - Le générateur aléatoire
+ * @param {WaterSystemConfig} config - La configuration (climatologie)
+ * @returns {WeatherState} L'observation complète
+ *
+ * @description
+ * - Température : moyenne annuelle + cycle saisonnier + cycle journalier + écart propre à la
+ *   condition + bruit.
+ * - Pluie : intensité tirée selon une loi exponentielle de moyenne propre à la condition.
+ * - Humidité et vent : valeur typique de la condition, perturbée aléatoirement.
+ */
+export function sampleWeather(
+  condition: WeatherCondition,
+  time: number,
+  random: () => number,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WeatherState {
+  const { day, hour } = calendar(time);
+  const temperature =
+    config.WEATHER_MEAN_TEMPERATURE +
+    config.WEATHER_ANNUAL_TEMPERATURE_AMPLITUDE *
+      Math.cos((2 * Math.PI * (day - config.WEATHER_WARMEST_DAY)) / 365) +
+    config.WEATHER_DAILY_TEMPERATURE_AMPLITUDE * Math.cos((2 * Math.PI * (hour - 15)) / 24) +
+    config.WEATHER_TEMPERATURE_OFFSETS[condition] +
+    (random() - 0.5) * 2 * config.WEATHER_TEMPERATURE_NOISE;
+  const meanPrecipitation = config.WEATHER_PRECIPITATION_RATES[condition];
+
+  return {
+    condition,
+    precipitation: meanPrecipitation > 0 ? -meanPrecipitation * Math.log(1 - random()) : 0,
+    temperature,
+    humidity: Math.max(
+      0,
+      Math.min(100, config.WEATHER_HUMIDITY[condition] + (random() - 0.5) * 10),
+    ),
+    windSpeed: config.WEATHER_WIND_SPEEDS[condition] * (0.5 + random()),
+  };
+}
+
+/**
+ * Observation médiane d'une condition : tous les tirages au milieu de leur distribution.
+ *
+ * @param {WeatherCondition} condition - La condition météorologique
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @param {WaterSystemConfig} config - La configuration (climatologie)
+ * @returns {WeatherState} L'observation, identique à chaque appel
+ */
+export function createWeatherState(
+  condition: WeatherCondition,
+  time: number = waterSystemConfig.SIMULATION_START_TIME,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): WeatherState {
+  return sampleWeather(condition, time, () => 0.5, config);
+}
+
+/**
+ * Composable pour la génération stochastique de la météo.
+ *
+ * @param {WaterSystemDependencies} deps - Dépendances de simulation (horloge partagée, aléa)
+ * @param {WaterSystemConfig} config - La configuration (matrice de transition, climatologie)
+ * @returns {Object} L'observable des observations météorologiques
+ *
+ * @description
+ * À chaque intervalle WEATHER_CHANGE_INTERVAL de temps simulé, la condition évolue selon la
+ * chaîne de Markov (voir nextWeatherCondition) et les grandeurs continues sont tirées pour
+ * la nouvelle condition (voir sampleWeather). La première observation, ensoleillée et
+ * médiane (voir createWeatherState), est publiée dès la souscription.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Une chaîne de Markov reproduit la persistance du temps : un orage suit plus souvent
+ *   la pluie que le soleil.
+ * - Les grandeurs continues permettent aux sous-systèmes de travailler sur des quantités
+ *   (mm de pluie, °C) plutôt que sur des coefficients par condition.
+ */
+export function useWeatherSimulation(
+  deps: WaterSystemDependencies,
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+) {
+  const random = () => deps.getRandomNumber();
+  const initialWeather = createWeatherState('ensoleillé', deps.getCurrentTime(), config);
+
+  const weatherSimulation$: Observable<WeatherState> = deps.clock.tick$.pipe(
+    everySimulated(config.WEATHER_CHANGE_INTERVAL),
+    scan((weather, { time }) => {
+      const condition = nextWeatherCondition(weather.condition, time, random, config);
+      return sampleWeather(condition, time, random, config);
+    }, initialWeather),
+    startWith(initialWeather),
     shareReplay({ bufferSize: 1, refCount: true }),
   );
 
+  const weatherCondition$: Observable<WeatherCondition> = weatherSimulation$.pipe(
+    map(({ condition }) => condition),
+  );
+
   return {
     weatherSimulation$,
+    weatherCondition$,
   };
 }
@@ -15,24 +15,474 @@ export const waterSystemConfig = {
   INITIAL_WATER_LEVEL: 50,
   INITIAL_PURIFIED_WATER: 100,
   INITIAL_POWER_GENERATED: 0,
+  INITIAL_POWER_OUTPUT: 0,
   INITIAL_WATER_DISTRIBUTED: 50,
   INITIAL_IRRIGATION_WATER: 0,
   INITIAL_TREATED_WASTEWATER: 0,
-  INITIAL_WATER_QUALITY: 90,
-  INITIAL_FLOOD_RISK: 10,
   INITIAL_USER_CONSUMPTION: 0,
   INITIAL_GLACIER_VOLUME: 1000000,
   INITIAL_MELT_RATE: 0,
   INITIAL_WATER_FLOW: 0,
-  INITIAL_DAM_WATER_VOLUME: 1000000,
+  INITIAL_SNOWPACK: 0, // mm d'équivalent en eau
 
-  // Seuils de distribution d'eau
-  LOW_WATER_DISTRIBUTION: 50,
-  HIGH_WATER_DISTRIBUTION: 500,
+  // Glacier : modèle degré-jour (fonte = facteur × degrés au-dessus du seuil × jours)
+  GLACIER_DEGREE_DAY_FACTOR_ICE: 7, // mm d'eau / °C / jour
+  GLACIER_DEGREE_DAY_FACTOR_SNOW: 4, // mm d'eau / °C / jour
+  GLACIER_MELT_THRESHOLD_TEMPERATURE: 0, // °C
+  GLACIER_SNOW_THRESHOLD_TEMPERATURE: 1, // °C, la pluie tombe en neige en dessous
+  GLACIER_ELEVATION_ABOVE_STATION: 800, // m, écart d'altitude avec la station météo
+  GLACIER_LAPSE_RATE: 0.0065, // °C/m, gradient vertical de température
+  // Glacier : relation volume-surface V = c · S^γ (volume en m³, surface en m²)
+  GLACIER_VOLUME_AREA_COEFFICIENT: 0.191,
+  GLACIER_VOLUME_AREA_EXPONENT: 1.375,
+
+  // Barrage : courbe hauteur-volume-surface (cote en m, volume en m³, surface en m²)
+  DAM_STAGE_STORAGE_CURVE: [
+    { elevation: 1500, volume: 0, area: 0 },
+    { elevation: 1510, volume: 600000, area: 120000 },
+    { elevation: 1520, volume: 2950000, area: 350000 },
+    { elevation: 1530, volume: 7950000, area: 650000 },
+    { elevation: 1540, volume: 16200000, area: 1000000 },
+    { elevation: 1550, volume: 28200000, area: 1400000 },
+    { elevation: 1560, volume: 44200000, area: 1800000 },
+  ],
+  // Barrage : bilan de masse
+  DAM_CATCHMENT_AREA: 10000000, // m², bassin versant drainé directement vers la retenue
+  DAM_RUNOFF_COEFFICIENT: 0.5,
+  DAM_EVAPORATION_RATES: { ensoleillé: 6, nuageux: 3, pluvieux: 1, orageux: 1 }, // mm/jour
+  DAM_SEEPAGE_COEFFICIENT: 0.000000001, // fraction du volume par seconde
+  DAM_PURIFICATION_RELEASE: 2, // m³/s, lâcher maximal
+  DAM_TURBINE_RELEASE: 40, // m³/s, lâcher maximal
+  DAM_ENVIRONMENTAL_FLOW: 0.5, // m³/s, débit réservé laissé à la rivière en aval
+  // Barrage : courbes guides saisonnières (jour de l'année, taux de remplissage en %)
+  // Limite de la tranche de crue, cible de la tranche de conservation et culot mort
+  DAM_RULE_CURVES: [
+    { day: 0, floodControl: 85, conservation: 60, deadStorage: 15 },
+    { day: 75, floodControl: 75, conservation: 50, deadStorage: 15 }, // avant la fonte : faire de la place
+    { day: 170, floodControl: 85, conservation: 65, deadStorage: 15 },
+    { day: 250, floodControl: 92, conservation: 75, deadStorage: 15 }, // fin d'été : remplir pour l'hiver
+    { day: 366, floodControl: 85, conservation: 60, deadStorage: 15 },
+  ],
+  // Barrage : vannes (débit en m³/s à pleine ouverture selon la cote du plan d'eau, en m)
+  DAM_SPILLWAY_DISCHARGE_CURVE: [
+    { elevation: 1555, discharge: 0 },
+    { elevation: 1557, discharge: 120 },
+    { elevation: 1560, discharge: 450 },
+  ],
+  DAM_OUTLET_DISCHARGE_CURVE: [
+    { elevation: 1500, discharge: 0 },
+    { elevation: 1520, discharge: 25 },
+    { elevation: 1540, discharge: 40 },
+    { elevation: 1560, discharge: 50 },
+  ],
+  DAM_STORM_PRE_RELEASE: 10, // points de remplissage retranchés à la limite de crue par temps d'orage
+  // Centrale : groupes turbine-alternateur (débits en m³/s, rendement selon la charge)
+  POWER_PLANT_UNITS: [
+    {
+      ratedFlow: 20,
+      minFlow: 6,
+      efficiencyCurve: [
+        { load: 0, efficiency: 0 },
+        { load: 0.3, efficiency: 0.78 },
+        { load: 0.6, efficiency: 0.9 },
+        { load: 0.85, efficiency: 0.93 },
+        { load: 1, efficiency: 0.91 },
+      ],
+    },
+    {
+      ratedFlow: 20,
+      minFlow: 6,
+      efficiencyCurve: [
+        { load: 0, efficiency: 0 },
+        { load: 0.3, efficiency: 0.78 },
+        { load: 0.6, efficiency: 0.9 },
+        { load: 0.85, efficiency: 0.93 },
+        { load: 1, efficiency: 0.91 },
+      ],
+    },
+  ],
+  POWER_PLANT_TAILWATER_ELEVATION: 1420, // m, cote du canal de fuite
+  POWER_PLANT_HEAD_LOSS_COEFFICIENT: 0.002, // m/(m³/s)², pertes de charge de la conduite forcée
+  POWER_PLANT_MIN_RUN_TIME: 3600, // s, durée minimale de marche après un démarrage
+  POWER_PLANT_MIN_STOP_TIME: 1800, // s, durée minimale d'arrêt avant un redémarrage
+  // Demande électrique : pointe (MW) modulée par heure (UTC) et par jour de la semaine (dimanche en premier)
+  ELECTRICITY_DEMAND_PEAK: 45,
+  ELECTRICITY_DEMAND_HOURLY_PROFILE: [
+    0.55, 0.5, 0.48, 0.47, 0.5, 0.6, 0.75, 0.9, 0.95, 0.92, 0.9, 0.9, 0.88, 0.85, 0.85, 0.87, 0.92,
+    1, 1, 0.95, 0.85, 0.75, 0.65, 0.6,
+  ],
+  ELECTRICITY_DEMAND_DAILY_PROFILE: [0.8, 1, 1, 1, 1, 1, 0.85],
+  POWER_DISPATCH_EFFICIENCY: 0.88, // rendement prudent utilisé pour estimer le débit à turbiner
+  POWER_UNMET_DEMAND_TOLERANCE: 0.02, // part de la demande non servie tolérée avant alerte
+  POWER_UNMET_DEMAND_CRITICAL: 0.2, // part de la demande non servie déclenchant une alerte haute
+  WATER_DENSITY: 1000, // kg/m³
+  GRAVITY: 9.81, // m/s²
+
+  // Crue : routage de Muskingum des lâchers du barrage le long de la rivière aval.
+  // Chaque tronçon doit vérifier 2·K·X ≤ FLOOD_ROUTING_STEP ≤ 2·K·(1 − X) (K en secondes).
+  FLOOD_ROUTING_STEP: 15 * 60 * 1000, // ms
+  FLOOD_FORECAST_HORIZON: 6 * 60 * 60 * 1000, // ms
+  FLOOD_REACHES: [
+    {
+      id: 'gorges',
+      name: 'Gorges',
+      muskingumK: 1800,
+      muskingumX: 0.2,
+      baseFlow: 2,
+      catchmentArea: 40, // km²
+      runoffCoefficient: 0.4,
+      ratingCurve: [
+        { flow: 0, stage: 0 },
+        { flow: 10, stage: 0.5 },
+        { flow: 30, stage: 1 },
+        { flow: 80, stage: 1.8 },
+        { flow: 200, stage: 2.8 },
+        { flow: 400, stage: 3.8 },
+        { flow: 800, stage: 5.2 },
+      ],
+      floodStages: { normal: 0.8, warning: 1.8, danger: 2.8 }, // m
+    },
+    {
+      id: 'village',
+      name: 'Village',
+      muskingumK: 3600,
+      muskingumX: 0.1,
+      baseFlow: 5,
+      catchmentArea: 120, // km²
+      runoffCoefficient: 0.3,
+      ratingCurve: [
+        { flow: 0, stage: 0 },
+        { flow: 15, stage: 0.6 },
+        { flow: 40, stage: 1.1 },
+        { flow: 100, stage: 1.9 },
+        { flow: 250, stage: 2.9 },
+        { flow: 500, stage: 3.9 },
+        { flow: 1000, stage: 5.3 },
+      ],
+      floodStages: { normal: 0.9, warning: 2, danger: 3 }, // m
+    },
+  ],
+
+  // Météo : matrice de transition de Markov (probabilités d'un état à l'autre à chaque changement)
+  WEATHER_TRANSITION_MATRIX: {
+    ensoleillé: { ensoleillé: 0.94, nuageux: 0.05, pluvieux: 0.01, orageux: 0 },
+    nuageux: { ensoleillé: 0.06, nuageux: 0.88, pluvieux: 0.05, orageux: 0.01 },
+    pluvieux: { ensoleillé: 0.02, nuageux: 0.08, pluvieux: 0.87, orageux: 0.03 },
+    orageux: { ensoleillé: 0.01, nuageux: 0.09, pluvieux: 0.25, orageux: 0.65 },
+  },
+  // Météo : saisonnalité des transitions vers la pluie et l'orage (maximum au jour indiqué)
+  WEATHER_WET_SEASON_PEAK_DAY: 135,
+  WEATHER_WET_SEASON_AMPLITUDE: 0.4,
+  // Météo : variables continues
+  WEATHER_PRECIPITATION_RATES: { ensoleillé: 0, nuageux: 0, pluvieux: 2, orageux: 8 }, // mm/h, moyenne
+  WEATHER_MEAN_TEMPERATURE: 6, // °C, moyenne annuelle
+  WEATHER_ANNUAL_TEMPERATURE_AMPLITUDE: 10, // °C
+  WEATHER_WARMEST_DAY: 200,
+  WEATHER_DAILY_TEMPERATURE_AMPLITUDE: 5, // °C, maximum vers 15 h
+  WEATHER_TEMPERATURE_OFFSETS: { ensoleillé: 2, nuageux: 0, pluvieux: -2, orageux: -3 }, // °C
+  WEATHER_TEMPERATURE_NOISE: 1.5, // °C
+  WEATHER_HUMIDITY: { ensoleillé: 45, nuageux: 65, pluvieux: 85, orageux: 92 }, // %
+  WEATHER_WIND_SPEEDS: { ensoleillé: 3, nuageux: 4, pluvieux: 6, orageux: 14 }, // m/s, moyenne
+
+  // Qualité de l'eau brute : valeurs par temps sec et réponse à la pluie (par mm/h de pluie)
+  // Turbidité en NTU, chlore en mg/L, E. coli en UFC/100 mL, nitrates en mg/L, température en °C
+  RAW_WATER_QUALITY: {
+    turbidity: 3,
+    ph: 7.6,
+    chlorine: 0,
+    eColi: 100,
+    nitrates: 12,
+    temperature: 4,
+  },
+  RAW_WATER_STORM_RESPONSE: {
+    turbidity: 5,
+    ph: -0.05,
+    chlorine: 0,
+    eColi: 250,
+    nitrates: 0.5,
+    temperature: 0,
+  },
+  RAW_WATER_RISE_TIME: 2 * 60 * 60 * 1000, // ms, montée de la turbidité par ruissellement
+  RAW_WATER_SETTLING_TIME: 48 * 60 * 60 * 1000, // ms, retour au temps sec par décantation
+  RAW_WATER_THERMAL_TIME: 5 * 24 * 60 * 60 * 1000, // ms, inertie thermique de la retenue
+  // Qualité de l'eau : demande en chlore et mise à l'équilibre du pH par la station
+  WATER_CHLORINE_DEMAND: 0.02, // mg/L de chlore consommé par NTU de turbidité de l'eau brute
+  WATER_PH_SETPOINT: 7.5,
+  WATER_PH_CORRECTION: 0.8, // part de l'écart à la consigne corrigée par la station
+  // Station de purification : capacité, filtres et étapes de traitement
+  PURIFICATION_CAPACITY: 2.4, // m³/s, tous les filtres en service
+  PURIFICATION_FILTERS: 6,
+  PURIFICATION_BACKWASH_INTERVAL: 24 * 60 * 60 * 1000, // ms, lavages des filtres décalés dans l'intervalle
+  PURIFICATION_BACKWASH_DURATION: 30 * 60 * 1000, // ms
+  PURIFICATION_BACKWASH_VOLUME: 200, // m³ d'eau traitée par lavage de filtre
+  PURIFICATION_SLUDGE_RATIO: 0.02, // part du débit traité évacuée avec les boues de coagulation
+  PURIFICATION_STAGES: [
+    {
+      id: 'coagulation',
+      name: 'Coagulation-floculation',
+      removal: { turbidity: 0.95, eColi: 0.5, nitrates: 0 },
+      failureRate: 0.02, // par jour
+      repairTime: 6, // h
+    },
+    {
+      id: 'filtration',
+      name: 'Filtration',
+      removal: { turbidity: 0.8, eColi: 0.98, nitrates: 0.1 },
+      failureRate: 0.01,
+      repairTime: 12,
+    },
+    {
+      id: 'disinfection',
+      name: 'Désinfection',
+      removal: { turbidity: 0, eColi: 0.9999, nitrates: 0 },
+      failureRate: 0.02,
+      repairTime: 4,
+    },
+  ],
+  // Station de purification : dosage du coagulant selon la turbidité de l'eau brute (NTU, mg/L)
+  PURIFICATION_COAGULANT_DOSE_CURVE: [
+    { turbidity: 0, dose: 5 },
+    { turbidity: 10, dose: 15 },
+    { turbidity: 100, dose: 50 },
+    { turbidity: 1000, dose: 150 },
+  ],
+  PURIFICATION_MAX_COAGULANT_DOSE: 60, // mg/L
+  // Station de purification : chloration visant un résiduel en sortie de station (mg/L)
+  PURIFICATION_CHLORINE_RESIDUAL: 1,
+  PURIFICATION_MAX_CHLORINE_DOSE: 2.5,
+  // Qualité de l'eau : décroissance du chlore pendant le séjour dans le réseau
+  NETWORK_RESIDENCE_TIME: 12, // h
+  NETWORK_CHLORINE_DECAY_RATE: 0.05, // 1/h
+  // Qualité de l'eau potable : valeurs guides et limites de qualité
+  DRINKING_WATER_STANDARDS: {
+    turbidity: { target: 0.1, max: 1 },
+    ph: { target: 7.5, min: 6.5, max: 9.5 },
+    chlorine: { target: 0.5, min: 0.1, max: 5 },
+    eColi: { target: 0, max: 0 },
+    nitrates: { target: 0, max: 50 },
+    temperature: { target: 12, max: 25 },
+  },
+
+  // Bilan hydrique : part de l'eau distribuée qui revient vers les eaux usées (le reste est consommé)
+  WASTEWATER_RETURN_RATIO: 0.8,
+  // Station d'épuration : capacité hydraulique et débit de temps sec pour lequel elle est dimensionnée
+  WASTEWATER_CAPACITY: 3, // m³/s
+  WASTEWATER_DESIGN_FLOW: 2, // m³/s
+  // Réseau unitaire : surface imperméabilisée raccordée et part de la pluie qui y ruisselle
+  WASTEWATER_IMPERVIOUS_AREA: 2000000, // m²
+  WASTEWATER_RUNOFF_COEFFICIENT: 0.9,
+  // Station d'épuration : qualité des eaux usées et des eaux pluviales (mg/L)
+  WASTEWATER_SEWAGE_QUALITY: { bod: 300, suspendedSolids: 350, ammonium: 40, phosphorus: 8 },
+  WASTEWATER_STORMWATER_QUALITY: { bod: 20, suspendedSolids: 150, ammonium: 2, phosphorus: 0.5 },
+  // Station d'épuration : rendement d'épuration au débit de dimensionnement
+  WASTEWATER_REMOVAL: { bod: 0.96, suspendedSolids: 0.97, ammonium: 0.9, phosphorus: 0.9 },
+  // Limites de qualité des rejets au milieu naturel et de l'eau réutilisée pour l'irrigation (mg/L)
+  WASTEWATER_DISCHARGE_LIMITS: { bod: 25, suspendedSolids: 35, ammonium: 10, phosphorus: 2 },
+  WASTEWATER_REUSE_LIMITS: { bod: 15, suspendedSolids: 15, ammonium: 5, phosphorus: 2 },
+  // Réutilisation : débit maximal envoyé vers une exploitation agricole si le lien ne le précise pas (m³/s)
+  WASTEWATER_REUSE_CAPACITY: 0.5,
+
+  // Demande en eau : profil de chaque segment d'usagers desservi en eau potable. Les profils
+  // horaires (UTC) commencent à 0 h, les profils hebdomadaires le dimanche ; la croissance est
+  // annuelle. La demande agricole est celle des exploitations (IRRIGATION_FIELDS).
+  DEMAND_SEGMENTS: {
+    residential: {
+      baseDemand: 0.8, // m³/s
+      hourlyProfile: [
+        0.5, 0.4, 0.35, 0.35, 0.4, 0.65, 1.05, 1.3, 1.25, 1.1, 1, 1, 1.1, 1.05, 0.95, 0.9, 0.95,
+        1.1, 1.3, 1.3, 1.2, 1.05, 0.85, 0.65,
+      ],
+      weeklyProfile: [1.05, 0.98, 0.98, 0.98, 0.98, 0.99, 1.04],
+      growthRate: 0.012,
+      temperatureSensitivity: 0.02, // par °C au-dessus de DEMAND_REFERENCE_TEMPERATURE
+    },
+    commercial: {
+      baseDemand: 0.35,
+      hourlyProfile: [
+        0.3, 0.25, 0.25, 0.25, 0.3, 0.4, 0.7, 1.1, 1.45, 1.55, 1.55, 1.55, 1.5, 1.5, 1.55, 1.55,
+        1.5, 1.4, 1.2, 0.95, 0.75, 0.6, 0.45, 0.35,
+      ],
+      weeklyProfile: [0.55, 1.08, 1.08, 1.08, 1.08, 1.08, 1.05],
+      growthRate: 0.015,
+      temperatureSensitivity: 0.01,
+    },
+    industrial: {
+      baseDemand: 0.35,
+      hourlyProfile: [
+        0.85, 0.85, 0.85, 0.85, 0.85, 0.9, 1.05, 1.15, 1.15, 1.15, 1.15, 1.1, 1.1, 1.15, 1.15, 1.15,
+        1.1, 1.05, 0.95, 0.9, 0.9, 0.85, 0.85, 0.85,
+      ],
+      weeklyProfile: [0.7, 1.05, 1.05, 1.05, 1.05, 1.05, 1.05],
+      growthRate: 0.005,
+      temperatureSensitivity: 0.005,
+    },
+  },
+  DEMAND_REFERENCE_TEMPERATURE: 20, // °C, au-delà la demande croît avec la chaleur
+
+  // Sécheresse : paliers de restriction, du moins sévère au plus sévère. Un palier est déclenché
+  // dès que le remplissage (%), l'apport prévu (m³/s) ou les jours de réserve passent sous son seuil.
+  DROUGHT_STAGES: [
+    {
+      id: 'vigilance',
+      name: 'Vigilance',
+      maxLevel: 50,
+      maxForecastInflow: 10,
+      maxDaysOfStorage: 20,
+      demandReduction: { residential: 0.05, commercial: 0, industrial: 0 },
+      irrigationLimit: 0.9,
+    },
+    {
+      id: 'alert',
+      name: 'Alerte',
+      maxLevel: 40,
+      maxForecastInflow: 5,
+      maxDaysOfStorage: 10,
+      demandReduction: { residential: 0.1, commercial: 0.05, industrial: 0.05 },
+      irrigationLimit: 0.7,
+    },
+    {
+      id: 'reinforced-alert',
+      name: 'Alerte renforcée',
+      maxLevel: 30,
+      maxForecastInflow: 2,
+      maxDaysOfStorage: 5,
+      demandReduction: { residential: 0.2, commercial: 0.1, industrial: 0.15 },
+      irrigationLimit: 0.4,
+    },
+    {
+      id: 'crisis',
+      name: 'Crise',
+      maxLevel: 20,
+      maxForecastInflow: 0.5,
+      maxDaysOfStorage: 2,
+      demandReduction: { residential: 0.3, commercial: 0.2, industrial: 0.3 },
+      irrigationLimit: 0.1,
+    },
+  ],
+  DROUGHT_EVALUATION_INTERVAL: 24 * 60 * 60 * 1000, // ms, fréquence de réévaluation du palier
+  DROUGHT_MIN_STAGE_DURATION: 7 * 24 * 60 * 60 * 1000, // ms, durée minimale avant d'alléger les restrictions
+
+  // Distribution : quartiers desservis, chacun avec son réservoir, sa conduite et sa station de pompage
+  DISTRIBUTION_DISTRICTS: [
+    {
+      id: 'centre',
+      name: 'Centre-ville',
+      demand: 0.6, // m³/s
+      tankCapacity: 12000, // m³
+      pipeCapacity: 0.9, // m³/s
+      pumpCapacity: 0.9, // m³/s
+      leakageRate: 0.12,
+    },
+    {
+      id: 'north',
+      name: 'Quartiers nord',
+      demand: 0.5,
+      tankCapacity: 8000,
+      pipeCapacity: 0.7,
+      pumpCapacity: 0.8,
+      leakageRate: 0.18,
+    },
+    {
+      id: 'industrial',
+      name: 'Zone industrielle',
+      demand: 0.4,
+      tankCapacity: 6000,
+      pipeCapacity: 0.6,
+      pumpCapacity: 0.6,
+      leakageRate: 0.1,
+    },
+  ],
+  DISTRIBUTION_INITIAL_TANK_FILL: 0.5, // part du volume des réservoirs remplie au démarrage
+  // Distribution : part de la demande satisfaite sous laquelle la pression est faible, puis coupée
+  DISTRIBUTION_LOW_PRESSURE_RATIO: 0.95,
+  DISTRIBUTION_OUTAGE_RATIO: 0.5,
+
+  // Irrigation : cultures (coefficients culturaux et durée des stades d'après FAO-56, en jours)
+  IRRIGATION_CROPS: {
+    cereal: {
+      name: 'Céréales',
+      stageDurations: { initial: 20, development: 30, mid: 60, late: 30 },
+      cropCoefficients: { initial: 0.3, mid: 1.15, end: 0.4 },
+      rootDepth: 1.2, // m
+      depletionFraction: 0.55,
+    },
+    maize: {
+      name: 'Maïs',
+      stageDurations: { initial: 25, development: 40, mid: 45, late: 30 },
+      cropCoefficients: { initial: 0.3, mid: 1.2, end: 0.6 },
+      rootDepth: 1.2,
+      depletionFraction: 0.55,
+    },
+    vegetables: {
+      name: 'Maraîchage',
+      stageDurations: { initial: 20, development: 30, mid: 30, late: 15 },
+      cropCoefficients: { initial: 0.7, mid: 1.05, end: 0.95 },
+      rootDepth: 0.5,
+      depletionFraction: 0.35,
+    },
+    grassland: {
+      name: 'Prairie',
+      stageDurations: { initial: 10, development: 20, mid: 150, late: 30 },
+      cropCoefficients: { initial: 0.9, mid: 1, end: 0.85 },
+      rootDepth: 0.8,
+      depletionFraction: 0.5,
+    },
+  },
+  // Irrigation : parcelles d'une exploitation agricole (surface en m², jour de l'année du semis)
+  IRRIGATION_FIELDS: [
+    { id: 'plain', name: 'Plaine', crop: 'maize', area: 3000000, plantingDay: 120 },
+    { id: 'plateau', name: 'Plateau', crop: 'cereal', area: 2500000, plantingDay: 80 },
+    { id: 'hillside', name: 'Coteaux', crop: 'grassland', area: 1500000, plantingDay: 90 },
+    {
+      id: 'market-gardens',
+      name: 'Maraîchers',
+      crop: 'vegetables',
+      area: 500000,
+      plantingDay: 110,
+    },
+  ],
+  // Irrigation : sol et arrosage
+  IRRIGATION_SOIL_WATER_CAPACITY: 150, // mm de réserve utile par mètre de sol
+  IRRIGATION_INITIAL_SOIL_MOISTURE: 0.7, // part de la réserve utile au démarrage
+  IRRIGATION_APPLICATION_RATE: 1.5, // mm/h, dose maximale apportée à une parcelle
+  IRRIGATION_EFFICIENCY: 0.8, // part de l'eau livrée qui atteint la zone racinaire
+  // Irrigation : évapotranspiration de référence (formule de Hargreaves sur le rayonnement solaire)
+  IRRIGATION_CLEAR_SKY_RADIATION: { min: 4, max: 28 }, // MJ/m²/jour, solstices d'hiver et d'été
+  IRRIGATION_SUNNIEST_DAY: 172,
+  IRRIGATION_CLOUD_FACTORS: { ensoleillé: 1, nuageux: 0.55, pluvieux: 0.35, orageux: 0.3 },
+  IRRIGATION_ET0_WIND_FACTOR: 0.05, // par m/s au-delà de 2 m/s
+  IRRIGATION_ET0_HUMIDITY_FACTOR: 0.01, // par % d'humidité sous 60 %
+
+  // Répartition de l'eau en pénurie : rang de priorité (1 servi en premier, les usages de même
+  // rang se partagent l'eau au prorata) et droit d'eau (débit maximal attribué, en m³/s)
+  WATER_ALLOCATION_RIGHTS: {
+    drinkingWater: { priority: 1, right: 3 },
+    environment: { priority: 1, right: 1 },
+    industry: { priority: 2, right: 1 },
+    irrigation: { priority: 3, right: 4 },
+    hydropower: { priority: 4, right: 40 },
+  },
+
+  // Simulation
+  SIMULATION_SEED: 42,
+  SIMULATION_START_TIME: Date.UTC(2024, 0, 1),
+  SIMULATION_TICK_DURATION: 1000,
+  SIMULATION_MAX_TICK_DURATION: 60 * 60 * 1000,
+  SIMULATION_MIN_FRAME_INTERVAL: 50,
+  SIMULATION_INPUT_INTERVAL: 2000,
+  WEATHER_CHANGE_INTERVAL: 60 * 60 * 1000, // pas de temps de la chaîne de Markov météo
+
+  // Prévision à court terme : pas, horizon et fréquence de mise à jour (ms)
+  FORECAST_STEP: 60 * 60 * 1000, // multiple de FLOOD_ROUTING_STEP
+  FORECAST_HORIZON: 48 * 60 * 60 * 1000,
+  FORECAST_UPDATE_INTERVAL: 10 * 60 * 1000,
+
+  // Simulations d'ensemble (Monte-Carlo)
+  ENSEMBLE_RUNS: 20,
+  ENSEMBLE_DURATION_DAYS: 30,
 
   // Autres constantes
   THROTTLE_DELAY: 1000,
-  DAILY_RESET_VALUE: 1000,
 
   // Flags de configuration
   enablePerformanceLogs: false,
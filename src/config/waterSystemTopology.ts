@@ -0,0 +1,36 @@
+import type { WaterSystemTopology } from '@/types/waterSystem';
+
+/**
+ * Topologie par défaut : une vallée avec un glacier, une rivière et un barrage.
+ *
+ * Les identifiants des nœuds sont repris tels quels dans le bilan hydrique.
+ * Pour modéliser plusieurs vallées, ajouter des nœuds et des liens (voir useWaterNetwork) :
+ * le moteur construit un pipeline par retenue, par usine et par secteur desservi.
+ */
+export const defaultWaterSystemTopology: WaterSystemTopology = {
+  nodes: [
+    { id: 'glacier', kind: 'glacier', name: 'Glacier' },
+    { id: 'river', kind: 'river', name: 'Rivière' },
+    { id: 'dam', kind: 'reservoir', name: 'Barrage' },
+    { id: 'powerPlant', kind: 'powerPlant', name: 'Centrale hydroélectrique' },
+    { id: 'purification', kind: 'purificationPlant', name: 'Station de purification' },
+    { id: 'irrigation', kind: 'farm', name: 'Irrigation' },
+    { id: 'distribution', kind: 'district', name: 'Distribution' },
+    { id: 'wastewater', kind: 'wastewaterPlant', name: "Station d'épuration" },
+    { id: 'downstream', kind: 'outlet', name: 'Aval' },
+  ],
+  links: [
+    { from: 'glacier', to: 'dam' },
+    { from: 'river', to: 'dam' },
+    { from: 'dam', to: 'powerPlant' },
+    { from: 'dam', to: 'purification' },
+    { from: 'dam', to: 'irrigation' },
+    { from: 'dam', to: 'downstream' },
+    { from: 'powerPlant', to: 'downstream' },
+    { from: 'purification', to: 'distribution' },
+    { from: 'purification', to: 'wastewater' },
+    { from: 'distribution', to: 'wastewater' },
+    { from: 'wastewater', to: 'downstream' },
+    { from: 'wastewater', to: 'irrigation' },
+  ],
+};
@@ -1,3 +1,4 @@
+import EnsembleComponent from '@/components/water-system/EnsembleComponent.vue';
 import WaterSystem from '@/components/water-system/WaterSystem.vue';
 import { type RouteRecordRaw, createRouter, createWebHistory } from 'vue-router';
 
@@ -7,6 +8,11 @@ const routes: Array<RouteRecordRaw> = [
     name: 'WaterSystem',
     component: WaterSystem,
   },
+  {
+    path: '/ensemble',
+    name: 'Ensemble',
+    component: EnsembleComponent,
+  },
 ];
 
 const router = createRouter({
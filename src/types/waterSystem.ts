@@ -3,23 +3,86 @@ import type { Ref } from 'vue';
 
 export type WeatherCondition = 'ensoleillé' | 'nuageux' | 'pluvieux' | 'orageux';
 
+/**
+ * Observation météorologique : la condition et les grandeurs continues associées.
+ *
+ * @property {WeatherCondition} condition - La condition générale
+ * @property {number} precipitation - L'intensité de la pluie (mm/h)
+ * @property {number} temperature - La température de l'air (°C)
+ * @property {number} humidity - L'humidité relative (%)
+ * @property {number} windSpeed - La vitesse du vent (m/s)
+ */
+export interface WeatherState {
+  condition: WeatherCondition;
+  precipitation: number;
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
+}
+
 export interface WaterSystemState {
   waterLevel: number;
   purifiedWater: number;
   powerGenerated: number;
+  powerOutput: number;
+  electricityDemand: number;
+  unmetDemand: number;
+  unmetEnergy: number;
+  spilledEnergy: number;
   waterDistributed: number;
+  distributionDistricts: DistrictState[];
+  distributionShortfall: number;
+  nonRevenueWater: number;
   weatherCondition: WeatherCondition;
+  precipitation: number;
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
   alerts: Alert[];
   irrigationWater: number;
+  irrigationDemand: number;
+  irrigationFields: FieldState[];
+  referenceEvapotranspiration: number;
+  waterSupply: number;
+  waterAllocations: Record<WaterUse, WaterUseAllocation>;
+  allocationDeficit: number;
   treatedWastewater: number;
+  wastewaterInflow: number;
+  wastewaterCapacity: number;
+  sewerOverflow: number;
+  reusedWater: number;
+  effluentQuality: EffluentQuality;
+  effluentCompliant: boolean;
   waterQuality: number;
+  waterQualitySamples: Record<WaterQualityNode, WaterQualitySample>;
+  waterQualityViolations: WaterQualityViolation[];
+  purificationThroughput: number;
+  purificationCapacity: number;
+  purificationStages: PurificationStageState[];
   floodRisk: number;
+  floodCheckpoints: FloodCheckpoint[];
   userConsumption: number;
+  waterDemand: number;
+  waterDemandSegments: Record<DemandSegment, number>;
+  droughtStage: string | null;
+  droughtSeverity: number;
+  daysOfStorage: number | null;
+  droughtHistory: DroughtStagePeriod[];
   isAutoMode: boolean;
   glacierVolume: number;
+  glacierArea: number;
+  snowpack: number;
+  glacierTemperature: number;
   meltRate: number;
   waterFlow: number;
   damWaterVolume: number; // Ajout de cette ligne
+  damElevation: number;
+  damInflow: number;
+  damOutflow: number;
+  damGates: DamGateStates;
+  damZone: ReservoirZone;
+  downstreamRelease: number;
+  unaccountedWater: number;
 }
 
 export interface Alert {
@@ -31,14 +94,844 @@ export interface Alert {
 
 export type AlertPriority = 'high' | 'medium' | 'low';
 
+/**
+ * Grandeurs qu'une série chronologique enregistrée peut fournir à la simulation.
+ *
+ * - inflow : débit de la rivière entrant dans la retenue (m³/s)
+ * - precipitation : intensité de la pluie (mm/h)
+ * - temperature : température de l'air à la station (°C)
+ * - consumption : consommation totale des usagers (m³/s)
+ */
+export type TimeSeriesColumn = 'inflow' | 'precipitation' | 'temperature' | 'consumption';
+
+/**
+ * Échantillon d'une série chronologique : un instant (ms) et les grandeurs mesurées à cet instant.
+ * Une grandeur absente est une lacune, comblée par interpolation.
+ */
+export type TimeSeriesSample = { time: number } & Partial<Record<TimeSeriesColumn, number>>;
+
+/**
+ * Série chronologique, triée par instant croissant.
+ */
+export type TimeSeries = readonly TimeSeriesSample[];
+
 export interface DataSources {
   waterSource$: Subject<number>;
   weatherSource$: Subject<WeatherCondition>;
-  wastewaterSource$: Subject<number>;
-  userConsumptionSource$: Subject<number>;
+  weatherDataSource$: Subject<WeatherState>;
+  userConsumptionSource$: Subject<number | null>;
   glacierSource$: Subject<number>;
 }
 
+/**
+ * Point de la courbe hauteur-volume-surface d'une retenue.
+ * La cote est en mètres, le volume en m³ et la surface du plan d'eau en m².
+ */
+export interface StageStoragePoint {
+  elevation: number;
+  volume: number;
+  area: number;
+}
+
+/**
+ * Débits entrants d'une retenue, en m³/s moyens sur le dernier tick.
+ */
+export interface ReservoirInflows {
+  river: number;
+  glacier: number;
+  upstream: number;
+  precipitation: number;
+}
+
+/**
+ * Débits sortants d'une retenue, en m³/s moyens sur le dernier tick.
+ * Le débit réservé (environment) est le débit minimal laissé à la rivière en aval.
+ */
+export interface ReservoirOutflows {
+  purification: number;
+  turbines: number;
+  irrigation: number;
+  environment: number;
+  spillway: number;
+  outlet: number;
+  evaporation: number;
+  seepage: number;
+}
+
+/**
+ * Vannes d'une retenue : l'évacuateur de crues (en surface) et la vidange de fond.
+ */
+export type DamGate = 'spillway' | 'outlet';
+
+/**
+ * Point de la courbe de débit d'une vanne : débit à pleine ouverture (m³/s) pour une cote (m).
+ */
+export interface GateDischargePoint {
+  elevation: number;
+  discharge: number;
+}
+
+/**
+ * Consigne d'une vanne : pilotage automatique selon le remplissage, ou ouverture manuelle (%).
+ */
+export interface GateSetting {
+  mode: 'auto' | 'manual';
+  opening: number;
+}
+
+export type DamGateSettings = Record<DamGate, GateSetting>;
+
+/**
+ * État d'une vanne sur le dernier pas : mode, ouverture effective (%) et débit lâché (m³/s).
+ */
+export interface GateState {
+  mode: GateSetting['mode'];
+  opening: number;
+  discharge: number;
+}
+
+export type DamGateStates = Record<DamGate, GateState>;
+
+/**
+ * Tranches de la retenue définies par les courbes guides, de la plus haute à la plus basse :
+ * - 'flood-control' : au-dessus de la limite de crue, l'eau en excès est évacuée par les vannes
+ * - 'conservation' : lâchers complets vers la purification et les turbines
+ * - 'buffer' : entre le culot mort et la cible de conservation, le turbinage est réduit
+ * - 'dead-storage' : culot mort, aucun lâcher
+ */
+export type ReservoirZone = 'flood-control' | 'conservation' | 'buffer' | 'dead-storage';
+
+/**
+ * Cibles des courbes guides à un instant donné, en taux de remplissage (%).
+ */
+export interface RuleCurveTargets {
+  floodControl: number;
+  conservation: number;
+  deadStorage: number;
+}
+
+/**
+ * Point d'une courbe guide saisonnière : cibles pour un jour de l'année (0 à 366).
+ */
+export interface RuleCurvePoint extends RuleCurveTargets {
+  day: number;
+}
+
+/**
+ * Situation soumise à la règle d'exploitation au début d'un pas de calcul.
+ */
+export interface OperatingContext {
+  state: ReservoirState;
+  weather: WeatherCondition;
+  time: number;
+}
+
+/**
+ * Décision de la règle d'exploitation : lâchers demandés (m³/s) et ouverture des vannes
+ * pilotées en automatique (%).
+ */
+export interface OperatingDecision {
+  zone: ReservoirZone;
+  purification: number;
+  turbines: number;
+  gates: Record<DamGate, number>;
+}
+
+export type OperatingPolicy = (context: OperatingContext) => OperatingDecision;
+
+/**
+ * Point de la courbe de rendement d'un groupe : rendement (0 à 1) selon la charge,
+ * rapport entre le débit turbiné et le débit nominal du groupe.
+ */
+export interface EfficiencyPoint {
+  load: number;
+  efficiency: number;
+}
+
+/**
+ * Groupe turbine-alternateur d'une centrale.
+ *
+ * @property {number} ratedFlow - Débit nominal (m³/s)
+ * @property {number} minFlow - Débit minimal de fonctionnement stable (m³/s)
+ * @property {EfficiencyPoint[]} efficiencyCurve - Rendement selon la charge
+ */
+export interface TurbineUnit {
+  ratedFlow: number;
+  minFlow: number;
+  efficiencyCurve: EfficiencyPoint[];
+}
+
+/**
+ * État d'un groupe sur le dernier pas : en marche ou non, débit (m³/s), rendement, puissance (MW)
+ * et durée écoulée depuis le dernier démarrage ou arrêt (s).
+ */
+export interface TurbineUnitState {
+  running: boolean;
+  flow: number;
+  efficiency: number;
+  power: number;
+  timeInState: number;
+}
+
+/**
+ * État d'une centrale hydroélectrique sur le dernier pas.
+ *
+ * @property {TurbineUnitState[]} units - L'état de chaque groupe
+ * @property {number} netHead - Hauteur de chute nette (m)
+ * @property {number} flow - Débit reçu de la retenue (m³/s)
+ * @property {number} bypass - Débit non turbiné, restitué par la vanne de décharge (m³/s)
+ * @property {number} power - Puissance instantanée (MW)
+ * @property {number} energy - Énergie produite depuis le démarrage (MWh)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface PowerPlantState {
+  units: TurbineUnitState[];
+  netHead: number;
+  flow: number;
+  bypass: number;
+  power: number;
+  energy: number;
+  duration: number;
+}
+
+/**
+ * Étape de traitement d'une station de purification.
+ *
+ * L'étape 'coagulation' reçoit le coagulant dosé selon la turbidité de l'eau brute, l'étape
+ * 'disinfection' le chlore : leur efficacité dépend du dosage.
+ *
+ * @property {Object} removal - Fractions de la turbidité, des E. coli et des nitrates éliminées
+ * par l'étape en fonctionnement
+ * @property {number} failureRate - Fréquence moyenne des pannes (par jour)
+ * @property {number} repairTime - Durée d'indisponibilité après une panne (h)
+ */
+export interface PurificationStage {
+  id: string;
+  name: string;
+  removal: Record<'turbidity' | 'eColi' | 'nitrates', number>;
+  failureRate: number;
+  repairTime: number;
+}
+
+/**
+ * État d'une étape de traitement : en service ou en panne, et durée de réparation restante (s).
+ */
+export interface PurificationStageState {
+  id: string;
+  name: string;
+  online: boolean;
+  repairRemaining: number;
+}
+
+/**
+ * État d'une station de purification sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {PurificationStageState[]} stages - L'état de chaque étape de traitement
+ * @property {number} capacity - Le débit maximal traitable, filtres en lavage déduits
+ * @property {number} intake - Le débit reçu de la retenue
+ * @property {number} throughput - Le débit traité, plafonné par la capacité
+ * @property {number} produced - Le débit d'eau potable produit
+ * @property {number} losses - Le débit des boues et des eaux de lavage des filtres
+ * @property {number} overflow - Le débit reçu au-delà de la capacité, non traité
+ * @property {number} backwashing - Le nombre moyen de filtres en lavage sur le pas
+ * @property {number} coagulantDemand - La dose de coagulant requise par la turbidité (mg/L)
+ * @property {number} coagulantDose - La dose de coagulant injectée (mg/L)
+ * @property {number} chlorineDose - La dose de chlore injectée (mg/L)
+ * @property {number} volume - Le volume d'eau potable produit depuis le démarrage (m³)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface PurificationPlantState {
+  stages: PurificationStageState[];
+  capacity: number;
+  intake: number;
+  throughput: number;
+  produced: number;
+  losses: number;
+  overflow: number;
+  backwashing: number;
+  coagulantDemand: number;
+  coagulantDose: number;
+  chlorineDose: number;
+  volume: number;
+  duration: number;
+}
+
+/**
+ * Segments d'usagers de l'eau :
+ * - residential : ménages
+ * - commercial : commerces et services
+ * - industrial : industries raccordées
+ * - agricultural : besoins des cultures, soit l'eau demandée par les exploitations agricoles
+ */
+export type DemandSegment = 'residential' | 'commercial' | 'industrial' | 'agricultural';
+
+/**
+ * Segments desservis par le réseau d'eau potable, dont la demande suit un profil (DEMAND_SEGMENTS).
+ */
+export type DrinkingWaterSegment = Exclude<DemandSegment, 'agricultural'>;
+
+/**
+ * Profil de demande d'un segment d'usagers.
+ *
+ * @property {number} baseDemand - Demande à l'instant de départ de la simulation, pour un facteur
+ * de profil de 1 et sous la température de référence (m³/s)
+ * @property {number[]} hourlyProfile - Facteur de la demande pour chaque heure (UTC), de 0 h à 23 h
+ * @property {number[]} weeklyProfile - Facteur de la demande pour chaque jour de la semaine,
+ * dimanche en premier
+ * @property {number} growthRate - Croissance annuelle de la demande (population, activité)
+ * @property {number} temperatureSensitivity - Hausse relative de la demande par degré au-dessus
+ * de la température de référence
+ */
+export interface DemandSegmentProfile {
+  baseDemand: number;
+  hourlyProfile: readonly number[];
+  weeklyProfile: readonly number[];
+  growthRate: number;
+  temperatureSensitivity: number;
+}
+
+/**
+ * Demande en eau des usagers à la fin du dernier pas. Les débits sont en m³/s.
+ *
+ * @property {Record<DemandSegment, number>} segments - La demande de chaque segment
+ * @property {number} total - La demande totale
+ * @property {number} drinkingWater - La demande adressée au réseau de distribution, hors segment
+ * agricole
+ * @property {number} volume - Le volume demandé depuis le démarrage (m³)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface WaterDemandState {
+  segments: Record<DemandSegment, number>;
+  total: number;
+  drinkingWater: number;
+  volume: number;
+  duration: number;
+}
+
+/**
+ * Palier d'un plan de gestion de la sécheresse. Un palier est déclenché dès que l'un de ses
+ * seuils est franchi ; les paliers sont classés du moins sévère au plus sévère.
+ *
+ * @property {number} maxLevel - Taux de remplissage de la retenue (%) sous lequel le palier est déclenché
+ * @property {number} maxForecastInflow - Apport moyen prévu (m³/s) sous lequel le palier est déclenché
+ * @property {number} maxDaysOfStorage - Nombre de jours de réserve sous lequel le palier est déclenché
+ * @property {Record<DrinkingWaterSegment, number>} demandReduction - Part de la demande de chaque
+ * segment d'eau potable retranchée par les restrictions
+ * @property {number} irrigationLimit - Part de l'allocation d'irrigation maintenue : elle restreint
+ * la demande du segment agricole
+ */
+export interface DroughtStage {
+  id: string;
+  name: string;
+  maxLevel: number;
+  maxForecastInflow: number;
+  maxDaysOfStorage: number;
+  demandReduction: Record<DrinkingWaterSegment, number>;
+  irrigationLimit: number;
+}
+
+/**
+ * Période pendant laquelle un palier de sécheresse est resté actif.
+ *
+ * @property {string | null} stage - L'identifiant du palier, ou null hors sécheresse
+ * @property {number} start - L'instant simulé de déclenchement (ms)
+ * @property {number | null} end - L'instant simulé de levée (ms), ou null si la période est en cours
+ */
+export interface DroughtStagePeriod {
+  stage: string | null;
+  start: number;
+  end: number | null;
+}
+
+/**
+ * État du plan de gestion de la sécheresse à la dernière évaluation.
+ *
+ * @property {string | null} stage - L'identifiant du palier actif, ou null hors sécheresse
+ * @property {number} severity - Le rang du palier actif (1 pour le moins sévère), 0 hors sécheresse
+ * @property {number} level - Le taux de remplissage de la retenue (%)
+ * @property {number} forecastInflow - L'apport moyen prévu sur l'horizon de prévision (m³/s)
+ * @property {number | null} daysOfStorage - Le nombre de jours avant d'atteindre le culot mort au
+ * rythme des prélèvements actuels, ou null si la réserve ne diminue pas
+ * @property {Record<DrinkingWaterSegment, number>} demandFactors - Le facteur appliqué à la
+ * demande de chaque segment d'eau potable
+ * @property {number} irrigationFactor - Le facteur appliqué à l'allocation d'irrigation
+ * @property {DroughtStagePeriod[]} history - Les périodes successives, de la plus ancienne à la
+ * plus récente
+ */
+export interface DroughtState {
+  stage: string | null;
+  severity: number;
+  level: number;
+  forecastInflow: number;
+  daysOfStorage: number | null;
+  demandFactors: Record<DrinkingWaterSegment, number>;
+  irrigationFactor: number;
+  history: DroughtStagePeriod[];
+}
+
+/**
+ * Cultures irriguées.
+ */
+export type CropType = 'cereal' | 'maize' | 'vegetables' | 'grassland';
+
+/**
+ * Stades de développement d'une culture (FAO-56) : installation, croissance, mi-saison et arrière-saison.
+ */
+export type CropGrowthStage = 'initial' | 'development' | 'mid' | 'late';
+
+/**
+ * Besoins en eau d'une culture.
+ *
+ * @property {string} name - Libellé affiché
+ * @property {Record<CropGrowthStage, number>} stageDurations - Durée de chaque stade (jours)
+ * @property {Object} cropCoefficients - Coefficient cultural en début, milieu et fin de cycle
+ * @property {number} rootDepth - Profondeur d'enracinement (m)
+ * @property {number} depletionFraction - Part de la réserve utile que la culture consomme sans
+ * souffrir de stress hydrique ; l'irrigation se déclenche au-delà
+ */
+export interface CropProfile {
+  name: string;
+  stageDurations: Record<CropGrowthStage, number>;
+  cropCoefficients: { initial: number; mid: number; end: number };
+  rootDepth: number;
+  depletionFraction: number;
+}
+
+/**
+ * Parcelle irriguée.
+ *
+ * @property {CropType} crop - La culture
+ * @property {number} area - La surface (m²)
+ * @property {number} plantingDay - Le jour de l'année du semis, qui fixe le stade de la culture
+ */
+export interface IrrigatedField {
+  id: string;
+  name: string;
+  crop: CropType;
+  area: number;
+  plantingDay: number;
+}
+
+/**
+ * État d'une parcelle sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {CropGrowthStage | null} stage - Le stade de la culture, null hors saison
+ * @property {number} cropCoefficient - Le coefficient cultural (0 hors saison)
+ * @property {number} evapotranspiration - L'évapotranspiration réelle de la culture (mm/jour)
+ * @property {number} soilMoisture - L'eau disponible pour la culture dans la zone racinaire (mm)
+ * @property {number} soilCapacity - La réserve utile de la zone racinaire (mm)
+ * @property {boolean} irrigating - Vrai entre le déclenchement et le retour à la capacité au champ
+ * @property {number} demand - Le débit demandé pour le pas suivant
+ * @property {number} delivered - Le débit reçu sur le pas
+ * @property {number} stress - Le stress hydrique, de 0 (aucun) à 1 (transpiration arrêtée)
+ */
+export interface FieldState {
+  id: string;
+  name: string;
+  crop: CropType;
+  area: number;
+  stage: CropGrowthStage | null;
+  cropCoefficient: number;
+  evapotranspiration: number;
+  soilMoisture: number;
+  soilCapacity: number;
+  irrigating: boolean;
+  demand: number;
+  delivered: number;
+  stress: number;
+}
+
+/**
+ * État d'une exploitation agricole sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {FieldState[]} fields - L'état de chaque parcelle
+ * @property {number} referenceEvapotranspiration - L'évapotranspiration de référence (mm/jour)
+ * @property {number} demand - Le débit total demandé pour le pas suivant
+ * @property {number} raw - Le débit d'eau brute reçu de la retenue
+ * @property {number} recycled - Le débit d'eau réutilisée reçu de la station d'épuration
+ * @property {number} volume - Le volume reçu depuis le démarrage (m³)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface IrrigationState {
+  fields: FieldState[];
+  referenceEvapotranspiration: number;
+  demand: number;
+  raw: number;
+  recycled: number;
+  volume: number;
+  duration: number;
+}
+
+/**
+ * Quartier d'un réseau de distribution : sa demande, son réservoir de stockage, la conduite qui
+ * le remplit depuis la station de purification et la station de pompage qui le dessert.
+ *
+ * @property {number} demand - Demande des usagers pour la demande de référence des segments
+ * desservis par le réseau (m³/s)
+ * @property {number} tankCapacity - Volume du réservoir du quartier (m³)
+ * @property {number} pipeCapacity - Débit maximal de la conduite d'adduction (m³/s)
+ * @property {number} pumpCapacity - Débit maximal de la station de pompage (m³/s)
+ * @property {number} leakageRate - Part de l'eau pompée perdue par les fuites du réseau
+ */
+export interface DistributionDistrict {
+  id: string;
+  name: string;
+  demand: number;
+  tankCapacity: number;
+  pipeCapacity: number;
+  pumpCapacity: number;
+  leakageRate: number;
+}
+
+/**
+ * Pression de service d'un quartier :
+ * - normal : la demande est satisfaite
+ * - low : pression faible, une partie de la demande n'est pas satisfaite
+ * - outage : coupure, la majeure partie de la demande n'est pas satisfaite
+ */
+export type PressureStatus = 'normal' | 'low' | 'outage';
+
+/**
+ * État d'un quartier sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {number} demand - La demande des usagers
+ * @property {number} intake - Le débit reçu par le réservoir
+ * @property {number} supplied - Le débit livré aux usagers
+ * @property {number} shortfall - La demande non satisfaite
+ * @property {number} leakage - Le débit perdu par les fuites
+ * @property {number} tankVolume - Le volume du réservoir en fin de pas (m³)
+ * @property {number} tankCapacity - Le volume du réservoir (m³)
+ * @property {PressureStatus} pressure - La pression de service
+ */
+export interface DistrictState {
+  id: string;
+  name: string;
+  demand: number;
+  intake: number;
+  supplied: number;
+  shortfall: number;
+  leakage: number;
+  tankVolume: number;
+  tankCapacity: number;
+  pressure: PressureStatus;
+}
+
+/**
+ * État d'un réseau de distribution sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {DistrictState[]} districts - L'état de chaque quartier
+ * @property {number} offered - Le débit d'eau potable proposé par la station de purification
+ * @property {number} intake - Le débit accepté par les réservoirs des quartiers
+ * @property {number} rejected - Le débit refusé, faute de place ou de capacité des conduites
+ * @property {number} demand - La demande totale des usagers
+ * @property {number} supplied - Le débit total livré aux usagers
+ * @property {number} shortfall - La demande totale non satisfaite
+ * @property {number} leakage - Le débit total perdu par les fuites
+ * @property {number} nonRevenueWater - La part de l'eau pompée qui n'est pas livrée (fuites)
+ * @property {number} volume - Le volume livré aux usagers depuis le démarrage (m³)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface DistributionNetworkState {
+  districts: DistrictState[];
+  offered: number;
+  intake: number;
+  rejected: number;
+  demand: number;
+  supplied: number;
+  shortfall: number;
+  leakage: number;
+  nonRevenueWater: number;
+  volume: number;
+  duration: number;
+}
+
+/**
+ * Paramètres de pollution suivis dans les eaux usées et les rejets de la station d'épuration (mg/L) :
+ * - bod : demande biochimique en oxygène sur 5 jours (DBO5)
+ * - suspendedSolids : matières en suspension
+ * - ammonium : azote ammoniacal
+ * - phosphorus : phosphore total
+ */
+export type EffluentParameter = 'bod' | 'suspendedSolids' | 'ammonium' | 'phosphorus';
+
+/**
+ * Concentrations des paramètres de pollution d'une eau usée ou traitée (mg/L).
+ */
+export type EffluentQuality = Record<EffluentParameter, number>;
+
+/**
+ * État d'une station d'épuration sur le dernier pas. Les débits sont en m³/s moyens sur le pas.
+ *
+ * @property {number} sewage - Le débit des eaux usées reçues des secteurs et des stations de purification
+ * @property {number} stormwater - Le débit des eaux pluviales collectées par le réseau unitaire
+ * @property {number} inflow - Le débit total arrivant à la station
+ * @property {number} capacity - Le débit maximal admissible (capacité hydraulique)
+ * @property {number} treated - Le débit traité, plafonné par la capacité
+ * @property {number} overflow - Le débit déversé sans traitement par le déversoir d'orage
+ * @property {number} reused - Le débit d'eau traitée envoyé vers l'irrigation
+ * @property {number} discharged - Le débit d'eau traitée rejeté à l'exutoire
+ * @property {EffluentQuality} influentQuality - La qualité des eaux arrivant à la station
+ * @property {EffluentQuality} effluentQuality - La qualité de l'eau traitée
+ * @property {boolean} compliant - L'eau traitée respecte les limites de rejet
+ * @property {number} volume - Le volume d'eau usée traité depuis le démarrage (m³)
+ * @property {number} overflowVolume - Le volume déversé sans traitement depuis le démarrage (m³)
+ * @property {number} duration - Durée du pas (s)
+ */
+export interface WastewaterPlantState {
+  sewage: number;
+  stormwater: number;
+  inflow: number;
+  capacity: number;
+  treated: number;
+  overflow: number;
+  reused: number;
+  discharged: number;
+  influentQuality: EffluentQuality;
+  effluentQuality: EffluentQuality;
+  compliant: boolean;
+  volume: number;
+  overflowVolume: number;
+  duration: number;
+}
+
+/**
+ * Tronçon de la rivière en aval du barrage, terminé par un point de contrôle des crues.
+ *
+ * @property {number} muskingumK - Temps de transit de l'onde de crue dans le tronçon (s)
+ * @property {number} muskingumX - Facteur de pondération de Muskingum (0 à 0,5)
+ * @property {number} baseFlow - Débit des affluents par temps sec, ajouté en tête du tronçon (m³/s)
+ * @property {number} catchmentArea - Surface du bassin versant intermédiaire (km²)
+ * @property {number} runoffCoefficient - Part de la pluie qui ruisselle jusqu'à la rivière
+ * @property {Object[]} ratingCurve - Courbe de tarage du point de contrôle, par débit croissant
+ * @property {Object} floodStages - Hauteurs d'eau normale, de vigilance et de danger (m)
+ */
+export interface RiverReach {
+  id: string;
+  name: string;
+  muskingumK: number;
+  muskingumX: number;
+  baseFlow: number;
+  catchmentArea: number;
+  runoffCoefficient: number;
+  ratingCurve: readonly { flow: number; stage: number }[];
+  floodStages: { normal: number; warning: number; danger: number };
+}
+
+/**
+ * Débits d'un tronçon à la fin du dernier pas de routage (m³/s).
+ */
+export interface RiverReachState {
+  inflow: number;
+  outflow: number;
+}
+
+/**
+ * Situation d'un point de contrôle des crues.
+ *
+ * @property {number} flow - Le débit actuel (m³/s)
+ * @property {number} stage - La hauteur d'eau actuelle (m)
+ * @property {number} forecastStage - La hauteur maximale prévue sur l'horizon de prévision (m)
+ * @property {number} risk - Le risque de crue (0 à 100) : 50 à la cote de vigilance, 100 à la cote de danger
+ */
+export interface FloodCheckpoint {
+  id: string;
+  name: string;
+  flow: number;
+  stage: number;
+  forecastStage: number;
+  risk: number;
+}
+
+/**
+ * Prévision des crues : l'état de la rivière et le risque aux points de contrôle.
+ *
+ * @property {number} risk - Le risque le plus élevé des points de contrôle (0 à 100)
+ */
+export interface FloodForecast {
+  reaches: RiverReachState[];
+  checkpoints: FloodCheckpoint[];
+  risk: number;
+}
+
+/**
+ * Paramètres de qualité de l'eau suivis :
+ * - turbidity : turbidité (NTU)
+ * - ph : pH
+ * - chlorine : chlore libre résiduel (mg/L)
+ * - eColi : Escherichia coli (UFC/100 mL)
+ * - nitrates : nitrates (mg/L)
+ * - temperature : température de l'eau (°C)
+ */
+export type WaterQualityParameter =
+  | 'turbidity'
+  | 'ph'
+  | 'chlorine'
+  | 'eColi'
+  | 'nitrates'
+  | 'temperature';
+
+/**
+ * Valeurs des paramètres de qualité mesurées en un point.
+ */
+export type WaterQualitySample = Record<WaterQualityParameter, number>;
+
+/**
+ * Points de prélèvement :
+ * - raw : eau brute de la retenue
+ * - treated : sortie de la station de purification
+ * - tap : robinet des usagers, en bout de réseau
+ */
+export type WaterQualityNode = 'raw' | 'treated' | 'tap';
+
+/**
+ * Exigence de qualité de l'eau potable pour un paramètre.
+ *
+ * @property {number} target - La valeur guide, à laquelle l'indice du paramètre vaut 100
+ * @property {number} min - La limite inférieure de qualité, s'il y en a une
+ * @property {number} max - La limite supérieure de qualité, s'il y en a une
+ */
+export interface WaterQualityStandard {
+  target: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Dépassement d'une limite de qualité en un point de l'eau potable.
+ *
+ * @property {number} limit - La limite dépassée, inférieure ou supérieure
+ */
+export interface WaterQualityViolation {
+  node: WaterQualityNode;
+  parameter: WaterQualityParameter;
+  value: number;
+  limit: number;
+}
+
+/**
+ * Bilan de la qualité de l'eau.
+ *
+ * @property {Record<WaterQualityNode, WaterQualitySample>} samples - Les mesures à chaque point
+ * @property {Record<WaterQualityParameter, number>} indices - L'indice (0 à 100) de chaque paramètre
+ * dans l'eau potable, au point où il est le plus dégradé
+ * @property {WaterQualityViolation[]} violations - Les dépassements des limites de l'eau potable
+ * @property {number} score - L'indice global (0 à 100) : celui du paramètre le plus dégradé
+ */
+export interface WaterQualityReport {
+  samples: Record<WaterQualityNode, WaterQualitySample>;
+  indices: Record<WaterQualityParameter, number>;
+  violations: WaterQualityViolation[];
+  score: number;
+}
+
+/**
+ * Bilan de l'équilibre offre-demande électrique sur le dernier pas.
+ *
+ * @property {number} demand - Demande à servir (MW)
+ * @property {number} generation - Production des centrales (MW)
+ * @property {number} unmet - Demande non servie (MW)
+ * @property {number} unmetEnergy - Énergie non servie depuis le démarrage (MWh)
+ * @property {number} spilledEnergy - Énergie perdue par les vannes alors que les turbines avaient
+ *   de la capacité disponible, depuis le démarrage (MWh)
+ */
+export interface DispatchReport {
+  demand: number;
+  generation: number;
+  unmet: number;
+  unmetEnergy: number;
+  spilledEnergy: number;
+}
+
+/**
+ * Lot d'eau transmis d'un nœud à l'autre au cours d'un tick : volume (m³) et durée du tick (s).
+ */
+export interface WaterBatch {
+  duration: number;
+  volume: number;
+}
+
+/**
+ * Usage de l'eau d'une retenue, servi selon sa priorité lorsque la ressource manque.
+ */
+export type WaterUse = 'drinkingWater' | 'environment' | 'industry' | 'irrigation' | 'hydropower';
+
+/**
+ * Droit d'eau d'un usage.
+ *
+ * @property {number} priority - Le rang de priorité, 1 servi en premier ; les usages de même
+ * rang se partagent l'eau restante au prorata de leur demande
+ * @property {number} right - Le débit maximal attribué à l'usage (m³/s)
+ */
+export interface WaterRight {
+  priority: number;
+  right: number;
+}
+
+/**
+ * Part de la ressource attribuée à un usage, en m³/s moyens sur le dernier pas.
+ *
+ * @property {number} priority - Le rang de l'usage dans l'ordre de service (1 = servi en premier)
+ * @property {number} request - Le débit demandé
+ * @property {number} allocation - Le débit attribué
+ * @property {number} deficit - Le débit demandé qui n'a pas été attribué
+ */
+export interface WaterUseAllocation {
+  priority: number;
+  request: number;
+  allocation: number;
+  deficit: number;
+}
+
+/**
+ * Répartition de la ressource d'une ou plusieurs retenues entre les usages sur le dernier pas.
+ *
+ * @property {number} supply - Le débit disponible, au-dessus du culot mort (m³/s)
+ * @property {Record<WaterUse, WaterUseAllocation>} uses - La part de chaque usage
+ * @property {number} deficit - Le déficit total des usages (m³/s)
+ */
+export interface WaterAllocationState {
+  supply: number;
+  uses: Record<WaterUse, WaterUseAllocation>;
+  deficit: number;
+}
+
+/**
+ * État d'une retenue issu du bilan de masse.
+ * Les débits (m³/s) sont moyennés sur la durée du dernier pas de calcul (en secondes).
+ */
+export interface ReservoirState {
+  volume: number;
+  elevation: number;
+  level: number;
+  surfaceArea: number;
+  inflow: number;
+  inflows: ReservoirInflows;
+  outflows: ReservoirOutflows;
+  allocation: WaterAllocationState;
+  gates: DamGateStates;
+  zone: ReservoirZone;
+  duration: number;
+}
+
+/**
+ * État du glacier et de son manteau neigeux à la fin d'un pas de temps.
+ *
+ * @property {number} volume - Le volume de glace (m³ d'équivalent en eau)
+ * @property {number} area - La surface du glacier, déduite du volume (m²)
+ * @property {number} snowpack - Le manteau neigeux sur le glacier (mm d'équivalent en eau)
+ * @property {number} temperature - La température de l'air à l'altitude du glacier (°C)
+ * @property {number} meltRate - Le débit de fonte de la neige et de la glace (m³/s)
+ * @property {number} waterFlow - Le débit quittant le glacier : fonte et pluie (m³/s)
+ */
+export interface GlacierState {
+  volume: number;
+  area: number;
+  snowpack: number;
+  temperature: number;
+  meltRate: number;
+  waterFlow: number;
+}
+
 export interface GlacierMeltData {
   volume: number;
   meltRate: number;
@@ -77,6 +970,124 @@ export interface WaterSystemComposable {
   toggleAutoMode: () => void;
 }
 
+export interface SimulationTick {
+  index: number;
+  time: number;
+  dt: number;
+}
+
+export interface SimulationClock {
+  tick$: Observable<SimulationTick>;
+  now: () => number;
+  advance: (ticks?: number) => void;
+  advanceBy: (duration: number) => void;
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+  setTimeScale: (scale: number) => void;
+  getTimeScale: () => number;
+}
+
+export interface WaterSystemDependencies {
+  clock: SimulationClock;
+  getCurrentTime: () => number;
+  getRandomNumber: () => number;
+}
+
+/**
+ * Identifiant d'un nœud du bilan hydrique : un nœud de la topologie, ou 'atmosphere'
+ * pour la pluie, l'évaporation, l'eau consommée et les fuites des réseaux.
+ * Les nœuds frontières (sources, exutoires, atmosphère) sont extérieurs au système :
+ * leur stock n'est pas suivi et les transferts qui en partent ne sont jamais refusés.
+ */
+export type WaterNode = string;
+
+/**
+ * Types de nœuds d'une topologie de système d'eau.
+ */
+export type TopologyNodeKind =
+  | 'glacier'
+  | 'river'
+  | 'reservoir'
+  | 'powerPlant'
+  | 'purificationPlant'
+  | 'farm'
+  | 'district'
+  | 'wastewaterPlant'
+  | 'outlet';
+
+/**
+ * Nœud d'une topologie.
+ *
+ * @property {string} id - Identifiant unique, utilisé dans les liens et le bilan hydrique
+ * @property {TopologyNodeKind} kind - Le type de nœud
+ * @property {string} name - Libellé affiché (facultatif)
+ * @property {number} inflowShare - Sources : part du débit de la source de données attribuée au nœud
+ * @property {number} initialLevel - Retenues : taux de remplissage initial (en pourcentage)
+ * @property {StageStoragePoint[]} stageStorageCurve - Retenues : courbe hauteur-volume-surface propre
+ * @property {TurbineUnit[]} turbineUnits - Centrales : groupes turbine-alternateur propres
+ * @property {number} tailwaterElevation - Centrales : cote du canal de fuite (m)
+ * @property {number} treatmentCapacity - Stations de purification et d'épuration : débit maximal
+ * traité (m³/s)
+ * @property {DistributionDistrict[]} districts - Secteurs desservis : quartiers du réseau de distribution
+ * @property {IrrigatedField[]} fields - Exploitations agricoles : parcelles irriguées
+ */
+export interface TopologyNode {
+  id: string;
+  kind: TopologyNodeKind;
+  name?: string;
+  inflowShare?: number;
+  initialLevel?: number;
+  stageStorageCurve?: StageStoragePoint[];
+  turbineUnits?: TurbineUnit[];
+  tailwaterElevation?: number;
+  treatmentCapacity?: number;
+  districts?: DistributionDistrict[];
+  fields?: IrrigatedField[];
+}
+
+/**
+ * Lien orienté entre deux nœuds. La capacité (m³/s) plafonne le débit du lien ;
+ * pour un lâcher de retenue, elle fixe le débit demandé.
+ */
+export interface TopologyLink {
+  from: string;
+  to: string;
+  capacity?: number;
+}
+
+/**
+ * Description déclarative d'un système d'eau : nœuds et liens orientés.
+ */
+export interface WaterSystemTopology {
+  nodes: TopologyNode[];
+  links: TopologyLink[];
+}
+
+/**
+ * Transfert d'eau entre deux nœuds, en m³, au cours d'un tick.
+ */
+export interface WaterTransfer {
+  from: WaterNode;
+  to: WaterNode;
+  volume: number;
+}
+
+/**
+ * Bilan hydrique d'un tick : entrées − sorties − variation de stock = pertes non comptabilisées.
+ */
+export interface WaterBalanceReport {
+  tick: number;
+  time: number;
+  inflow: number;
+  outflow: number;
+  storage: Partial<Record<WaterNode, number>>;
+  storageChange: number;
+  unaccountedLoss: number;
+  transfers: WaterTransfer[];
+  rejectedTransfers: WaterTransfer[];
+}
+
 export interface WaterSourceLogEntry {
   timestamp: number;
   source: string;
@@ -86,3 +1097,166 @@ export interface WaterSourceLogEntry {
   quality?: number;
   temperature?: number;
 }
+
+/**
+ * Ouvrage pouvant être mis hors service par un scénario.
+ */
+export type ScenarioFacility = 'purification' | 'turbines';
+
+/**
+ * Événement programmé d'un scénario. `day` est le jour (fractionnaire) du scénario où
+ * l'événement commence.
+ *
+ * - drought : sécheresse, le débit de la rivière est multiplié par `inflowFactor` et il ne pleut plus
+ * - storm : orage apportant `precipitation` mm de pluie en `durationHours` heures
+ * - outage : ouvrage hors service pendant `durationHours` heures
+ * - consumption : consommation des usagers multipliée par `factor`, jusqu'à la fin du scénario
+ *   si `durationDays` est omis
+ */
+export type ScenarioEvent =
+  | { type: 'drought'; day: number; durationDays: number; inflowFactor?: number }
+  | { type: 'storm'; day: number; precipitation: number; durationHours?: number }
+  | { type: 'outage'; day: number; facility: ScenarioFacility; durationHours: number }
+  | { type: 'consumption'; day: number; factor: number; durationDays?: number };
+
+/**
+ * Scénario rejouable : état initial, durée et chronologie d'événements.
+ *
+ * @property {string} name - Le nom du scénario
+ * @property {string} description - Une description libre
+ * @property {number} seed - La graine du générateur aléatoire (SIMULATION_SEED par défaut)
+ * @property {number} durationDays - La durée simulée (jours)
+ * @property {Object} initialState - Les valeurs INITIAL_* de la configuration à remplacer
+ * @property {ScenarioEvent[]} events - Les événements programmés
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed?: number;
+  durationDays: number;
+  initialState?: Partial<Record<`INITIAL_${string}`, number>>;
+  events: readonly ScenarioEvent[];
+}
+
+/**
+ * Effet cumulé des événements d'un scénario à un instant donné.
+ *
+ * @property {number} inflowFactor - Facteur appliqué au débit de la rivière
+ * @property {number} consumptionFactor - Facteur appliqué à la consommation des usagers
+ * @property {Object | null} weather - La météo imposée (condition et pluie), ou null
+ * @property {ScenarioFacility[]} offline - Les ouvrages hors service
+ */
+export interface ScenarioModifiers {
+  inflowFactor: number;
+  consumptionFactor: number;
+  weather: Pick<WeatherState, 'condition' | 'precipitation'> | null;
+  offline: readonly ScenarioFacility[];
+}
+
+/**
+ * État du système à la fin d'une journée de scénario.
+ */
+export type ScenarioDailyResult = { day: number } & Pick<
+  WaterSystemState,
+  | 'waterLevel'
+  | 'damZone'
+  | 'downstreamRelease'
+  | 'floodRisk'
+  | 'powerOutput'
+  | 'unmetDemand'
+  | 'waterQuality'
+  | 'purifiedWater'
+  | 'waterDistributed'
+  | 'unmetEnergy'
+  | 'weatherCondition'
+  | 'droughtStage'
+>;
+
+/**
+ * Résultats d'un scénario : journal quotidien, état final et indicateurs extrêmes.
+ */
+export interface ScenarioReport {
+  name: string;
+  durationDays: number;
+  daily: ScenarioDailyResult[];
+  final: WaterSystemState;
+  summary: {
+    minWaterLevel: number;
+    maxWaterLevel: number;
+    maxFloodRisk: number;
+    minWaterQuality: number;
+    maxDownstreamRelease: number;
+    unmetEnergy: number;
+    alerts: number;
+    droughtDays: Record<string, number>;
+  };
+}
+
+/**
+ * Grandeurs suivies par une simulation d'ensemble.
+ */
+export type EnsembleVariable = 'waterLevel' | 'floodRisk' | 'powerOutput' | 'unmetDemand';
+
+/**
+ * Percentiles d'une grandeur sur les membres d'un ensemble, à un jour donné.
+ */
+export interface EnsembleBand {
+  day: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Résultats d'une simulation d'ensemble (Monte-Carlo).
+ *
+ * @property {number[]} seeds - Les graines des membres, dans l'ordre d'exécution
+ * @property {Record<EnsembleVariable, EnsembleBand[]>} bands - Les percentiles quotidiens de chaque grandeur
+ * @property {Object} exceedance - La part des membres dont le niveau a franchi
+ * CRITICAL_WATER_LEVEL (critical) ou VERY_HIGH_WATER_LEVEL (veryHigh) au moins une fois
+ */
+export interface EnsembleReport {
+  name: string;
+  durationDays: number;
+  seeds: number[];
+  bands: Record<EnsembleVariable, EnsembleBand[]>;
+  exceedance: {
+    critical: number;
+    veryHigh: number;
+  };
+}
+
+/**
+ * Échéance d'une prévision à court terme.
+ *
+ * @property {number} time - L'instant simulé de l'échéance (ms)
+ * @property {number} waterLevel - Le taux de remplissage prévu de la retenue (%)
+ * @property {number} inflow - Les apports prévus à la retenue (m³/s)
+ * @property {number} floodRisk - Le risque de crue prévu en aval (0 à 100)
+ * @property {WeatherCondition} weatherCondition - La condition la plus probable
+ * @property {number} precipitation - L'intensité de pluie attendue (mm/h)
+ */
+export interface ForecastPoint {
+  time: number;
+  waterLevel: number;
+  inflow: number;
+  floodRisk: number;
+  weatherCondition: WeatherCondition;
+  precipitation: number;
+}
+
+/**
+ * Prévision à court terme du système.
+ *
+ * @property {number} issuedAt - L'instant simulé d'émission de la prévision (ms)
+ * @property {ForecastPoint[]} points - Les échéances, de FORECAST_STEP en FORECAST_STEP
+ * @property {number | null} veryHighAt - L'instant où la retenue atteint VERY_HIGH_WATER_LEVEL, ou null
+ * s'il n'est pas atteint sur l'horizon
+ * @property {number | null} criticalAt - L'instant où la retenue descend à CRITICAL_WATER_LEVEL, ou null
+ */
+export interface SystemForecast {
+  issuedAt: number;
+  points: ForecastPoint[];
+  veryHighAt: number | null;
+  criticalAt: number | null;
+}
@@ -0,0 +1,87 @@
+import type { WaterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  EnsembleBand,
+  EnsembleReport,
+  EnsembleVariable,
+  ScenarioReport,
+} from '@/types/waterSystem';
+
+const ENSEMBLE_VARIABLES: readonly EnsembleVariable[] = [
+  'waterLevel',
+  'floodRisk',
+  'powerOutput',
+  'unmetDemand',
+];
+
+/**
+ * Percentile d'un échantillon, par interpolation linéaire entre les rangs.
+ *
+ * @param {readonly number[]} sorted - L'échantillon, trié par ordre croissant
+ * @param {number} p - Le percentile recherché, entre 0 et 100
+ * @returns {number} La valeur du percentile, ou NaN pour un échantillon vide
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return Number.NaN;
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (rank - lower) * (sorted[upper] - sorted[lower]);
+}
+
+/**
+ * Graines des membres d'un ensemble : des entiers consécutifs à partir de la graine de base.
+ */
+export function ensembleSeeds(baseSeed: number, runs: number): number[] {
+  return Array.from({ length: runs }, (_, i) => baseSeed + i);
+}
+
+/**
+ * Agrège les rapports des membres d'un ensemble en percentiles quotidiens et probabilités de
+ * franchissement des seuils de niveau.
+ *
+ * @param {readonly ScenarioReport[]} reports - Les rapports des membres, tous de même durée
+ * @param {readonly number[]} seeds - Les graines des membres
+ * @param {WaterSystemConfig} config - La configuration (seuils CRITICAL_WATER_LEVEL et VERY_HIGH_WATER_LEVEL)
+ * @returns {EnsembleReport} Les bandes P10/P50/P90 de chaque grandeur et les probabilités
+ *
+ * @description
+ * Un membre franchit un seuil si son niveau l'a atteint à un instant quelconque de la période
+ * (extrêmes relevés à chaque tick par runScenario), et pas seulement en fin de journée.
+ */
+export function aggregateEnsemble(
+  reports: readonly ScenarioReport[],
+  seeds: readonly number[],
+  config: Readonly<WaterSystemConfig>,
+): EnsembleReport {
+  if (reports.length === 0) {
+    throw new Error('Un ensemble doit comporter au moins un membre');
+  }
+  const days = reports[0].daily.length;
+  const band = (variable: EnsembleVariable, day: number): EnsembleBand => {
+    const values = reports.map((report) => report.daily[day][variable]).sort((a, b) => a - b);
+    return {
+      day: day + 1,
+      p10: percentile(values, 10),
+      p50: percentile(values, 50),
+      p90: percentile(values, 90),
+    };
+  };
+  const share = (crossed: (report: ScenarioReport) => boolean) =>
+    reports.filter(crossed).length / reports.length;
+
+  return {
+    name: reports[0].name,
+    durationDays: reports[0].durationDays,
+    seeds: [...seeds],
+    bands: Object.fromEntries(
+      ENSEMBLE_VARIABLES.map((variable) => [
+        variable,
+        Array.from({ length: days }, (_, day) => band(variable, day)),
+      ]),
+    ) as Record<EnsembleVariable, EnsembleBand[]>,
+    exceedance: {
+      critical: share(({ summary }) => summary.minWaterLevel <= config.CRITICAL_WATER_LEVEL),
+      veryHigh: share(({ summary }) => summary.maxWaterLevel >= config.VERY_HIGH_WATER_LEVEL),
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Interpole linéairement une grandeur d'une courbe tabulée à partir d'une autre.
+ *
+ * @param {readonly Record<K, number>[]} curve - La courbe, triée par valeur croissante de `from`
+ * @param {K} from - La grandeur connue
+ * @param {K} to - La grandeur recherchée
+ * @param {number} value - La valeur connue
+ * @returns {number} La valeur interpolée, bornée aux extrémités de la courbe
+ *
+ * @description
+ * Sert aux courbes hauteur-volume-surface des retenues, aux courbes de débit des vannes
+ * et aux courbes guides saisonnières.
+ */
+export function interpolateCurve<K extends string>(
+  curve: readonly Record<K, number>[],
+  from: K,
+  to: K,
+  value: number,
+): number {
+  if (value <= curve[0][from]) return curve[0][to];
+  for (let i = 1; i < curve.length; i++) {
+    const lower = curve[i - 1];
+    const upper = curve[i];
+    if (value <= upper[from]) {
+      const ratio = (value - lower[from]) / (upper[from] - lower[from]);
+      return lower[to] + ratio * (upper[to] - lower[to]);
+    }
+  }
+  return curve[curve.length - 1][to];
+}
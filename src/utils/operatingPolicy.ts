@@ -0,0 +1,148 @@
+import { type WaterSystemConfig, waterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  OperatingPolicy,
+  ReservoirZone,
+  RuleCurvePoint,
+  RuleCurveTargets,
+  ScenarioFacility,
+} from '@/types/waterSystem';
+import { interpolateCurve } from '@/utils/interpolation';
+import { dayOfYear } from '@/utils/simulationClock';
+
+/**
+ * Cibles des courbes guides saisonnières à un instant donné.
+ *
+ * @param {readonly RuleCurvePoint[]} curves - Les courbes guides, triées par jour de l'année
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @returns {RuleCurveTargets} Les cibles interpolées entre les points encadrants
+ */
+export function ruleCurveTargets(
+  curves: readonly RuleCurvePoint[],
+  time: number,
+): RuleCurveTargets {
+  const day = dayOfYear(time);
+  return {
+    floodControl: interpolateCurve(curves, 'day', 'floodControl', day),
+    conservation: interpolateCurve(curves, 'day', 'conservation', day),
+    deadStorage: interpolateCurve(curves, 'day', 'deadStorage', day),
+  };
+}
+
+/**
+ * Tranche de la retenue dans laquelle se trouve un taux de remplissage.
+ *
+ * @param {number} level - Le taux de remplissage (%)
+ * @param {RuleCurveTargets} targets - Les cibles des courbes guides
+ * @returns {ReservoirZone} La tranche
+ */
+export function reservoirZone(level: number, targets: RuleCurveTargets): ReservoirZone {
+  if (level > targets.floodControl) return 'flood-control';
+  if (level >= targets.conservation) return 'conservation';
+  if (level > targets.deadStorage) return 'buffer';
+  return 'dead-storage';
+}
+
+/**
+ * Crée la règle d'exploitation par courbes guides saisonnières.
+ *
+ * @param {WaterSystemConfig} config - La configuration (courbes guides, lâchers maximaux)
+ * @returns {OperatingPolicy} La règle, appelée par la retenue à chaque pas de calcul
+ *
+ * @description
+ * - Culot mort : turbinage arrêté, vannes fermées ; l'eau potable reste demandée, mais la
+ *   retenue ne répartit entre les usages que le volume au-dessus du culot mort.
+ * - Tranche tampon : la purification (eau potable) est servie en priorité ; le turbinage
+ *   décroît linéairement jusqu'à s'annuler au culot mort.
+ * - Tranche de conservation : lâchers maximaux vers la purification et les turbines.
+ * - Tranche de crue : la vidange de fond s'ouvre progressivement sur la première moitié de
+ *   la tranche, puis l'évacuateur de crues sur la seconde.
+ *
+ * Par temps d'orage, la limite de crue est abaissée de DAM_STORM_PRE_RELEASE pour faire de la
+ * place avant l'arrivée de la crue.
+ *
+ * Pourquoi c'est ainsi fait :
+ * - Les courbes varient avec la saison : la retenue se vide avant la fonte printanière et
+ *   se remplit à la fin de l'été pour passer l'hiver.
+ * - Une règle est une simple fonction : une autre stratégie peut être branchée sur une
+ *   retenue sans toucher au bilan de masse.
+ */
+export function createRuleCurvePolicy(
+  config: Readonly<WaterSystemConfig> = waterSystemConfig,
+): OperatingPolicy {
+  return ({ state, weather, time }) => {
+    const targets = ruleCurveTargets(config.DAM_RULE_CURVES, time);
+    if (weather === 'orageux') {
+      targets.floodControl = Math.max(
+        targets.conservation,
+        targets.floodControl - config.DAM_STORM_PRE_RELEASE,
+      );
+    }
+    const zone = reservoirZone(state.level, targets);
+
+    switch (zone) {
+      case 'dead-storage':
+        return {
+          zone,
+          purification: config.DAM_PURIFICATION_RELEASE,
+          turbines: 0,
+          gates: { spillway: 0, outlet: 0 },
+        };
+      case 'buffer': {
+        const ratio =
+          (state.level - targets.deadStorage) / (targets.conservation - targets.deadStorage);
+        return {
+          zone,
+          purification: config.DAM_PURIFICATION_RELEASE,
+          turbines: config.DAM_TURBINE_RELEASE * ratio,
+          gates: { spillway: 0, outlet: 0 },
+        };
+      }
+      case 'conservation':
+        return {
+          zone,
+          purification: config.DAM_PURIFICATION_RELEASE,
+          turbines: config.DAM_TURBINE_RELEASE,
+          gates: { spillway: 0, outlet: 0 },
+        };
+      case 'flood-control': {
+        const excess = (state.level - targets.floodControl) / (100 - targets.floodControl);
+        return {
+          zone,
+          purification: config.DAM_PURIFICATION_RELEASE,
+          turbines: config.DAM_TURBINE_RELEASE,
+          gates: {
+            outlet: Math.min(1, 2 * excess) * 100,
+            spillway: Math.max(0, Math.min(1, 2 * excess - 1)) * 100,
+          },
+        };
+      }
+    }
+  };
+}
+
+/**
+ * Enveloppe une règle d'exploitation pour tenir compte des ouvrages hors service.
+ *
+ * @param {OperatingPolicy} policy - La règle d'exploitation de la retenue
+ * @param {() => readonly ScenarioFacility[]} offline - Les ouvrages hors service, lus à chaque pas
+ * @returns {OperatingPolicy} La règle dont les lâchers vers les ouvrages arrêtés sont annulés
+ *
+ * @description
+ * L'eau qui ne peut pas être traitée ou turbinée reste dans la retenue : la règle décide
+ * ensuite de l'ouverture des vannes selon la cote atteinte.
+ */
+export function withFacilityOutages(
+  policy: OperatingPolicy,
+  offline: () => readonly ScenarioFacility[],
+): OperatingPolicy {
+  return (context) => {
+    const decision = policy(context);
+    const facilities = offline();
+    if (facilities.length === 0) return decision;
+    return {
+      ...decision,
+      purification: facilities.includes('purification') ? 0 : decision.purification,
+      turbines: facilities.includes('turbines') ? 0 : decision.turbines,
+    };
+  };
+}
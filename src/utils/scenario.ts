@@ -0,0 +1,182 @@
+import type { WaterSystemConfig } from '@/config/waterSystemConfig';
+import type {
+  Scenario,
+  ScenarioEvent,
+  ScenarioFacility,
+  ScenarioModifiers,
+} from '@/types/waterSystem';
+
+const EVENT_TYPES: readonly ScenarioEvent['type'][] = ['drought', 'storm', 'outage', 'consumption'];
+const FACILITIES: readonly ScenarioFacility[] = ['purification', 'turbines'];
+
+/** Facteur de débit par défaut d'une sécheresse. */
+const DEFAULT_DROUGHT_INFLOW_FACTOR = 0.3;
+/** Durée par défaut d'un orage (heures). */
+const DEFAULT_STORM_DURATION_HOURS = 6;
+
+export const NO_SCENARIO_MODIFIERS: ScenarioModifiers = {
+  inflowFactor: 1,
+  consumptionFactor: 1,
+  weather: null,
+  offline: [],
+};
+
+/**
+ * Vérifie qu'un champ est un nombre fini positif ou nul.
+ */
+function assertNonNegative(value: unknown, field: string): asserts value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Scénario invalide : ${field} doit être un nombre positif`);
+  }
+}
+
+/**
+ * Vérifie les champs d'un événement de scénario selon son type.
+ */
+function validateEvent(event: ScenarioEvent, index: number): void {
+  const field = (name: string) => `events[${index}].${name}`;
+  if (!EVENT_TYPES.includes(event.type)) {
+    throw new Error(`Scénario invalide : type d'événement inconnu « ${event.type} »`);
+  }
+  assertNonNegative(event.day, field('day'));
+  switch (event.type) {
+    case 'drought':
+      assertNonNegative(event.durationDays, field('durationDays'));
+      if (event.inflowFactor !== undefined) {
+        assertNonNegative(event.inflowFactor, field('inflowFactor'));
+      }
+      break;
+    case 'storm':
+      assertNonNegative(event.precipitation, field('precipitation'));
+      if (event.durationHours !== undefined) {
+        assertNonNegative(event.durationHours, field('durationHours'));
+      }
+      break;
+    case 'outage':
+      if (!FACILITIES.includes(event.facility)) {
+        throw new Error(`Scénario invalide : ouvrage inconnu « ${event.facility} »`);
+      }
+      assertNonNegative(event.durationHours, field('durationHours'));
+      break;
+    case 'consumption':
+      assertNonNegative(event.factor, field('factor'));
+      if (event.durationDays !== undefined) {
+        assertNonNegative(event.durationDays, field('durationDays'));
+      }
+      break;
+  }
+}
+
+/**
+ * Vérifie la cohérence d'un scénario.
+ *
+ * @param {Scenario} scenario - Le scénario à vérifier
+ * @param {WaterSystemConfig} config - La configuration dont les valeurs INITIAL_* peuvent être remplacées
+ * @returns {Scenario} Le scénario, inchangé
+ * @throws {Error} Si la durée, une valeur initiale ou un événement est invalide
+ */
+export function validateScenario(
+  scenario: Scenario,
+  config: Readonly<WaterSystemConfig>,
+): Scenario {
+  if (typeof scenario.name !== 'string' || scenario.name === '') {
+    throw new Error('Scénario invalide : name est obligatoire');
+  }
+  assertNonNegative(scenario.durationDays, 'durationDays');
+  for (const [key, value] of Object.entries(scenario.initialState ?? {})) {
+    if (!key.startsWith('INITIAL_') || typeof config[key as keyof WaterSystemConfig] !== 'number') {
+      throw new Error(`Scénario invalide : valeur initiale inconnue « ${key} »`);
+    }
+    assertNonNegative(value, `initialState.${key}`);
+  }
+  if (!Array.isArray(scenario.events)) {
+    throw new Error('Scénario invalide : events doit être un tableau');
+  }
+  scenario.events.forEach(validateEvent);
+  return scenario;
+}
+
+/**
+ * Lit un scénario au format JSON et le vérifie (voir validateScenario).
+ */
+export function parseScenario(text: string, config: Readonly<WaterSystemConfig>): Scenario {
+  return validateScenario(JSON.parse(text) as Scenario, config);
+}
+
+/**
+ * Configuration d'un scénario : la configuration de base dont les valeurs INITIAL_* sont
+ * remplacées par l'état initial du scénario.
+ */
+export function scenarioConfig(
+  scenario: Scenario,
+  config: Readonly<WaterSystemConfig>,
+): Readonly<WaterSystemConfig> {
+  return { ...config, ...scenario.initialState };
+}
+
+/**
+ * Période d'effet d'un événement, en jours de scénario : [début, fin[.
+ */
+function eventWindow(event: ScenarioEvent): [number, number] {
+  switch (event.type) {
+    case 'drought':
+      return [event.day, event.day + event.durationDays];
+    case 'storm':
+      return [event.day, event.day + (event.durationHours ?? DEFAULT_STORM_DURATION_HOURS) / 24];
+    case 'outage':
+      return [event.day, event.day + event.durationHours / 24];
+    case 'consumption':
+      return [
+        event.day,
+        event.durationDays === undefined
+          ? Number.POSITIVE_INFINITY
+          : event.day + event.durationDays,
+      ];
+  }
+}
+
+/**
+ * Effet cumulé des événements actifs à un jour donné du scénario.
+ *
+ * @param {readonly ScenarioEvent[]} events - Les événements du scénario
+ * @param {number} day - Le jour (fractionnaire) du scénario
+ * @returns {ScenarioModifiers} Les facteurs, la météo imposée et les ouvrages hors service
+ *
+ * @description
+ * Les facteurs de plusieurs événements simultanés se multiplient. Un orage l'emporte sur une
+ * sécheresse : sa pluie est imposée même si la rivière reste basse.
+ */
+export function scenarioModifiers(
+  events: readonly ScenarioEvent[],
+  day: number,
+): ScenarioModifiers {
+  const active = events.filter((event) => {
+    const [start, end] = eventWindow(event);
+    return day >= start && day < end;
+  });
+  if (active.length === 0) return NO_SCENARIO_MODIFIERS;
+
+  const modifiers = { ...NO_SCENARIO_MODIFIERS, offline: [] as ScenarioFacility[] };
+  for (const event of active) {
+    switch (event.type) {
+      case 'drought':
+        modifiers.inflowFactor *= event.inflowFactor ?? DEFAULT_DROUGHT_INFLOW_FACTOR;
+        modifiers.weather ??= { condition: 'ensoleillé', precipitation: 0 };
+        break;
+      case 'storm':
+        modifiers.weather = {
+          condition: 'orageux',
+          precipitation:
+            event.precipitation / (event.durationHours ?? DEFAULT_STORM_DURATION_HOURS),
+        };
+        break;
+      case 'outage':
+        if (!modifiers.offline.includes(event.facility)) modifiers.offline.push(event.facility);
+        break;
+      case 'consumption':
+        modifiers.consumptionFactor *= event.factor;
+        break;
+    }
+  }
+  return modifiers;
+}
@@ -0,0 +1,33 @@
+/**
+ * Crée un générateur de nombres pseudo-aléatoires déterministe (algorithme mulberry32).
+ *
+ * @param {number} seed - La graine du générateur
+ * @returns {() => number} Une fonction retournant un nombre dans l'intervalle [0, 1)
+ *
+ * @description
+ * Deux générateurs créés avec la même graine produisent exactement la même séquence,
+ * ce qui permet de rejouer une simulation à l'identique.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Retourne un nombre aléatoire compris entre min et max à partir d'un générateur donné.
+ *
+ * @param {() => number} random - Le générateur de nombres aléatoires
+ * @param {number} min - La borne inférieure
+ * @param {number} max - La borne supérieure
+ * @returns {number} Un nombre dans l'intervalle [min, max)
+ */
+export function randomBetween(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
@@ -0,0 +1,140 @@
+import type { SimulationClock, SimulationTick } from '@/types/waterSystem';
+import { type MonoTypeOperatorFunction, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Options de l'horloge de simulation.
+ *
+ * @property {number} maxTickDuration - Durée simulée maximale d'un tick (en millisecondes)
+ * @property {number} minFrameInterval - Intervalle réel minimal entre deux avancées (en millisecondes)
+ */
+export interface SimulationClockOptions {
+  maxTickDuration?: number;
+  minFrameInterval?: number;
+}
+
+/**
+ * Crée l'horloge de simulation partagée par tous les sous-systèmes.
+ *
+ * @param {number} startTime - L'instant simulé de départ (en millisecondes)
+ * @param {number} tickDuration - La durée simulée d'un tick (en millisecondes)
+ * @param {SimulationClockOptions} options - Les options d'accélération du temps
+ * @returns {SimulationClock} L'horloge de simulation
+ *
+ * @description
+ * L'horloge émet un tick à chaque avancée du temps simulé. Elle peut être avancée
+ * manuellement (`advance`, `advanceBy`) ou pilotée en temps réel (`start` / `stop`).
+ * Le temps simulé ne dépend jamais de l'horloge système, ce qui rend une simulation
+ * reproductible à l'identique.
+ *
+ * En temps réel, le facteur d'échelle (`setTimeScale`) fixe le nombre de millisecondes simulées
+ * par milliseconde réelle : 0 met la simulation en pause, 1000 fait passer 1000 secondes
+ * simulées par seconde. Au-delà de la fréquence d'images minimale, les ticks s'allongent
+ * (dans la limite de `maxTickDuration`) au lieu de se multiplier.
+ */
+export function createSimulationClock(
+  startTime: number,
+  tickDuration: number,
+  { maxTickDuration = tickDuration, minFrameInterval = tickDuration }: SimulationClockOptions = {},
+): SimulationClock {
+  const tickSubject = new Subject<SimulationTick>();
+  let currentTime = startTime;
+  let tickIndex = 0;
+  let timeScale = 1;
+  let running = false;
+  let realTimeInterval: ReturnType<typeof setInterval> | null = null;
+
+  function emitTick(dt: number) {
+    tickIndex += 1;
+    currentTime += dt;
+    tickSubject.next({ index: tickIndex, time: currentTime, dt });
+  }
+
+  function advance(ticks = 1) {
+    for (let i = 0; i < ticks; i++) {
+      emitTick(tickDuration);
+    }
+  }
+
+  function advanceBy(duration: number) {
+    let remaining = duration;
+    while (remaining > 0) {
+      const dt = Math.min(remaining, maxTickDuration);
+      emitTick(dt);
+      remaining -= dt;
+    }
+  }
+
+  function scheduleRealTime() {
+    if (realTimeInterval) {
+      clearInterval(realTimeInterval);
+      realTimeInterval = null;
+    }
+    if (!running || timeScale <= 0) return;
+
+    const frameInterval = Math.max(tickDuration / timeScale, minFrameInterval);
+    const simulatedPerFrame = frameInterval * timeScale;
+    realTimeInterval = setInterval(() => advanceBy(simulatedPerFrame), frameInterval);
+  }
+
+  function start() {
+    if (running) return;
+    running = true;
+    scheduleRealTime();
+  }
+
+  function stop() {
+    running = false;
+    scheduleRealTime();
+  }
+
+  function setTimeScale(scale: number) {
+    timeScale = Math.max(0, scale);
+    scheduleRealTime();
+  }
+
+  return {
+    tick$: tickSubject.asObservable(),
+    now: () => currentTime,
+    advance,
+    advanceBy,
+    start,
+    stop,
+    isRunning: () => running,
+    setTimeScale,
+    getTimeScale: () => timeScale,
+  };
+}
+
+/**
+ * Opérateur ne laissant passer que les ticks qui franchissent une nouvelle période de temps simulé.
+ *
+ * @param {number} period - La période en millisecondes simulées
+ * @returns {MonoTypeOperatorFunction<SimulationTick>} L'opérateur RxJS
+ */
+export function everySimulated(period: number): MonoTypeOperatorFunction<SimulationTick> {
+  return filter(({ time, dt }) => Math.floor(time / period) !== Math.floor((time - dt) / period));
+}
+
+/**
+ * Retourne le jour de l'année (fractionnaire, à partir de 0) d'un instant simulé.
+ *
+ * @param {number} time - L'instant simulé (en millisecondes)
+ * @returns {number} Le jour de l'année, 0 le 1er janvier à 0 h (UTC)
+ */
+export function dayOfYear(time: number): number {
+  const year = new Date(time).getUTCFullYear();
+  return (time - Date.UTC(year, 0, 1)) / MS_PER_DAY;
+}
+
+/**
+ * Convertit la durée d'un tick en secondes simulées.
+ *
+ * @param {SimulationTick} tick - Le tick de simulation
+ * @returns {number} La durée du tick en secondes
+ */
+export function tickSeconds(tick: SimulationTick): number {
+  return tick.dt / 1000;
+}
@@ -0,0 +1,157 @@
+import type { TimeSeries, TimeSeriesColumn, TimeSeriesSample } from '@/types/waterSystem';
+
+const TIME_SERIES_COLUMNS: readonly TimeSeriesColumn[] = [
+  'inflow',
+  'precipitation',
+  'temperature',
+  'consumption',
+];
+
+/**
+ * Convertit un horodatage (millisecondes ou date ISO 8601) en instant simulé.
+ */
+function parseTime(raw: unknown): number {
+  const text = String(raw).trim();
+  const time = /^-?\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Horodatage invalide : ${String(raw)}`);
+  }
+  return time;
+}
+
+/**
+ * Convertit une valeur mesurée ; une cellule vide, null ou « NA » est une lacune.
+ */
+function parseValue(raw: unknown, column: TimeSeriesColumn): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const text = String(raw).trim();
+  if (text === '' || text.toUpperCase() === 'NA') return undefined;
+  const value = Number(text);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Valeur invalide pour ${column} : ${text}`);
+  }
+  return value;
+}
+
+/**
+ * Construit un échantillon à partir d'un enregistrement brut, en ignorant les colonnes inconnues.
+ */
+function toSample(record: Record<string, unknown>): TimeSeriesSample {
+  const sample: TimeSeriesSample = { time: parseTime(record.time) };
+  for (const column of TIME_SERIES_COLUMNS) {
+    const value = parseValue(record[column], column);
+    if (value !== undefined) sample[column] = value;
+  }
+  return sample;
+}
+
+/**
+ * Trie les échantillons par instant croissant.
+ */
+function sortByTime(samples: TimeSeriesSample[]): TimeSeries {
+  return samples.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Lit une série chronologique au format CSV.
+ *
+ * @param {string} text - Le contenu du fichier : une ligne d'en-tête puis une ligne par échantillon
+ * @returns {TimeSeries} La série, triée par instant croissant
+ *
+ * @description
+ * L'en-tête doit contenir une colonne `time` (millisecondes ou date ISO 8601) ; les colonnes
+ * `inflow`, `precipitation`, `temperature` et `consumption` sont lues si elles sont présentes.
+ * Le séparateur est la virgule ou le point-virgule. Les lignes vides et celles commençant par
+ * `#` sont ignorées.
+ */
+export function parseTimeSeriesCsv(text: string): TimeSeries {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(separator).map((name) => name.trim());
+  if (!header.includes('time')) {
+    throw new Error('Colonne « time » absente de la série chronologique');
+  }
+
+  return sortByTime(
+    lines.slice(1).map((line) => {
+      const cells = line.split(separator);
+      return toSample(Object.fromEntries(header.map((name, i) => [name, cells[i]])));
+    }),
+  );
+}
+
+/**
+ * Lit une série chronologique au format JSON : un tableau d'objets `{ time, inflow, ... }`.
+ *
+ * @param {string} text - Le contenu du fichier
+ * @returns {TimeSeries} La série, triée par instant croissant
+ */
+export function parseTimeSeriesJson(text: string): TimeSeries {
+  const records: unknown = JSON.parse(text);
+  if (!Array.isArray(records)) {
+    throw new Error('La série chronologique JSON doit être un tableau');
+  }
+  return sortByTime(records.map((record) => toSample(record as Record<string, unknown>)));
+}
+
+/**
+ * Lit une série chronologique au format CSV ou JSON.
+ */
+export function parseTimeSeries(text: string, format: 'csv' | 'json'): TimeSeries {
+  return format === 'json' ? parseTimeSeriesJson(text) : parseTimeSeriesCsv(text);
+}
+
+/**
+ * Grandeurs renseignées au moins une fois dans la série.
+ */
+export function timeSeriesColumns(series: TimeSeries): TimeSeriesColumn[] {
+  return TIME_SERIES_COLUMNS.filter((column) =>
+    series.some((sample) => sample[column] !== undefined),
+  );
+}
+
+/**
+ * Valeur d'une grandeur à un instant donné.
+ *
+ * @param {TimeSeries} series - La série, triée par instant croissant
+ * @param {TimeSeriesColumn} column - La grandeur lue
+ * @param {number} time - L'instant (ms)
+ * @returns {number | undefined} La valeur, ou undefined si la grandeur n'est jamais renseignée
+ *
+ * @description
+ * La valeur est interpolée linéairement entre les échantillons renseignés qui encadrent
+ * l'instant : les lacunes sont ainsi comblées. Avant le premier et après le dernier
+ * échantillon renseigné, la valeur est maintenue constante.
+ */
+export function sampleTimeSeries(
+  series: TimeSeries,
+  column: TimeSeriesColumn,
+  time: number,
+): number | undefined {
+  // Premier échantillon strictement postérieur à l'instant (recherche dichotomique)
+  let low = 0;
+  let high = series.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (series[middle].time <= time) low = middle + 1;
+    else high = middle;
+  }
+
+  let before = low - 1;
+  while (before >= 0 && series[before][column] === undefined) before--;
+  let after = low;
+  while (after < series.length && series[after][column] === undefined) after++;
+
+  const previous = before >= 0 ? series[before] : undefined;
+  const next = after < series.length ? series[after] : undefined;
+  if (!previous || !next) return (previous ?? next)?.[column];
+
+  const start = previous[column] as number;
+  const end = next[column] as number;
+  return start + ((time - previous.time) / (next.time - previous.time)) * (end - start);
+}